@@ -0,0 +1,30 @@
+import type { CodegenConfig } from '@graphql-codegen/cli';
+
+const config: CodegenConfig = {
+  // Point this at the running API (e.g. http://localhost:3100/api/graphql)
+  // to generate against the live schema instead of the checked-in snapshot
+  schema: process.env.GRAPHQL_SCHEMA ?? 'src/apollo/schema.graphql',
+  documents: ['src/apollo/operations.ts'],
+  ignoreNoDocuments: false,
+  generates: {
+    'src/apollo/__generated__/': {
+      preset: 'client',
+      presetConfig: {
+        gqlTagName: 'gql',
+        fragmentMasking: false,
+      },
+      config: {
+        scalars: { DateTime: 'string' },
+        useTypeImports: true,
+        namingConvention: { enumValues: 'keep' },
+      },
+    },
+    // Lets the mock backend (src/mocks) execute operations without a server
+    'src/apollo/__generated__/schema.json': {
+      plugins: ['introspection'],
+      config: { minify: true },
+    },
+  },
+};
+
+export default config;
@@ -1,10 +1,29 @@
 const apiConfig = {
   development: {
     graphqlUrl: 'http://localhost:3100/api/graphql',
+    // Leave empty to poll for changes instead of subscribing
+    graphqlWsUrl: process.env.REACT_APP_GRAPHQL_WS_URL || '',
+    todoPollIntervalMs: 30000,
+    // Serve GraphQL from an in-memory store instead of graphqlUrl; can also
+    // be switched on per page load with ?mock=1
+    mock: {
+      enabled: process.env.REACT_APP_MOCK_API === 'true',
+      latencyMs: Number(process.env.REACT_APP_MOCK_LATENCY_MS || 300),
+      errorRate: Number(process.env.REACT_APP_MOCK_ERROR_RATE || 0),
+      seed: Number(process.env.REACT_APP_MOCK_SEED || 1),
+    },
   },
 
   production: {
     graphqlUrl: 'http://localhost:3100/api/graphql',
+    graphqlWsUrl: process.env.REACT_APP_GRAPHQL_WS_URL || '',
+    todoPollIntervalMs: 30000,
+    mock: {
+      enabled: process.env.REACT_APP_MOCK_API === 'true',
+      latencyMs: Number(process.env.REACT_APP_MOCK_LATENCY_MS || 300),
+      errorRate: Number(process.env.REACT_APP_MOCK_ERROR_RATE || 0),
+      seed: Number(process.env.REACT_APP_MOCK_SEED || 1),
+    },
   },
 };
 
@@ -37,6 +37,24 @@ function getReactEnvVars(env = process.env.NODE_ENV || 'development') {
   return {
     'process.env.NODE_ENV': JSON.stringify(env),
     'process.env.REACT_APP_API_URL': JSON.stringify(config.api.graphqlUrl),
+    'process.env.REACT_APP_GRAPHQL_WS_URL': JSON.stringify(
+      config.api.graphqlWsUrl
+    ),
+    'process.env.REACT_APP_TODO_POLL_INTERVAL_MS': JSON.stringify(
+      String(config.api.todoPollIntervalMs)
+    ),
+    'process.env.REACT_APP_MOCK_API': JSON.stringify(
+      String(config.api.mock.enabled)
+    ),
+    'process.env.REACT_APP_MOCK_LATENCY_MS': JSON.stringify(
+      String(config.api.mock.latencyMs)
+    ),
+    'process.env.REACT_APP_MOCK_ERROR_RATE': JSON.stringify(
+      String(config.api.mock.errorRate)
+    ),
+    'process.env.REACT_APP_MOCK_SEED': JSON.stringify(
+      String(config.api.mock.seed)
+    ),
   };
 }
 
@@ -0,0 +1,4 @@
+// Runs before the test workers start, so they all share one time zone
+module.exports = () => {
+  process.env.TZ = "America/New_York";
+};
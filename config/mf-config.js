@@ -3,6 +3,8 @@ const mfConfig = {
   filename: 'remoteEntry.js',
   exposes: {
     './TodoList': './src/components/TodoListWrapper',
+    './TodoDetail': './src/components/TodoDetail',
+    './todoHooks': './src/utils/hooks/useTodos',
   },
   shared: {
     '@apollo/client': { singleton: true, requiredVersion: '>=3.7.17' },
@@ -35,6 +35,8 @@ module.exports = {
           exposes: {
             "./Grid": "./src/components/GridMock",
             "./TodoList": "./src/components/TodoList",
+            "./TodoDetail": "./src/components/TodoDetail",
+            "./todoHooks": "./src/utils/hooks/useTodos",
           },
           shared: webpackConfig.sharedDependencies,
         }),
@@ -58,6 +60,16 @@ module.exports = {
       return config;
     },
   },
+  jest: {
+    configure: {
+      // Date tests rely on a zone with DST changes
+      globalSetup: "<rootDir>/config/jestGlobalSetup.js",
+      // Jest 27 ignores package exports; use the CommonJS build directly
+      moduleNameMapper: {
+        "^graphql-ws$": "<rootDir>/node_modules/graphql-ws/dist/index.cjs",
+      },
+    },
+  },
   devServer: {
     port: webpackConfig.devServerPort,
     headers: webpackConfig.corsHeaders,
@@ -7,8 +7,14 @@ import type {
   RouteConfig,
 } from '@orbusinfinity-shared/app-container';
 import {
+  Board24Filled,
+  Board24Regular,
+  CalendarLtr24Filled,
+  CalendarLtr24Regular,
   ContentView24Filled,
   ContentView24Regular,
+  DataPie24Filled,
+  DataPie24Regular,
   Table24Filled,
   Table24Regular,
   bundleIcon,
@@ -16,8 +22,16 @@ import {
 import { ApolloProvider } from '@apollo/client/react';
 import { type ApolloClient } from '@apollo/client';
 import { EntityCacheProvider } from '@orbusinfinity-shared/apollo-cache';
+import {
+  TODO_BOARD_PATH,
+  TODO_CALENDAR_PATH,
+  TODO_DETAIL_PATH,
+} from './utils/todoRoutes';
 
 const ContentIcon = bundleIcon(ContentView24Filled, ContentView24Regular);
+const BoardIcon = bundleIcon(Board24Filled, Board24Regular);
+const CalendarIcon = bundleIcon(CalendarLtr24Filled, CalendarLtr24Regular);
+const DashboardIcon = bundleIcon(DataPie24Filled, DataPie24Regular);
 const TableIcon = bundleIcon(Table24Filled, Table24Regular);
 
 const navigationItems: NavigationItem[] = [
@@ -30,6 +44,33 @@ const navigationItems: NavigationItem[] = [
     enabled: true,
     order: 1,
   },
+  {
+    id: 'board',
+    icon: <BoardIcon />,
+    label: 'Board',
+    path: TODO_BOARD_PATH,
+    type: 'route',
+    enabled: true,
+    order: 2,
+  },
+  {
+    id: 'calendar',
+    icon: <CalendarIcon />,
+    label: 'Calendar',
+    path: TODO_CALENDAR_PATH,
+    type: 'route',
+    enabled: true,
+    order: 3,
+  },
+  {
+    id: 'dashboard',
+    icon: <DashboardIcon />,
+    label: 'Dashboard',
+    path: '/dashboard',
+    type: 'route',
+    enabled: true,
+    order: 4,
+  },
   {
     id: 'projects',
     icon: <TableIcon />,
@@ -37,7 +78,7 @@ const navigationItems: NavigationItem[] = [
     path: '/projects',
     type: 'route',
     enabled: true,
-    order: 2,
+    order: 5,
   },
 ];
 
@@ -54,6 +95,54 @@ const routeConfigs: RouteConfig[] = [
     title: 'TODO List',
     description: 'Manage your TODO items',
   },
+  {
+    id: 'todo-detail',
+    path: TODO_DETAIL_PATH,
+    exact: true,
+    componentLoader: createLocalNamedComponentLoader(
+      () => import('./components/TodoDetail'),
+      'default'
+    ),
+    enabled: true,
+    title: 'TODO Details',
+    description: 'View and edit a single TODO item',
+  },
+  {
+    id: 'board',
+    path: TODO_BOARD_PATH,
+    exact: true,
+    componentLoader: createLocalNamedComponentLoader(
+      () => import('./components/TodoBoard'),
+      'default'
+    ),
+    enabled: true,
+    title: 'Board',
+    description: 'TODO items by priority or status',
+  },
+  {
+    id: 'calendar',
+    path: TODO_CALENDAR_PATH,
+    exact: true,
+    componentLoader: createLocalNamedComponentLoader(
+      () => import('./components/TodoCalendar'),
+      'default'
+    ),
+    enabled: true,
+    title: 'Calendar',
+    description: 'TODO items by due date',
+  },
+  {
+    id: 'dashboard',
+    path: '/dashboard',
+    exact: true,
+    componentLoader: createLocalNamedComponentLoader(
+      () => import('./components/TodoDashboard'),
+      'default'
+    ),
+    enabled: true,
+    title: 'Dashboard',
+    description: 'TODO statistics and team workload',
+  },
   {
     id: 'projects',
     path: '/projects',
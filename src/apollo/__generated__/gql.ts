@@ -0,0 +1,118 @@
+/* eslint-disable */
+import * as types from './graphql';
+import type { TypedDocumentNode as DocumentNode } from '@graphql-typed-document-node/core';
+
+/**
+ * Map of all GraphQL operations in the project.
+ *
+ * This map has several performance disadvantages:
+ * 1. It is not tree-shakeable, so it will include all operations in the project.
+ * 2. It is not minifiable, so the string of a GraphQL query will be multiple times inside the bundle.
+ * 3. It does not support dead code elimination, so it will add unused operations.
+ *
+ * Therefore it is highly recommended to use the babel or swc plugin for production.
+ * Learn more about it here: https://the-guild.dev/graphql/codegen/plugins/presets/preset-client#reducing-bundle-size
+ */
+type Documents = {
+    "\n  query GetTodos($filters: TodoFilterInput, $pagination: PaginationInput) {\n    todos(filters: $filters, pagination: $pagination) {\n      data {\n        id\n        title\n        description\n        completed\n        priority\n        dueDate\n        recurrence\n        subtasks {\n          id\n          title\n          completed\n        }\n        tags\n        createdAt\n        updatedAt\n      }\n      pagination {\n        page\n        limit\n        total\n        totalPages\n      }\n    }\n  }\n": typeof types.GetTodosDocument,
+    "\n  query GetTodoById($id: ID!) {\n    todo(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.GetTodoByIdDocument,
+    "\n  query GetTodoStats {\n    todoStats {\n      total\n      completed\n      pending\n      overdue\n      byPriority {\n        low\n        medium\n        high\n        urgent\n      }\n    }\n  }\n": typeof types.GetTodoStatsDocument,
+    "\n  query GetTodoTags {\n    todoTags\n  }\n": typeof types.GetTodoTagsDocument,
+    "\n  mutation CreateTodo($input: CreateTodoInput!) {\n    createTodo(input: $input) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.CreateTodoDocument,
+    "\n  mutation UpdateTodo($id: ID!, $input: UpdateTodoInput!) {\n    updateTodo(id: $id, input: $input) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.UpdateTodoDocument,
+    "\n  mutation DeleteTodo($id: ID!) {\n    deleteTodo(id: $id) {\n      success\n      message\n    }\n  }\n": typeof types.DeleteTodoDocument,
+    "\n  mutation MarkTodoCompleted($id: ID!) {\n    markTodoCompleted(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.MarkTodoCompletedDocument,
+    "\n  mutation MarkTodoIncomplete($id: ID!) {\n    markTodoIncomplete(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.MarkTodoIncompleteDocument,
+    "\n  mutation ForceSync {\n    forceSync {\n      success\n      message\n    }\n  }\n": typeof types.ForceSyncDocument,
+    "\n  subscription TodoCreated {\n    todoCreated {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.TodoCreatedDocument,
+    "\n  subscription TodoUpdated {\n    todoUpdated {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.TodoUpdatedDocument,
+    "\n  subscription TodoDeleted {\n    todoDeleted {\n      id\n    }\n  }\n": typeof types.TodoDeletedDocument,
+};
+const documents: Documents = {
+    "\n  query GetTodos($filters: TodoFilterInput, $pagination: PaginationInput) {\n    todos(filters: $filters, pagination: $pagination) {\n      data {\n        id\n        title\n        description\n        completed\n        priority\n        dueDate\n        recurrence\n        subtasks {\n          id\n          title\n          completed\n        }\n        tags\n        createdAt\n        updatedAt\n      }\n      pagination {\n        page\n        limit\n        total\n        totalPages\n      }\n    }\n  }\n": types.GetTodosDocument,
+    "\n  query GetTodoById($id: ID!) {\n    todo(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": types.GetTodoByIdDocument,
+    "\n  query GetTodoStats {\n    todoStats {\n      total\n      completed\n      pending\n      overdue\n      byPriority {\n        low\n        medium\n        high\n        urgent\n      }\n    }\n  }\n": types.GetTodoStatsDocument,
+    "\n  query GetTodoTags {\n    todoTags\n  }\n": types.GetTodoTagsDocument,
+    "\n  mutation CreateTodo($input: CreateTodoInput!) {\n    createTodo(input: $input) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": types.CreateTodoDocument,
+    "\n  mutation UpdateTodo($id: ID!, $input: UpdateTodoInput!) {\n    updateTodo(id: $id, input: $input) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": types.UpdateTodoDocument,
+    "\n  mutation DeleteTodo($id: ID!) {\n    deleteTodo(id: $id) {\n      success\n      message\n    }\n  }\n": types.DeleteTodoDocument,
+    "\n  mutation MarkTodoCompleted($id: ID!) {\n    markTodoCompleted(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": types.MarkTodoCompletedDocument,
+    "\n  mutation MarkTodoIncomplete($id: ID!) {\n    markTodoIncomplete(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": types.MarkTodoIncompleteDocument,
+    "\n  mutation ForceSync {\n    forceSync {\n      success\n      message\n    }\n  }\n": types.ForceSyncDocument,
+    "\n  subscription TodoCreated {\n    todoCreated {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": types.TodoCreatedDocument,
+    "\n  subscription TodoUpdated {\n    todoUpdated {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n": types.TodoUpdatedDocument,
+    "\n  subscription TodoDeleted {\n    todoDeleted {\n      id\n    }\n  }\n": types.TodoDeletedDocument,
+};
+
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ *
+ *
+ * @example
+ * ```ts
+ * const query = gql(`query GetUser($id: ID!) { user(id: $id) { name } }`);
+ * ```
+ *
+ * The query argument is unknown!
+ * Please regenerate the types.
+ */
+export function gql(source: string): unknown;
+
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  query GetTodos($filters: TodoFilterInput, $pagination: PaginationInput) {\n    todos(filters: $filters, pagination: $pagination) {\n      data {\n        id\n        title\n        description\n        completed\n        priority\n        dueDate\n        recurrence\n        subtasks {\n          id\n          title\n          completed\n        }\n        tags\n        createdAt\n        updatedAt\n      }\n      pagination {\n        page\n        limit\n        total\n        totalPages\n      }\n    }\n  }\n"): (typeof documents)["\n  query GetTodos($filters: TodoFilterInput, $pagination: PaginationInput) {\n    todos(filters: $filters, pagination: $pagination) {\n      data {\n        id\n        title\n        description\n        completed\n        priority\n        dueDate\n        recurrence\n        subtasks {\n          id\n          title\n          completed\n        }\n        tags\n        createdAt\n        updatedAt\n      }\n      pagination {\n        page\n        limit\n        total\n        totalPages\n      }\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  query GetTodoById($id: ID!) {\n    todo(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"): (typeof documents)["\n  query GetTodoById($id: ID!) {\n    todo(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  query GetTodoStats {\n    todoStats {\n      total\n      completed\n      pending\n      overdue\n      byPriority {\n        low\n        medium\n        high\n        urgent\n      }\n    }\n  }\n"): (typeof documents)["\n  query GetTodoStats {\n    todoStats {\n      total\n      completed\n      pending\n      overdue\n      byPriority {\n        low\n        medium\n        high\n        urgent\n      }\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  query GetTodoTags {\n    todoTags\n  }\n"): (typeof documents)["\n  query GetTodoTags {\n    todoTags\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  mutation CreateTodo($input: CreateTodoInput!) {\n    createTodo(input: $input) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"): (typeof documents)["\n  mutation CreateTodo($input: CreateTodoInput!) {\n    createTodo(input: $input) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  mutation UpdateTodo($id: ID!, $input: UpdateTodoInput!) {\n    updateTodo(id: $id, input: $input) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"): (typeof documents)["\n  mutation UpdateTodo($id: ID!, $input: UpdateTodoInput!) {\n    updateTodo(id: $id, input: $input) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  mutation DeleteTodo($id: ID!) {\n    deleteTodo(id: $id) {\n      success\n      message\n    }\n  }\n"): (typeof documents)["\n  mutation DeleteTodo($id: ID!) {\n    deleteTodo(id: $id) {\n      success\n      message\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  mutation MarkTodoCompleted($id: ID!) {\n    markTodoCompleted(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"): (typeof documents)["\n  mutation MarkTodoCompleted($id: ID!) {\n    markTodoCompleted(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  mutation MarkTodoIncomplete($id: ID!) {\n    markTodoIncomplete(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"): (typeof documents)["\n  mutation MarkTodoIncomplete($id: ID!) {\n    markTodoIncomplete(id: $id) {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  mutation ForceSync {\n    forceSync {\n      success\n      message\n    }\n  }\n"): (typeof documents)["\n  mutation ForceSync {\n    forceSync {\n      success\n      message\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  subscription TodoCreated {\n    todoCreated {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"): (typeof documents)["\n  subscription TodoCreated {\n    todoCreated {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  subscription TodoUpdated {\n    todoUpdated {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"): (typeof documents)["\n  subscription TodoUpdated {\n    todoUpdated {\n      id\n      title\n      description\n      completed\n      priority\n      dueDate\n      recurrence\n      subtasks {\n        id\n        title\n        completed\n      }\n      tags\n      createdAt\n      updatedAt\n    }\n  }\n"];
+/**
+ * The gql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function gql(source: "\n  subscription TodoDeleted {\n    todoDeleted {\n      id\n    }\n  }\n"): (typeof documents)["\n  subscription TodoDeleted {\n    todoDeleted {\n      id\n    }\n  }\n"];
+
+export function gql(source: string) {
+  return (documents as any)[source] ?? {};
+}
+
+export type DocumentType<TDocumentNode extends DocumentNode<any, any>> = TDocumentNode extends DocumentNode<  infer TType,  any>  ? TType  : never;
\ No newline at end of file
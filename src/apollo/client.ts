@@ -3,20 +3,32 @@ import {
   createApolloClientConfig,
   DEFAULT_APOLLO_CACHE_KEY,
 } from '@orbusinfinity-shared/apollo-cache';
+import { getMockApiConfig } from '../mocks/mockConfig';
 
 export async function initializeApolloClient() {
   const apiUrl =
     process.env.REACT_APP_API_URL ?? 'http://localhost:3100/api/graphql';
+  const mockConfig = getMockApiConfig();
   const config = createApolloClientConfig(apiUrl, {
-    cacheKey: DEFAULT_APOLLO_CACHE_KEY,
+    // Mock data must never end up in the persisted cache of the real API
+    cacheKey: mockConfig
+      ? `${DEFAULT_APOLLO_CACHE_KEY}:mock`
+      : DEFAULT_APOLLO_CACHE_KEY,
     typePolicies: {
       Todo: {
         fields: {
           dueDate: {
             merge: (_existing: Date | undefined, incoming: Date) => incoming,
           },
+          subtasks: {
+            merge: (_existing = [], incoming = []) => incoming as never[],
+          },
         },
       },
+      // Checklist items only exist inside their todo
+      Subtask: {
+        keyFields: false,
+      },
       TodosResponse: {
         fields: {
           data: {
@@ -27,7 +39,17 @@ export async function initializeApolloClient() {
     },
   });
 
-  return await initApolloClient(config);
+  const initialized = await initApolloClient(config);
+
+  if (mockConfig) {
+    // Loaded on demand so the mock backend stays out of regular bundles
+    const { createMockLink } = await import('../mocks/mockLink');
+    initialized.client.setLink(createMockLink(mockConfig));
+    // eslint-disable-next-line no-console
+    console.info('Serving GraphQL from the in-memory mock backend', mockConfig);
+  }
+
+  return initialized;
 }
 
 export default initializeApolloClient;
@@ -1,8 +1,8 @@
-import { gql } from '@apollo/client';
+import { gql } from './__generated__';
 
 export * from './types';
 
-export const GET_TODOS = gql`
+export const GET_TODOS = gql(`
   query GetTodos($filters: TodoFilterInput, $pagination: PaginationInput) {
     todos(filters: $filters, pagination: $pagination) {
       data {
@@ -12,6 +12,13 @@ export const GET_TODOS = gql`
         completed
         priority
         dueDate
+        recurrence
+        subtasks {
+          id
+          title
+          completed
+        }
+        tags
         createdAt
         updatedAt
       }
@@ -23,9 +30,9 @@ export const GET_TODOS = gql`
       }
     }
   }
-`;
+`);
 
-export const GET_TODO_BY_ID = gql`
+export const GET_TODO_BY_ID = gql(`
   query GetTodoById($id: ID!) {
     todo(id: $id) {
       id
@@ -34,13 +41,20 @@ export const GET_TODO_BY_ID = gql`
       completed
       priority
       dueDate
+      recurrence
+      subtasks {
+        id
+        title
+        completed
+      }
+      tags
       createdAt
       updatedAt
     }
   }
-`;
+`);
 
-export const GET_TODO_STATS = gql`
+export const GET_TODO_STATS = gql(`
   query GetTodoStats {
     todoStats {
       total
@@ -55,10 +69,16 @@ export const GET_TODO_STATS = gql`
       }
     }
   }
-`;
+`);
+
+export const GET_TODO_TAGS = gql(`
+  query GetTodoTags {
+    todoTags
+  }
+`);
 
 // GraphQL Mutations
-export const CREATE_TODO = gql`
+export const CREATE_TODO = gql(`
   mutation CreateTodo($input: CreateTodoInput!) {
     createTodo(input: $input) {
       id
@@ -67,13 +87,20 @@ export const CREATE_TODO = gql`
       completed
       priority
       dueDate
+      recurrence
+      subtasks {
+        id
+        title
+        completed
+      }
+      tags
       createdAt
       updatedAt
     }
   }
-`;
+`);
 
-export const UPDATE_TODO = gql`
+export const UPDATE_TODO = gql(`
   mutation UpdateTodo($id: ID!, $input: UpdateTodoInput!) {
     updateTodo(id: $id, input: $input) {
       id
@@ -82,22 +109,29 @@ export const UPDATE_TODO = gql`
       completed
       priority
       dueDate
+      recurrence
+      subtasks {
+        id
+        title
+        completed
+      }
+      tags
       createdAt
       updatedAt
     }
   }
-`;
+`);
 
-export const DELETE_TODO = gql`
+export const DELETE_TODO = gql(`
   mutation DeleteTodo($id: ID!) {
     deleteTodo(id: $id) {
       success
       message
     }
   }
-`;
+`);
 
-export const MARK_TODO_COMPLETED = gql`
+export const MARK_TODO_COMPLETED = gql(`
   mutation MarkTodoCompleted($id: ID!) {
     markTodoCompleted(id: $id) {
       id
@@ -106,13 +140,20 @@ export const MARK_TODO_COMPLETED = gql`
       completed
       priority
       dueDate
+      recurrence
+      subtasks {
+        id
+        title
+        completed
+      }
+      tags
       createdAt
       updatedAt
     }
   }
-`;
+`);
 
-export const MARK_TODO_INCOMPLETE = gql`
+export const MARK_TODO_INCOMPLETE = gql(`
   mutation MarkTodoIncomplete($id: ID!) {
     markTodoIncomplete(id: $id) {
       id
@@ -121,17 +162,76 @@ export const MARK_TODO_INCOMPLETE = gql`
       completed
       priority
       dueDate
+      recurrence
+      subtasks {
+        id
+        title
+        completed
+      }
+      tags
       createdAt
       updatedAt
     }
   }
-`;
+`);
 
-export const FORCE_SYNC = gql`
+export const FORCE_SYNC = gql(`
   mutation ForceSync {
     forceSync {
       success
       message
     }
   }
-`;
+`);
+
+export const TODO_CREATED = gql(`
+  subscription TodoCreated {
+    todoCreated {
+      id
+      title
+      description
+      completed
+      priority
+      dueDate
+      recurrence
+      subtasks {
+        id
+        title
+        completed
+      }
+      tags
+      createdAt
+      updatedAt
+    }
+  }
+`);
+
+export const TODO_UPDATED = gql(`
+  subscription TodoUpdated {
+    todoUpdated {
+      id
+      title
+      description
+      completed
+      priority
+      dueDate
+      recurrence
+      subtasks {
+        id
+        title
+        completed
+      }
+      tags
+      createdAt
+      updatedAt
+    }
+  }
+`);
+
+export const TODO_DELETED = gql(`
+  subscription TodoDeleted {
+    todoDeleted {
+      id
+    }
+  }
+`);
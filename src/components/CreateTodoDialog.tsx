@@ -1,5 +1,4 @@
 import { useState } from 'react';
-import { useMutation } from '@apollo/client/react';
 import {
   Dialog,
   DialogTrigger,
@@ -10,17 +9,24 @@ import {
   DialogContent,
   Button,
   Input,
-  Textarea,
   Field,
   Dropdown,
   Option,
   makeStyles,
   MessageBar,
 } from '@fluentui/react-components';
-import { CREATE_TODO, TodoPriority } from '../apollo/operations';
+import { TodoPriority } from '../apollo/operations';
 import type { CreateTodoInput } from '../apollo/operations';
 import type { Todo } from '../apollo/types';
-import { useEntityMutations } from '@orbusinfinity-shared/apollo-cache';
+import { useTodoMutations } from '../utils/hooks/useTodos';
+import { useTodoTags } from '../utils/hooks/useTodoTags';
+import { validateTodoInput } from '../utils/todoMutationErrors';
+import { toSubtaskInputs } from '../utils/todoSubtasks';
+import type { ChecklistItem } from '../utils/todoSubtasks';
+import TodoRecurrenceField from './TodoRecurrenceField';
+import TodoChecklistEditor from './TodoChecklistEditor';
+import TodoTagPicker from './TodoTagPicker';
+import TodoMarkdownEditor from './TodoMarkdownEditor';
 
 const useStyles = makeStyles({
   dialogBody: {
@@ -38,72 +44,33 @@ const useStyles = makeStyles({
 
 interface CreateTodoDialogProps {
   open: boolean;
-  entityKey: string;
   onClose: () => void;
   onSuccess?: (newTodo?: Todo) => void;
+  onError?: (message: string) => void;
 }
 
 const CreateTodoDialog = ({
   open,
-  entityKey,
   onClose,
   onSuccess,
+  onError,
 }: CreateTodoDialogProps) => {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     priority: TodoPriority.MEDIUM,
     dueDate: '',
+    recurrence: '',
+    subtasks: [] as ChecklistItem[],
+    tags: [] as string[],
   });
   const [errors, setErrors] = useState<string[]>([]);
   const styles = useStyles();
 
-  // Use the new simplified entity mutations hook
-  const { addEntity: addTodo } = useEntityMutations<Todo>(entityKey);
-
-  const [createTodo, { loading }] = useMutation<{
-    createTodo: {
-      id: string;
-      title: string;
-      description?: string;
-      completed: boolean;
-      priority: TodoPriority;
-      dueDate?: string;
-      createdAt: string;
-      updatedAt: string;
-    };
-  }>(CREATE_TODO, {
-    onCompleted: async data => {
-      // Use the new entity cache system for optimistic updates
-      await addTodo(data.createTodo);
-
-      setFormData({
-        title: '',
-        description: '',
-        priority: TodoPriority.MEDIUM,
-        dueDate: '',
-      });
-      setErrors([]);
-      onSuccess?.(data.createTodo);
-      onClose();
-    },
-    onError: error => {
-      setErrors([error.message]);
-    },
-  });
+  const { create } = useTodoMutations();
+  const tagSuggestions = useTodoTags();
 
   const handleSubmit = async () => {
-    const newErrors: string[] = [];
-
-    if (formData.title.trim().length === 0) {
-      newErrors.push('Title is required');
-    }
-
-    if (newErrors.length > 0) {
-      setErrors(newErrors);
-      return;
-    }
-
     const input: CreateTodoInput = {
       title: formData.title.trim(),
       priority: formData.priority,
@@ -117,13 +84,33 @@ const CreateTodoDialog = ({
       input.dueDate = new Date(formData.dueDate).toISOString();
     }
 
-    try {
-      await createTodo({
-        variables: { input },
-      });
-    } catch (error) {
-      // eslint-disable-next-line no-console
-      console.error('Error creating todo:', error);
+    if (formData.recurrence.trim().length > 0) {
+      input.recurrence = formData.recurrence.trim();
+    }
+
+    if (formData.subtasks.length > 0) {
+      input.subtasks = toSubtaskInputs(formData.subtasks);
+    }
+
+    if (formData.tags.length > 0) {
+      input.tags = formData.tags;
+    }
+
+    const newErrors = validateTodoInput(input);
+    if (newErrors.length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    // The row shows up right away, so the dialog does not wait for the server
+    const pendingResult = create(input);
+    handleClose();
+
+    const result = await pendingResult;
+    if (result.ok) {
+      onSuccess?.(result.data);
+    } else {
+      onError?.(`Could not create "${input.title}": ${result.error.message}`);
     }
   };
 
@@ -133,6 +120,9 @@ const CreateTodoDialog = ({
       description: '',
       priority: TodoPriority.MEDIUM,
       dueDate: '',
+      recurrence: '',
+      subtasks: [],
+      tags: [],
     });
     setErrors([]);
     onClose();
@@ -167,19 +157,16 @@ const CreateTodoDialog = ({
                     setFormData({ ...formData, title: e.target.value });
                   }}
                   placeholder='Enter todo title...'
-                  disabled={loading}
                 />
               </Field>
 
               <Field label='Description'>
-                <Textarea
+                <TodoMarkdownEditor
                   value={formData.description}
-                  onChange={e => {
-                    setFormData({ ...formData, description: e.target.value });
+                  onChange={description => {
+                    setFormData({ ...formData, description });
                   }}
-                  placeholder='Enter todo description...'
-                  rows={3}
-                  disabled={loading}
+                  placeholder='Enter todo description... (Markdown is supported)'
                 />
               </Field>
 
@@ -193,7 +180,6 @@ const CreateTodoDialog = ({
                       priority: data.optionValue as TodoPriority,
                     });
                   }}
-                  disabled={loading}
                 >
                   <Option value={TodoPriority.LOW}>Low</Option>
                   <Option value={TodoPriority.MEDIUM}>Medium</Option>
@@ -209,27 +195,48 @@ const CreateTodoDialog = ({
                   onChange={e => {
                     setFormData({ ...formData, dueDate: e.target.value });
                   }}
-                  disabled={loading}
                 />
               </Field>
+
+              <TodoRecurrenceField
+                value={formData.recurrence}
+                onChange={recurrence => {
+                  setFormData({ ...formData, recurrence });
+                }}
+                dueDate={formData.dueDate}
+              />
+
+              <Field label='Tags'>
+                <TodoTagPicker
+                  value={formData.tags}
+                  onChange={tags => {
+                    setFormData({ ...formData, tags });
+                  }}
+                  suggestions={tagSuggestions}
+                  aria-label='Tags'
+                />
+              </Field>
+
+              <TodoChecklistEditor
+                items={formData.subtasks}
+                onChange={subtasks => {
+                  setFormData({ ...formData, subtasks });
+                }}
+              />
             </div>
           </DialogContent>
           <DialogActions>
             <DialogTrigger disableButtonEnhancement>
-              <Button
-                appearance='secondary'
-                onClick={handleClose}
-                disabled={loading}
-              >
+              <Button appearance='secondary' onClick={handleClose}>
                 Cancel
               </Button>
             </DialogTrigger>
             <Button
               appearance='primary'
               onClick={handleSubmit}
-              disabled={loading || formData.title.trim().length === 0}
+              disabled={formData.title.trim().length === 0}
             >
-              {loading ? 'Creating...' : 'Create TODO'}
+              Create TODO
             </Button>
           </DialogActions>
         </DialogBody>
@@ -1,5 +1,3 @@
-import { useState } from 'react';
-import { useMutation } from '@apollo/client/react';
 import {
   Dialog,
   DialogTrigger,
@@ -10,11 +8,9 @@ import {
   DialogContent,
   Button,
   makeStyles,
-  MessageBar,
 } from '@fluentui/react-components';
-import { DELETE_TODO } from '../apollo/operations';
 import type { Todo } from '../apollo/operations';
-import { useEntityMutations } from '@orbusinfinity-shared/apollo-cache';
+import { useTodoMutations } from '../utils/hooks/useTodos';
 
 const useStyles = makeStyles({
   dialogBody: {
@@ -37,60 +33,38 @@ const useStyles = makeStyles({
 
 interface DeleteTodoDialogProps {
   todo: Todo;
-  entityKey: string;
   open: boolean;
   onClose: () => void;
   onSuccess?: (deletedTodoId?: string) => void;
+  onError?: (message: string) => void;
 }
 
 const DeleteTodoDialog = ({
   todo,
-  entityKey,
   open,
   onClose,
   onSuccess,
+  onError,
 }: DeleteTodoDialogProps) => {
-  const [error, setError] = useState<string>('');
   const styles = useStyles();
 
-  const { removeEntity: removeTodo } = useEntityMutations<Todo>(entityKey);
-
-  const [deleteTodo, { loading }] = useMutation<{
-    deleteTodo: {
-      success: boolean;
-      message: string;
-    };
-  }>(DELETE_TODO, {
-    onCompleted: async data => {
-      if (data.deleteTodo.success) {
-        await removeTodo(todo.id);
-
-        setError('');
-        onSuccess?.(todo.id);
-        onClose();
-      } else {
-        setError(data.deleteTodo.message || 'Failed to delete todo');
-      }
-    },
-    onError: error => {
-      setError(error.message);
-    },
-  });
+  const { remove } = useTodoMutations();
 
   const handleDelete = async () => {
-    try {
-      await deleteTodo({
-        variables: { id: todo.id },
-      });
-    } catch (error) {
-      // eslint-disable-next-line no-console
-      console.error('Error deleting todo:', error);
-    }
-  };
-
-  const handleClose = () => {
-    setError('');
+    // The row disappears right away; the delete itself waits for the undo
+    // window to close
+    const deletedTodo = todo;
+    const pendingResult = remove(deletedTodo, { undoable: true });
     onClose();
+
+    const result = await pendingResult;
+    if (!result.ok) {
+      onError?.(
+        `Could not delete "${deletedTodo.title}": ${result.error.message}`
+      );
+    } else if (!result.undone) {
+      onSuccess?.(deletedTodo.id);
+    }
   };
 
   return (
@@ -98,7 +72,7 @@ const DeleteTodoDialog = ({
       open={open}
       onOpenChange={(_event, data) => {
         if (!data.open) {
-          handleClose();
+          onClose();
         }
       }}
     >
@@ -107,13 +81,9 @@ const DeleteTodoDialog = ({
           <DialogTitle>Delete TODO</DialogTitle>
           <DialogContent>
             <div className={styles.dialogBody}>
-              {error.length > 0 && (
-                <MessageBar intent='error'>{error}</MessageBar>
-              )}
-
               <p className={styles.warningText}>
-                Are you sure you want to delete this TODO? This action cannot be
-                undone.
+                Are you sure you want to delete this TODO? You can undo this for
+                a few seconds afterwards.
               </p>
 
               <div className={styles.todoInfo}>
@@ -131,7 +101,7 @@ const DeleteTodoDialog = ({
                   <strong>Status:</strong>{' '}
                   {todo.completed ? 'Completed' : 'Pending'}
                 </p>
-                {todo.dueDate !== undefined && (
+                {todo.dueDate && (
                   <p>
                     <strong>Due Date:</strong>{' '}
                     {new Date(todo.dueDate).toLocaleDateString('en-US', {
@@ -148,21 +118,16 @@ const DeleteTodoDialog = ({
           </DialogContent>
           <DialogActions>
             <DialogTrigger disableButtonEnhancement>
-              <Button
-                appearance='secondary'
-                onClick={handleClose}
-                disabled={loading}
-              >
+              <Button appearance='secondary' onClick={onClose}>
                 Cancel
               </Button>
             </DialogTrigger>
             <Button
               appearance='primary'
               onClick={handleDelete}
-              disabled={loading}
               style={{ backgroundColor: '#d73a49', borderColor: '#d73a49' }}
             >
-              {loading ? 'Deleting...' : 'Delete TODO'}
+              Delete TODO
             </Button>
           </DialogActions>
         </DialogBody>
@@ -1,5 +1,4 @@
 import { useState, useEffect } from 'react';
-import { useMutation } from '@apollo/client/react';
 import {
   Dialog,
   DialogTrigger,
@@ -10,17 +9,33 @@ import {
   DialogContent,
   Button,
   Input,
-  Textarea,
   Field,
   Dropdown,
   Option,
   Checkbox,
   makeStyles,
   MessageBar,
+  MessageBarActions,
+  MessageBarBody,
 } from '@fluentui/react-components';
-import { UPDATE_TODO, TodoPriority } from '../apollo/operations';
+import { TodoPriority } from '../apollo/operations';
 import type { Todo, UpdateTodoInput } from '../apollo/operations';
-import { useEntityMutations } from '@orbusinfinity-shared/apollo-cache';
+import { toDateTimeInputValue } from '../utils/todoFormatting';
+import { useTodoMutations } from '../utils/hooks/useTodos';
+import { useTodoTags } from '../utils/hooks/useTodoTags';
+import { validateTodoInput } from '../utils/todoMutationErrors';
+import {
+  allSubtasksDone,
+  checklistChanged,
+  toChecklistItems,
+  toSubtaskInputs,
+} from '../utils/todoSubtasks';
+import type { ChecklistItem } from '../utils/todoSubtasks';
+import { tagsChanged } from '../utils/todoTags';
+import TodoRecurrenceField from './TodoRecurrenceField';
+import TodoChecklistEditor from './TodoChecklistEditor';
+import TodoTagPicker from './TodoTagPicker';
+import TodoMarkdownEditor from './TodoMarkdownEditor';
 
 const useStyles = makeStyles({
   dialogBody: {
@@ -38,81 +53,49 @@ const useStyles = makeStyles({
 
 interface EditTodoDialogProps {
   todo: Todo;
-  entityKey: string;
   open: boolean;
   onClose: () => void;
   onSuccess?: (updatedTodo?: Todo) => void;
+  onError?: (message: string) => void;
 }
 
 const EditTodoDialog = ({
   todo,
-  entityKey,
   open,
   onClose,
   onSuccess,
+  onError,
 }: EditTodoDialogProps) => {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     priority: TodoPriority.MEDIUM,
     dueDate: '',
+    recurrence: '',
+    subtasks: [] as ChecklistItem[],
+    tags: [] as string[],
     completed: false,
   });
   const [errors, setErrors] = useState<string[]>([]);
   const styles = useStyles();
 
-  const { updateEntity: updateTodo } = useEntityMutations<Todo>(entityKey);
-
   useEffect(() => {
     setFormData({
       title: todo.title,
       description: todo.description ?? '',
       priority: todo.priority,
-      dueDate:
-        todo.dueDate !== undefined
-          ? new Date(todo.dueDate).toISOString().slice(0, 16)
-          : '',
+      dueDate: toDateTimeInputValue(todo.dueDate),
+      recurrence: todo.recurrence ?? '',
+      subtasks: toChecklistItems(todo.subtasks),
+      tags: todo.tags,
       completed: todo.completed,
     });
   }, [todo]);
 
-  const [updateTodoMutation, { loading }] = useMutation<{
-    updateTodo: {
-      id: string;
-      title: string;
-      description?: string;
-      completed: boolean;
-      priority: TodoPriority;
-      dueDate?: string;
-      createdAt: string;
-      updatedAt: string;
-    };
-  }>(UPDATE_TODO, {
-    onCompleted: async data => {
-      // Use the new entity cache system for optimistic updates
-      await updateTodo(data.updateTodo);
-
-      setErrors([]);
-      onSuccess?.(data.updateTodo);
-      onClose();
-    },
-    onError: error => {
-      setErrors([error.message]);
-    },
-  });
+  const { update } = useTodoMutations();
+  const tagSuggestions = useTodoTags();
 
   const handleSubmit = async () => {
-    const newErrors: string[] = [];
-
-    if (formData.title.trim().length === 0) {
-      newErrors.push('Title is required');
-    }
-
-    if (newErrors.length > 0) {
-      setErrors(newErrors);
-      return;
-    }
-
     const input: UpdateTodoInput = {
       title: formData.title.trim(),
       priority: formData.priority,
@@ -123,30 +106,48 @@ const EditTodoDialog = ({
       input.description =
         formData.description.trim().length > 0
           ? formData.description.trim()
-          : undefined;
+          : null;
     }
 
-    const originalDueDate =
-      todo.dueDate !== undefined
-        ? new Date(todo.dueDate).toISOString().slice(0, 16)
-        : '';
+    const originalDueDate = toDateTimeInputValue(todo.dueDate);
     if (formData.dueDate !== originalDueDate) {
       input.dueDate =
         formData.dueDate.length > 0
           ? new Date(formData.dueDate).toISOString()
-          : undefined;
+          : null;
     }
 
-    try {
-      await updateTodoMutation({
-        variables: {
-          id: todo.id,
-          input,
-        },
-      });
-    } catch (error) {
-      // eslint-disable-next-line no-console
-      console.error('Error updating todo:', error);
+    if (formData.recurrence.trim() !== (todo.recurrence ?? '')) {
+      input.recurrence =
+        formData.recurrence.trim().length > 0
+          ? formData.recurrence.trim()
+          : null;
+    }
+
+    if (checklistChanged(todo.subtasks, formData.subtasks)) {
+      input.subtasks = toSubtaskInputs(formData.subtasks);
+    }
+
+    if (tagsChanged(todo.tags, formData.tags)) {
+      input.tags = formData.tags;
+    }
+
+    const newErrors = validateTodoInput(input);
+    if (newErrors.length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    // The edit shows up right away and is rolled back if the server refuses
+    const previousTitle = todo.title;
+    const pendingResult = update(todo, input);
+    handleClose();
+
+    const result = await pendingResult;
+    if (result.ok) {
+      onSuccess?.(result.data);
+    } else {
+      onError?.(`Could not update "${previousTitle}": ${result.error.message}`);
     }
   };
 
@@ -184,19 +185,16 @@ const EditTodoDialog = ({
                     setFormData({ ...formData, title: e.target.value });
                   }}
                   placeholder='Enter todo title...'
-                  disabled={loading}
                 />
               </Field>
 
               <Field label='Description'>
-                <Textarea
+                <TodoMarkdownEditor
                   value={formData.description}
-                  onChange={e => {
-                    setFormData({ ...formData, description: e.target.value });
+                  onChange={description => {
+                    setFormData({ ...formData, description });
                   }}
-                  placeholder='Enter todo description...'
-                  rows={3}
-                  disabled={loading}
+                  placeholder='Enter todo description... (Markdown is supported)'
                 />
               </Field>
 
@@ -210,7 +208,6 @@ const EditTodoDialog = ({
                       priority: data.optionValue as TodoPriority,
                     });
                   }}
-                  disabled={loading}
                 >
                   <Option value={TodoPriority.LOW}>Low</Option>
                   <Option value={TodoPriority.MEDIUM}>Medium</Option>
@@ -226,10 +223,51 @@ const EditTodoDialog = ({
                   onChange={e => {
                     setFormData({ ...formData, dueDate: e.target.value });
                   }}
-                  disabled={loading}
                 />
               </Field>
 
+              <TodoRecurrenceField
+                value={formData.recurrence}
+                onChange={recurrence => {
+                  setFormData({ ...formData, recurrence });
+                }}
+                dueDate={formData.dueDate}
+              />
+
+              <Field label='Tags'>
+                <TodoTagPicker
+                  value={formData.tags}
+                  onChange={tags => {
+                    setFormData({ ...formData, tags });
+                  }}
+                  suggestions={tagSuggestions}
+                  aria-label='Tags'
+                />
+              </Field>
+
+              <TodoChecklistEditor
+                items={formData.subtasks}
+                onChange={subtasks => {
+                  setFormData({ ...formData, subtasks });
+                }}
+              />
+
+              {allSubtasksDone(formData.subtasks) && !formData.completed && (
+                <MessageBar intent='success'>
+                  <MessageBarBody>Every checklist item is done.</MessageBarBody>
+                  <MessageBarActions>
+                    <Button
+                      size='small'
+                      onClick={() => {
+                        setFormData({ ...formData, completed: true });
+                      }}
+                    >
+                      Mark as completed
+                    </Button>
+                  </MessageBarActions>
+                </MessageBar>
+              )}
+
               <Field>
                 <Checkbox
                   checked={formData.completed}
@@ -240,27 +278,22 @@ const EditTodoDialog = ({
                     });
                   }}
                   label='Mark as completed'
-                  disabled={loading}
                 />
               </Field>
             </div>
           </DialogContent>
           <DialogActions>
             <DialogTrigger disableButtonEnhancement>
-              <Button
-                appearance='secondary'
-                onClick={handleClose}
-                disabled={loading}
-              >
+              <Button appearance='secondary' onClick={handleClose}>
                 Cancel
               </Button>
             </DialogTrigger>
             <Button
               appearance='primary'
               onClick={handleSubmit}
-              disabled={loading || formData.title.trim().length === 0}
+              disabled={formData.title.trim().length === 0}
             >
-              {loading ? 'Updating...' : 'Update TODO'}
+              Update TODO
             </Button>
           </DialogActions>
         </DialogBody>
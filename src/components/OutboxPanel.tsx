@@ -0,0 +1,118 @@
+import {
+  Button,
+  MessageBar,
+  MessageBarActions,
+  MessageBarBody,
+  MessageBarTitle,
+  Text,
+  makeStyles,
+} from '@fluentui/react-components';
+import type {
+  OutboxEntry,
+  OutboxOperation,
+} from '../utils/offline/mutationOutbox';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    marginBottom: '16px',
+  },
+  failedEntry: {
+    display: 'flex',
+    flexDirection: 'column',
+  },
+});
+
+const OPERATION_LABELS: Record<OutboxOperation['kind'], string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+  markCompleted: 'Complete',
+  markIncomplete: 'Reopen',
+};
+
+interface OutboxPanelProps {
+  entries: OutboxEntry[];
+  online: boolean;
+  onSyncNow: () => void;
+  onRetry: (entryId: string) => void;
+  onDiscard: (entryId: string) => void;
+}
+
+const OutboxPanel = ({
+  entries,
+  online,
+  onSyncNow,
+  onRetry,
+  onDiscard,
+}: OutboxPanelProps) => {
+  const styles = useStyles();
+  const pendingCount = entries.filter(
+    entry => entry.status === 'pending'
+  ).length;
+  const failedEntries = entries.filter(entry => entry.status === 'failed');
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.container}>
+      {pendingCount > 0 && (
+        <MessageBar intent='warning'>
+          <MessageBarBody>
+            <MessageBarTitle>
+              {pendingCount === 1
+                ? '1 change is waiting to sync'
+                : `${pendingCount} changes are waiting to sync`}
+            </MessageBarTitle>
+            {!online
+              ? 'You are offline. Changes will be sent when the connection returns.'
+              : 'Changes will be sent to the server in the order they were made.'}
+          </MessageBarBody>
+          {online && (
+            <MessageBarActions>
+              <Button size='small' onClick={onSyncNow}>
+                Sync now
+              </Button>
+            </MessageBarActions>
+          )}
+        </MessageBar>
+      )}
+
+      {failedEntries.map(entry => (
+        <MessageBar key={entry.id} intent='error' layout='multiline'>
+          <MessageBarBody className={styles.failedEntry}>
+            <MessageBarTitle>
+              {`${OPERATION_LABELS[entry.operation.kind]} "${entry.title}" failed to sync`}
+            </MessageBarTitle>
+            <Text size={200}>{entry.error}</Text>
+          </MessageBarBody>
+          <MessageBarActions>
+            <Button
+              size='small'
+              onClick={() => {
+                onRetry(entry.id);
+              }}
+            >
+              Retry
+            </Button>
+            <Button
+              size='small'
+              appearance='subtle'
+              onClick={() => {
+                onDiscard(entry.id);
+              }}
+            >
+              Discard
+            </Button>
+          </MessageBarActions>
+        </MessageBar>
+      ))}
+    </div>
+  );
+};
+
+export default OutboxPanel;
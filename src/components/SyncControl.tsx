@@ -0,0 +1,91 @@
+import {
+  Button,
+  Text,
+  Tooltip,
+  makeStyles,
+  mergeClasses,
+} from '@fluentui/react-components';
+import {
+  ArrowSync24Regular,
+  CheckmarkCircle16Regular,
+  ErrorCircle16Regular,
+} from '@fluentui/react-icons';
+import { useForceSync } from '../utils/hooks/useForceSync';
+import type { SyncStatus } from '../utils/hooks/useForceSync';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  status: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  success: {
+    color: '#107c10',
+  },
+  failure: {
+    color: '#d13438',
+  },
+});
+
+const formatSyncTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+interface SyncControlProps {
+  onSynced?: (status: SyncStatus) => void;
+}
+
+const SyncControl = ({ onSynced }: SyncControlProps) => {
+  const styles = useStyles();
+  const { sync, syncing, lastSync } = useForceSync();
+
+  const handleSync = async () => {
+    const status = await sync();
+    onSynced?.(status);
+  };
+
+  return (
+    <div className={styles.container}>
+      {lastSync && (
+        <Tooltip content={lastSync.message} relationship='description'>
+          <span
+            className={mergeClasses(
+              styles.status,
+              lastSync.success ? styles.success : styles.failure
+            )}
+          >
+            {lastSync.success ? (
+              <CheckmarkCircle16Regular />
+            ) : (
+              <ErrorCircle16Regular />
+            )}
+            <Text size={200}>
+              {lastSync.success ? 'Synced' : 'Sync failed'}{' '}
+              {formatSyncTime(lastSync.syncedAt)}
+            </Text>
+          </span>
+        </Tooltip>
+      )}
+      <Button
+        appearance='subtle'
+        icon={<ArrowSync24Regular />}
+        onClick={handleSync}
+        disabled={syncing}
+      >
+        {syncing ? 'Syncing...' : 'Sync'}
+      </Button>
+    </div>
+  );
+};
+
+export default SyncControl;
@@ -0,0 +1,337 @@
+import { useMemo, useState } from 'react';
+import type { DragEvent } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Badge,
+  Button,
+  Caption1,
+  MessageBar,
+  MessageBarActions,
+  MessageBarBody,
+  Spinner,
+  Tab,
+  TabList,
+  Text,
+  makeStyles,
+  mergeClasses,
+} from '@fluentui/react-components';
+import { Dismiss24Regular } from '@fluentui/react-icons';
+import { PageContentWrapper } from '@orbusinfinity-shared/ui-components';
+import type { Todo, TodoPriority } from '../apollo/types';
+import { useTodoMutations } from '../utils/hooks/useTodos';
+import type { TodoMutationResult } from '../utils/hooks/useTodos';
+import { useTodoFilters } from '../utils/hooks/useTodoFilters';
+import { usePlanningTodos } from '../utils/hooks/usePlanningTodos';
+import {
+  TODO_PRIORITIES,
+  formatOptionalDate,
+  getPriorityColor,
+} from '../utils/todoFormatting';
+import { TODO_DRAG_TYPE } from '../utils/todoPlanningViews';
+import { getTodoDetailPath } from '../utils/todoRoutes';
+import TodoToolbar from './TodoToolbar';
+
+const useStyles = makeStyles({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    boxShadow:
+      '0 1px 3px 0 rgba(0, 0, 0, 0.1), 0 1px 2px 0 rgba(0, 0, 0, 0.06)',
+    padding: '16px',
+    border: '1px solid #e2e8f0',
+    display: 'flex',
+    flexDirection: 'column',
+    minHeight: '400px',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginBottom: '16px',
+  },
+  columns: {
+    display: 'grid',
+    gridAutoColumns: 'minmax(220px, 1fr)',
+    gridAutoFlow: 'column',
+    gap: '12px',
+    overflowX: 'auto',
+  },
+  column: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    minHeight: '320px',
+    padding: '8px',
+    borderRadius: '6px',
+    backgroundColor: '#f8fafc',
+    border: '1px solid #e2e8f0',
+  },
+  columnHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '4px',
+  },
+  dropTarget: {
+    outline: '2px dashed #2563eb',
+    outlineOffset: '-2px',
+  },
+  card: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '8px 10px',
+    borderRadius: '4px',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e2e8f0',
+    cursor: 'grab',
+  },
+  completedCard: {
+    opacity: 0.6,
+  },
+  cardTitle: {
+    color: 'inherit',
+    fontWeight: 600,
+    textDecoration: 'none',
+    wordBreak: 'break-word',
+  },
+  cardMeta: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  priorityBadge: {
+    textTransform: 'capitalize',
+  },
+  columnTitle: {
+    textTransform: 'capitalize',
+  },
+  loadingContainer: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: '40px',
+  },
+});
+
+export type TodoBoardGrouping = 'priority' | 'status';
+
+interface BoardColumn {
+  id: string;
+  label: string;
+  contains: (todo: Todo) => boolean;
+  moveTo: (todo: Todo) => Promise<TodoMutationResult<unknown>>;
+}
+
+const GROUPING_LABELS: Record<TodoBoardGrouping, string> = {
+  priority: 'By priority',
+  status: 'By status',
+};
+
+/**
+ * The filtered todos as cards in columns per priority or per open/done
+ * status. Dropping a card on another column updates the todo to match it.
+ */
+const TodoBoard = () => {
+  const styles = useStyles();
+  const { filters } = useTodoFilters();
+  const { update, markCompleted, markIncomplete } = useTodoMutations();
+  const [grouping, setGrouping] = useState<TodoBoardGrouping>('priority');
+  const [dropColumnId, setDropColumnId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    loading,
+    error: loadError,
+    todos,
+    pagination,
+    hasMore,
+  } = usePlanningTodos(filters);
+
+  const columns = useMemo<BoardColumn[]>(() => {
+    if (grouping === 'status') {
+      return [
+        {
+          id: 'open',
+          label: 'Open',
+          contains: todo => !todo.completed,
+          moveTo: todo => markIncomplete(todo),
+        },
+        {
+          id: 'done',
+          label: 'Done',
+          contains: todo => todo.completed,
+          moveTo: todo => markCompleted(todo),
+        },
+      ];
+    }
+    return TODO_PRIORITIES.map((priority: TodoPriority) => ({
+      id: priority,
+      label: priority.toLowerCase(),
+      contains: todo => todo.priority === priority,
+      moveTo: todo => update(todo, { priority }),
+    }));
+  }, [grouping, markCompleted, markIncomplete, update]);
+
+  const moveTodo = async (todoId: string, column: BoardColumn) => {
+    const todo = todos.find((candidate: Todo) => candidate.id === todoId);
+    if (!todo || column.contains(todo)) {
+      return;
+    }
+    const result = await column.moveTo(todo);
+    if (!result.ok) {
+      setError(`Could not move "${todo.title}": ${result.error.message}`);
+    }
+  };
+
+  const renderCard = (todo: Todo) => (
+    <div
+      key={todo.id}
+      className={mergeClasses(
+        styles.card,
+        todo.completed && styles.completedCard
+      )}
+      draggable
+      onDragStart={event => {
+        event.dataTransfer.setData(TODO_DRAG_TYPE, todo.id);
+        event.dataTransfer.effectAllowed = 'move';
+      }}
+    >
+      <Link
+        className={styles.cardTitle}
+        to={getTodoDetailPath(todo.id)}
+        draggable={false}
+      >
+        {todo.title}
+      </Link>
+      <div className={styles.cardMeta}>
+        <Caption1>{formatOptionalDate(todo.dueDate)}</Caption1>
+        <Badge
+          color={getPriorityColor(todo.priority)}
+          className={styles.priorityBadge}
+        >
+          {todo.priority.toLowerCase()}
+        </Badge>
+      </div>
+    </div>
+  );
+
+  const renderColumn = (column: BoardColumn) => {
+    const cards = todos.filter(column.contains);
+    return (
+      <section
+        key={column.id}
+        aria-label={column.label}
+        className={mergeClasses(
+          styles.column,
+          dropColumnId === column.id && styles.dropTarget
+        )}
+        onDragOver={(event: DragEvent<HTMLElement>) => {
+          if (event.dataTransfer.types.includes(TODO_DRAG_TYPE)) {
+            event.preventDefault();
+            event.dataTransfer.dropEffect = 'move';
+            setDropColumnId(column.id);
+          }
+        }}
+        onDragLeave={() => {
+          setDropColumnId(current => (current === column.id ? null : current));
+        }}
+        onDrop={(event: DragEvent<HTMLElement>) => {
+          event.preventDefault();
+          setDropColumnId(null);
+          void moveTodo(event.dataTransfer.getData(TODO_DRAG_TYPE), column);
+        }}
+      >
+        <div className={styles.columnHeader}>
+          <Text weight='semibold' className={styles.columnTitle}>
+            {column.label}
+          </Text>
+          <Badge appearance='tint' color='informative'>
+            {cards.length}
+          </Badge>
+        </div>
+        {cards.map(renderCard)}
+      </section>
+    );
+  };
+
+  if (loading && todos.length === 0) {
+    return (
+      <PageContentWrapper title='Board'>
+        <div className={styles.loadingContainer}>
+          <Spinner label='Loading todos...' />
+        </div>
+      </PageContentWrapper>
+    );
+  }
+
+  if (loadError && todos.length === 0) {
+    return (
+      <PageContentWrapper title='Board'>
+        <MessageBar intent='error'>
+          Failed to load todos:{' '}
+          {(loadError as Error).message || 'Unknown error'}
+        </MessageBar>
+      </PageContentWrapper>
+    );
+  }
+
+  return (
+    <PageContentWrapper title='Board'>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <Text size={500} weight='semibold'>
+            {pagination?.total ?? todos.length} todos
+          </Text>
+          <TabList
+            selectedValue={grouping}
+            onTabSelect={(_, data) => {
+              setGrouping(data.value as TodoBoardGrouping);
+            }}
+          >
+            {(Object.keys(GROUPING_LABELS) as TodoBoardGrouping[]).map(
+              value => (
+                <Tab key={value} value={value}>
+                  {GROUPING_LABELS[value]}
+                </Tab>
+              )
+            )}
+          </TabList>
+        </div>
+
+        <TodoToolbar />
+
+        {error && (
+          <MessageBar intent='error'>
+            <MessageBarBody>{error}</MessageBarBody>
+            <MessageBarActions
+              containerAction={
+                <Button
+                  appearance='transparent'
+                  aria-label='Dismiss'
+                  icon={<Dismiss24Regular />}
+                  onClick={() => {
+                    setError(null);
+                  }}
+                />
+              }
+            />
+          </MessageBar>
+        )}
+
+        {hasMore && pagination && (
+          <MessageBar intent='info'>
+            Loading todos {todos.length}/{pagination.total}...
+          </MessageBar>
+        )}
+
+        <div className={styles.columns}>{columns.map(renderColumn)}</div>
+      </div>
+    </PageContentWrapper>
+  );
+};
+
+export default TodoBoard;
@@ -0,0 +1,367 @@
+import { useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogContent,
+  DialogSurface,
+  DialogTitle,
+  Field,
+  Input,
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuList,
+  MenuPopover,
+  MenuTrigger,
+  MessageBar,
+  MessageBarActions,
+  MessageBarBody,
+  MessageBarTitle,
+  ProgressBar,
+  Text,
+  makeStyles,
+} from '@fluentui/react-components';
+import {
+  Calendar24Regular,
+  CheckmarkCircle24Regular,
+  Circle24Regular,
+  Delete24Regular,
+  Dismiss24Regular,
+} from '@fluentui/react-icons';
+import type { Todo } from '../apollo/types';
+import { TODO_PRIORITIES } from '../utils/todoFormatting';
+import type {
+  BulkTodoAction,
+  BulkTodoProgress,
+  BulkTodoResult,
+} from '../utils/bulkTodoActions';
+import TodoExportMenu from './TodoExportMenu';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    marginBottom: '16px',
+  },
+  bar: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '8px 12px',
+    borderRadius: '4px',
+    backgroundColor: '#f1f5f9',
+  },
+  selectionInfo: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    marginRight: 'auto',
+  },
+  dueDate: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  failures: {
+    margin: '4px 0 0',
+    paddingLeft: '20px',
+  },
+});
+
+const ACTION_LABELS: Record<BulkTodoAction['kind'], string> = {
+  complete: 'completed',
+  reopen: 'reopened',
+  priority: 'updated',
+  dueDate: 'updated',
+  delete: 'deleted',
+};
+
+const pluralize = (count: number) =>
+  count === 1 ? '1 todo' : `${count} todos`;
+
+const summarize = (result: BulkTodoResult) => {
+  const parts = [
+    `${pluralize(result.succeeded)} ${ACTION_LABELS[result.action.kind]}`,
+  ];
+  if (result.queued > 0) {
+    parts.push(`${pluralize(result.queued)} queued until you are back online`);
+  }
+  if (result.failures.length > 0) {
+    parts.push(`${pluralize(result.failures.length)} failed`);
+  }
+  return parts.join(', ');
+};
+
+interface TodoBulkActionBarProps {
+  selectedCount: number;
+  allMatching: boolean;
+  /** Number of todos matching the filters, across all pages. */
+  total: number;
+  pageSelected: boolean;
+  pageCount: number;
+  progress: BulkTodoProgress | null;
+  result: BulkTodoResult | null;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onRun: (action: BulkTodoAction) => void;
+  /** Loads the selected todos for export, fetching them if needed. */
+  getSelectedTodos: () => Promise<Todo[]>;
+  onExportError: (message: string) => void;
+  onDismissResult: () => void;
+}
+
+const TodoBulkActionBar = ({
+  selectedCount,
+  allMatching,
+  total,
+  pageSelected,
+  pageCount,
+  progress,
+  result,
+  onSelectAllMatching,
+  onClearSelection,
+  onRun,
+  getSelectedTodos,
+  onExportError,
+  onDismissResult,
+}: TodoBulkActionBarProps) => {
+  const styles = useStyles();
+  const [dueDate, setDueDate] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const count = allMatching ? total : selectedCount;
+  const running = progress !== null;
+
+  if (count === 0 && !running && !result) {
+    return null;
+  }
+
+  return (
+    <div className={styles.container}>
+      {count > 0 && (
+        <div className={styles.bar} role='toolbar' aria-label='Bulk actions'>
+          <div className={styles.selectionInfo}>
+            <Text weight='semibold'>
+              {allMatching
+                ? `All ${total} matching todos selected`
+                : `${selectedCount} selected`}
+            </Text>
+            {pageSelected && !allMatching && total > pageCount && (
+              <Button
+                appearance='transparent'
+                size='small'
+                onClick={onSelectAllMatching}
+                disabled={running}
+              >
+                Select all {total} matching
+              </Button>
+            )}
+            <Button
+              appearance='transparent'
+              size='small'
+              icon={<Dismiss24Regular />}
+              onClick={onClearSelection}
+              disabled={running}
+            >
+              Clear selection
+            </Button>
+          </div>
+
+          <Button
+            size='small'
+            icon={<CheckmarkCircle24Regular />}
+            onClick={() => {
+              onRun({ kind: 'complete' });
+            }}
+            disabled={running}
+          >
+            Complete
+          </Button>
+          <Button
+            size='small'
+            icon={<Circle24Regular />}
+            onClick={() => {
+              onRun({ kind: 'reopen' });
+            }}
+            disabled={running}
+          >
+            Reopen
+          </Button>
+
+          <Menu>
+            <MenuTrigger disableButtonEnhancement>
+              <MenuButton size='small' disabled={running}>
+                Priority
+              </MenuButton>
+            </MenuTrigger>
+            <MenuPopover>
+              <MenuList>
+                {TODO_PRIORITIES.map(priority => (
+                  <MenuItem
+                    key={priority}
+                    onClick={() => {
+                      onRun({ kind: 'priority', priority });
+                    }}
+                  >
+                    {priority.charAt(0) + priority.slice(1).toLowerCase()}
+                  </MenuItem>
+                ))}
+              </MenuList>
+            </MenuPopover>
+          </Menu>
+
+          <div className={styles.dueDate}>
+            <Input
+              size='small'
+              type='datetime-local'
+              aria-label='Due date for selected todos'
+              value={dueDate}
+              onChange={e => {
+                setDueDate(e.target.value);
+              }}
+              disabled={running}
+            />
+            <Button
+              size='small'
+              icon={<Calendar24Regular />}
+              onClick={() => {
+                onRun({
+                  kind: 'dueDate',
+                  dueDate: new Date(dueDate).toISOString(),
+                });
+              }}
+              disabled={running || dueDate.length === 0}
+            >
+              Set due date
+            </Button>
+            <Button
+              size='small'
+              onClick={() => {
+                onRun({ kind: 'dueDate' });
+              }}
+              disabled={running}
+            >
+              Clear due date
+            </Button>
+          </div>
+
+          <TodoExportMenu
+            size='small'
+            getTodos={getSelectedTodos}
+            disabled={running}
+            onError={onExportError}
+          />
+
+          <Button
+            size='small'
+            icon={<Delete24Regular />}
+            onClick={() => {
+              setConfirmDelete(true);
+            }}
+            disabled={running}
+          >
+            Delete
+          </Button>
+        </div>
+      )}
+
+      {progress !== null && (
+        <Field
+          validationState='none'
+          validationMessage={
+            progress.total === 0
+              ? 'Preparing...'
+              : `Processing ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...`
+          }
+        >
+          <ProgressBar
+            value={progress.total === 0 ? undefined : progress.done}
+            max={Math.max(progress.total, 1)}
+          />
+        </Field>
+      )}
+
+      {result !== null && (
+        <MessageBar
+          intent={
+            result.error !== undefined
+              ? 'error'
+              : result.failures.length > 0
+                ? 'warning'
+                : 'success'
+          }
+        >
+          <MessageBarBody>
+            <MessageBarTitle>
+              {result.error !== undefined
+                ? 'Bulk action could not start'
+                : summarize(result)}
+            </MessageBarTitle>
+            {result.error}
+            {result.failures.length > 0 && (
+              <ul className={styles.failures}>
+                {result.failures.map(failure => (
+                  <li key={failure.todo.id}>
+                    <strong>{failure.todo.title}</strong>: {failure.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </MessageBarBody>
+          <MessageBarActions
+            containerAction={
+              <Button
+                appearance='transparent'
+                aria-label='Dismiss'
+                icon={<Dismiss24Regular />}
+                onClick={onDismissResult}
+              />
+            }
+          />
+        </MessageBar>
+      )}
+
+      <Dialog
+        open={confirmDelete}
+        onOpenChange={(_event, data) => {
+          setConfirmDelete(data.open);
+        }}
+      >
+        <DialogSurface>
+          <DialogBody>
+            <DialogTitle>Delete {pluralize(count)}?</DialogTitle>
+            <DialogContent>
+              The selected todos will be deleted. You can undo this for a few
+              seconds afterwards.
+            </DialogContent>
+            <DialogActions>
+              <Button
+                appearance='secondary'
+                onClick={() => {
+                  setConfirmDelete(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                appearance='primary'
+                onClick={() => {
+                  setConfirmDelete(false);
+                  onRun({ kind: 'delete' });
+                }}
+              >
+                Delete
+              </Button>
+            </DialogActions>
+          </DialogBody>
+        </DialogSurface>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TodoBulkActionBar;
@@ -0,0 +1,445 @@
+import { useMemo, useState } from 'react';
+import type { DragEvent } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Badge,
+  Button,
+  MessageBar,
+  MessageBarActions,
+  MessageBarBody,
+  Spinner,
+  Tab,
+  TabList,
+  Text,
+  makeStyles,
+  mergeClasses,
+} from '@fluentui/react-components';
+import {
+  ChevronLeft24Regular,
+  ChevronRight24Regular,
+  Dismiss24Regular,
+} from '@fluentui/react-icons';
+import { PageContentWrapper } from '@orbusinfinity-shared/ui-components';
+import type { Todo } from '../apollo/types';
+import { useTodoMutations } from '../utils/hooks/useTodos';
+import { useTodoFilters } from '../utils/hooks/useTodoFilters';
+import { usePlanningTodos } from '../utils/hooks/usePlanningTodos';
+import {
+  getCalendarDays,
+  isSameMonth,
+  rescheduleToDay,
+  shiftCalendarAnchor,
+  startOfDay,
+  toDayKey,
+} from '../utils/calendarDates';
+import type { CalendarLayout } from '../utils/calendarDates';
+import { getPriorityColor } from '../utils/todoFormatting';
+import { TODO_DRAG_TYPE } from '../utils/todoPlanningViews';
+import { getTodoDetailPath } from '../utils/todoRoutes';
+import TodoToolbar from './TodoToolbar';
+
+const useStyles = makeStyles({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    boxShadow:
+      '0 1px 3px 0 rgba(0, 0, 0, 0.1), 0 1px 2px 0 rgba(0, 0, 0, 0.06)',
+    padding: '16px',
+    border: '1px solid #e2e8f0',
+    display: 'flex',
+    flexDirection: 'column',
+    minHeight: '400px',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginBottom: '16px',
+  },
+  navigation: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  body: {
+    display: 'flex',
+    gap: '16px',
+    alignItems: 'flex-start',
+  },
+  grid: {
+    flexGrow: 1,
+    display: 'grid',
+    gridTemplateColumns: 'repeat(7, minmax(0, 1fr))',
+    border: '1px solid #e2e8f0',
+    borderRadius: '4px',
+    overflow: 'hidden',
+  },
+  weekday: {
+    padding: '6px 8px',
+    backgroundColor: '#f8fafc',
+    borderBottom: '1px solid #e2e8f0',
+    fontWeight: 600,
+    fontSize: '12px',
+  },
+  day: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    minHeight: '110px',
+    padding: '4px',
+    borderTop: '1px solid #e2e8f0',
+    borderLeft: '1px solid #e2e8f0',
+    overflowY: 'auto',
+  },
+  weekDay: {
+    minHeight: '360px',
+  },
+  outsideMonth: {
+    backgroundColor: '#f8fafc',
+    color: '#94a3b8',
+  },
+  today: {
+    backgroundColor: '#eff6ff',
+  },
+  dropTarget: {
+    outline: '2px dashed #2563eb',
+    outlineOffset: '-2px',
+  },
+  dayNumber: {
+    fontSize: '12px',
+    fontWeight: 600,
+  },
+  tray: {
+    width: '220px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    padding: '8px',
+    minHeight: '200px',
+    border: '1px solid #e2e8f0',
+    borderRadius: '4px',
+    backgroundColor: '#f8fafc',
+  },
+  chip: {
+    display: 'block',
+    cursor: 'grab',
+    borderRadius: '4px',
+  },
+  chipBadge: {
+    maxWidth: '100%',
+    justifyContent: 'flex-start',
+  },
+  chipLink: {
+    color: 'inherit',
+    textDecoration: 'none',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  completed: {
+    opacity: 0.55,
+    textDecoration: 'line-through',
+  },
+  overdue: {
+    outline: '2px solid #d73a49',
+    outlineOffset: '-1px',
+  },
+  loadingContainer: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: '40px',
+  },
+});
+
+const TRAY_KEY = 'undated';
+
+const LAYOUT_LABELS: Record<CalendarLayout, string> = {
+  month: 'Month',
+  week: 'Week',
+};
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const isOverdue = (todo: Todo, now: Date) =>
+  !todo.completed &&
+  Boolean(todo.dueDate) &&
+  new Date(todo.dueDate ?? '').getTime() < now.getTime();
+
+const formatPeriod = (anchor: Date, layout: CalendarLayout, days: Date[]) => {
+  if (layout === 'month') {
+    return anchor.toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+    });
+  }
+  const format = (date: Date) =>
+    date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(days[0])} - ${format(days[days.length - 1])}, ${days[0].getFullYear()}`;
+};
+
+/**
+ * Todos on their due dates in a month or week grid. Dragging a todo to
+ * another day reschedules it, keeping its time of day; dropping it on the
+ * tray of undated todos clears the due date.
+ */
+const TodoCalendar = () => {
+  const styles = useStyles();
+  const { filters } = useTodoFilters();
+  const { update } = useTodoMutations();
+  const [layout, setLayout] = useState<CalendarLayout>('month');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    loading,
+    error: loadError,
+    todos,
+    pagination,
+    hasMore,
+  } = usePlanningTodos(filters);
+
+  const now = new Date();
+  const todayKey = toDayKey(now);
+  const days = useMemo(() => getCalendarDays(anchor, layout), [anchor, layout]);
+
+  const { todosByDay, undated } = useMemo(() => {
+    const byDay = new Map<string, Todo[]>();
+    const withoutDate: Todo[] = [];
+    todos.forEach((todo: Todo) => {
+      if (!todo.dueDate) {
+        withoutDate.push(todo);
+        return;
+      }
+      const key = toDayKey(new Date(todo.dueDate));
+      byDay.set(key, [...(byDay.get(key) ?? []), todo]);
+    });
+    byDay.forEach(dayTodos =>
+      dayTodos.sort(
+        (a, b) =>
+          new Date(a.dueDate ?? '').getTime() -
+          new Date(b.dueDate ?? '').getTime()
+      )
+    );
+    return { todosByDay: byDay, undated: withoutDate };
+  }, [todos]);
+
+  const reschedule = async (todoId: string, dueDate: string | null) => {
+    const todo = todos.find((candidate: Todo) => candidate.id === todoId);
+    if (!todo || todo.dueDate === dueDate) {
+      return;
+    }
+    const result = await update(todo, { dueDate });
+    if (!result.ok) {
+      setError(`Could not reschedule "${todo.title}": ${result.error.message}`);
+    }
+  };
+
+  const dropHandlers = (
+    key: string,
+    getDueDate: (todo: Todo) => string | null
+  ) => ({
+    onDragOver: (event: DragEvent<HTMLElement>) => {
+      if (event.dataTransfer.types.includes(TODO_DRAG_TYPE)) {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        setDropKey(key);
+      }
+    },
+    onDragLeave: () => {
+      setDropKey(current => (current === key ? null : current));
+    },
+    onDrop: (event: DragEvent<HTMLElement>) => {
+      event.preventDefault();
+      setDropKey(null);
+      const todoId = event.dataTransfer.getData(TODO_DRAG_TYPE);
+      const todo = todos.find((candidate: Todo) => candidate.id === todoId);
+      if (todo) {
+        void reschedule(todo.id, getDueDate(todo));
+      }
+    },
+  });
+
+  const renderTodo = (todo: Todo) => {
+    const overdue = isOverdue(todo, now);
+    return (
+      <div
+        key={todo.id}
+        className={mergeClasses(styles.chip, overdue && styles.overdue)}
+        draggable
+        onDragStart={event => {
+          event.dataTransfer.setData(TODO_DRAG_TYPE, todo.id);
+          event.dataTransfer.effectAllowed = 'move';
+        }}
+        title={overdue ? `${todo.title} (overdue)` : todo.title}
+      >
+        <Badge
+          className={mergeClasses(
+            styles.chipBadge,
+            todo.completed && styles.completed
+          )}
+          appearance={overdue ? 'filled' : 'tint'}
+          color={getPriorityColor(todo.priority)}
+          shape='rounded'
+        >
+          <Link
+            className={styles.chipLink}
+            to={getTodoDetailPath(todo.id)}
+            draggable={false}
+          >
+            {todo.title}
+          </Link>
+        </Badge>
+      </div>
+    );
+  };
+
+  if (loading && todos.length === 0) {
+    return (
+      <PageContentWrapper title='Calendar'>
+        <div className={styles.loadingContainer}>
+          <Spinner label='Loading todos...' />
+        </div>
+      </PageContentWrapper>
+    );
+  }
+
+  if (loadError && todos.length === 0) {
+    return (
+      <PageContentWrapper title='Calendar'>
+        <MessageBar intent='error'>
+          Failed to load todos:{' '}
+          {(loadError as Error).message || 'Unknown error'}
+        </MessageBar>
+      </PageContentWrapper>
+    );
+  }
+
+  return (
+    <PageContentWrapper title='Calendar'>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div className={styles.navigation}>
+            <Button
+              appearance='subtle'
+              icon={<ChevronLeft24Regular />}
+              aria-label={`Previous ${layout}`}
+              onClick={() => {
+                setAnchor(shiftCalendarAnchor(anchor, layout, -1));
+              }}
+            />
+            <Button
+              onClick={() => {
+                setAnchor(startOfDay(new Date()));
+              }}
+            >
+              Today
+            </Button>
+            <Button
+              appearance='subtle'
+              icon={<ChevronRight24Regular />}
+              aria-label={`Next ${layout}`}
+              onClick={() => {
+                setAnchor(shiftCalendarAnchor(anchor, layout, 1));
+              }}
+            />
+            <Text size={500} weight='semibold'>
+              {formatPeriod(anchor, layout, days)}
+            </Text>
+          </div>
+          <TabList
+            selectedValue={layout}
+            onTabSelect={(_, data) => {
+              setLayout(data.value as CalendarLayout);
+            }}
+          >
+            {(Object.keys(LAYOUT_LABELS) as CalendarLayout[]).map(value => (
+              <Tab key={value} value={value}>
+                {LAYOUT_LABELS[value]}
+              </Tab>
+            ))}
+          </TabList>
+        </div>
+
+        <TodoToolbar />
+
+        {error && (
+          <MessageBar intent='error'>
+            <MessageBarBody>{error}</MessageBarBody>
+            <MessageBarActions
+              containerAction={
+                <Button
+                  appearance='transparent'
+                  aria-label='Dismiss'
+                  icon={<Dismiss24Regular />}
+                  onClick={() => {
+                    setError(null);
+                  }}
+                />
+              }
+            />
+          </MessageBar>
+        )}
+
+        {hasMore && pagination && (
+          <MessageBar intent='info'>
+            Loading todos {todos.length}/{pagination.total}...
+          </MessageBar>
+        )}
+
+        <div className={styles.body}>
+          <div className={styles.grid} role='grid' aria-label='Todo calendar'>
+            {WEEKDAY_LABELS.map(label => (
+              <div key={label} className={styles.weekday} role='columnheader'>
+                {label}
+              </div>
+            ))}
+            {days.map(day => {
+              const key = toDayKey(day);
+              return (
+                <div
+                  key={key}
+                  role='gridcell'
+                  aria-label={day.toDateString()}
+                  className={mergeClasses(
+                    styles.day,
+                    layout === 'week' && styles.weekDay,
+                    layout === 'month' &&
+                      !isSameMonth(day, anchor) &&
+                      styles.outsideMonth,
+                    key === todayKey && styles.today,
+                    dropKey === key && styles.dropTarget
+                  )}
+                  {...dropHandlers(key, todo =>
+                    rescheduleToDay(todo.dueDate, day)
+                  )}
+                >
+                  <span className={styles.dayNumber}>{day.getDate()}</span>
+                  {(todosByDay.get(key) ?? []).map(renderTodo)}
+                </div>
+              );
+            })}
+          </div>
+
+          <div
+            className={mergeClasses(
+              styles.tray,
+              dropKey === TRAY_KEY && styles.dropTarget
+            )}
+            aria-label='Todos without a due date'
+            {...dropHandlers(TRAY_KEY, () => null)}
+          >
+            <Text weight='semibold'>No due date ({undated.length})</Text>
+            {undated.map(renderTodo)}
+          </div>
+        </div>
+      </div>
+    </PageContentWrapper>
+  );
+};
+
+export default TodoCalendar;
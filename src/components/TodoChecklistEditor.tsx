@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Field,
+  Input,
+  makeStyles,
+} from '@fluentui/react-components';
+import { Add24Regular, Dismiss24Regular } from '@fluentui/react-icons';
+import { createChecklistItem, getSubtaskProgress } from '../utils/todoSubtasks';
+import type { ChecklistItem } from '../utils/todoSubtasks';
+
+const useStyles = makeStyles({
+  items: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  title: {
+    flexGrow: 1,
+  },
+});
+
+interface TodoChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  disabled?: boolean;
+}
+
+const TodoChecklistEditor = ({
+  items,
+  onChange,
+  disabled = false,
+}: TodoChecklistEditorProps) => {
+  const styles = useStyles();
+  const [newTitle, setNewTitle] = useState('');
+  const { done, total } = getSubtaskProgress(items);
+
+  const updateItem = (key: string, patch: Partial<ChecklistItem>) => {
+    onChange(
+      items.map(item => (item.key === key ? { ...item, ...patch } : item))
+    );
+  };
+
+  const addItem = () => {
+    if (newTitle.trim().length === 0) {
+      return;
+    }
+    onChange([...items, createChecklistItem(newTitle.trim())]);
+    setNewTitle('');
+  };
+
+  return (
+    <Field label={total > 0 ? `Checklist (${done}/${total})` : 'Checklist'}>
+      <div className={styles.items}>
+        {items.map(item => (
+          <div key={item.key} className={styles.item}>
+            <Checkbox
+              checked={item.completed}
+              onChange={(_event, data) => {
+                updateItem(item.key, { completed: data.checked === true });
+              }}
+              aria-label={`Done: ${item.title}`}
+              disabled={disabled}
+            />
+            <Input
+              className={styles.title}
+              appearance='underline'
+              value={item.title}
+              onChange={e => {
+                updateItem(item.key, { title: e.target.value });
+              }}
+              disabled={disabled}
+            />
+            <Button
+              appearance='subtle'
+              size='small'
+              icon={<Dismiss24Regular />}
+              aria-label={`Remove ${item.title}`}
+              onClick={() => {
+                onChange(items.filter(({ key }) => key !== item.key));
+              }}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+        <div className={styles.item}>
+          <Input
+            className={styles.title}
+            value={newTitle}
+            onChange={e => {
+              setNewTitle(e.target.value);
+            }}
+            onKeyDown={e => {
+              // Enter adds the item instead of submitting the form
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addItem();
+              }
+            }}
+            placeholder='Add a checklist item...'
+            disabled={disabled}
+          />
+          <Button
+            appearance='subtle'
+            icon={<Add24Regular />}
+            onClick={addItem}
+            disabled={disabled || newTitle.trim().length === 0}
+          >
+            Add
+          </Button>
+        </div>
+      </div>
+    </Field>
+  );
+};
+
+export default TodoChecklistEditor;
@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogSurface,
+  Input,
+  makeStyles,
+  mergeClasses,
+  tokens,
+} from '@fluentui/react-components';
+import { Search24Regular } from '@fluentui/react-icons';
+import { fuzzyMatch } from '../utils/fuzzyMatch';
+
+const useStyles = makeStyles({
+  surface: {
+    padding: '12px',
+    maxWidth: '560px',
+    alignSelf: 'flex-start',
+    marginTop: '10vh',
+  },
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    maxHeight: '360px',
+    overflowY: 'auto',
+    marginTop: '8px',
+  },
+  group: {
+    padding: '8px 8px 4px',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: tokens.colorNeutralForeground3,
+  },
+  option: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '6px 8px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  activeOption: {
+    backgroundColor: tokens.colorNeutralBackground1Selected,
+  },
+  match: {
+    fontWeight: 700,
+  },
+  shortcut: {
+    fontFamily: 'Consolas, "Courier New", monospace',
+    fontSize: '12px',
+    color: tokens.colorNeutralForeground3,
+    whiteSpace: 'nowrap',
+  },
+  empty: {
+    padding: '16px 8px',
+    color: tokens.colorNeutralForeground3,
+  },
+});
+
+const GROUPS = ['Actions', 'Todos'] as const;
+
+export interface TodoCommand {
+  id: string;
+  label: string;
+  group: (typeof GROUPS)[number];
+  /** Shown next to the label, e.g. `N` or `Ctrl+K`. */
+  shortcut?: string;
+  run: () => void;
+}
+
+const MAX_RESULTS = 50;
+const LISTBOX_ID = 'todo-command-palette-results';
+
+const getOptionId = (command: TodoCommand) =>
+  `todo-command-${encodeURIComponent(command.id)}`;
+
+/** The label with the matched characters in bold. */
+const HighlightedLabel = ({
+  label,
+  indices,
+  className,
+}: {
+  label: string;
+  indices: number[];
+  className: string;
+}) => {
+  const matched = new Set(indices);
+  const runs: { start: number; text: string; matched: boolean }[] = [];
+  for (let index = 0; index < label.length; index++) {
+    const last = runs.at(-1);
+    if (last?.matched === matched.has(index)) {
+      last.text += label[index];
+    } else {
+      runs.push({
+        start: index,
+        text: label[index],
+        matched: matched.has(index),
+      });
+    }
+  }
+
+  return (
+    <span>
+      {runs.map(run =>
+        run.matched ? (
+          <span key={run.start} className={className}>
+            {run.text}
+          </span>
+        ) : (
+          <span key={run.start}>{run.text}</span>
+        )
+      )}
+    </span>
+  );
+};
+
+interface TodoCommandPaletteProps {
+  open: boolean;
+  onClose: () => void;
+  commands: TodoCommand[];
+}
+
+const TodoCommandPalette = ({
+  open,
+  onClose,
+  commands,
+}: TodoCommandPaletteProps) => {
+  const styles = useStyles();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(() => {
+    const matches = commands.flatMap(command => {
+      const match = fuzzyMatch(query, command.label);
+      return match ? [{ command, ...match }] : [];
+    });
+    // Actions stay ahead of todos; without a query, in the given order
+    if (query.trim().length > 0) {
+      matches.sort(
+        (a, b) =>
+          GROUPS.indexOf(a.command.group) - GROUPS.indexOf(b.command.group) ||
+          b.score - a.score
+      );
+    }
+    return matches.slice(0, MAX_RESULTS);
+  }, [commands, query]);
+
+  const close = () => {
+    setQuery('');
+    setActiveIndex(0);
+    onClose();
+  };
+
+  const runCommand = (command: TodoCommand) => {
+    close();
+    command.run();
+  };
+
+  const active = results.at(Math.min(activeIndex, results.length - 1));
+
+  const moveActive = (offset: number) => {
+    if (results.length === 0) {
+      return;
+    }
+    setActiveIndex(
+      (Math.min(activeIndex, results.length - 1) + offset + results.length) %
+        results.length
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(_event, data) => {
+        if (!data.open) {
+          close();
+        }
+      }}
+    >
+      <DialogSurface className={styles.surface} aria-label='Command palette'>
+        <Input
+          autoFocus
+          contentBefore={<Search24Regular />}
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={e => {
+            const moves: Record<string, number> = {
+              ArrowDown: 1,
+              ArrowUp: -1,
+            };
+            if (e.key in moves) {
+              e.preventDefault();
+              moveActive(moves[e.key]);
+            } else if (e.key === 'Enter' && active) {
+              e.preventDefault();
+              runCommand(active.command);
+            }
+          }}
+          placeholder='Type a command or search todos...'
+          role='combobox'
+          aria-expanded
+          aria-controls={LISTBOX_ID}
+          aria-activedescendant={
+            active ? getOptionId(active.command) : undefined
+          }
+        />
+        <div id={LISTBOX_ID} role='listbox' className={styles.list}>
+          {results.length === 0 && (
+            <div className={styles.empty}>No matching commands or todos.</div>
+          )}
+          {results.map((result, position) => {
+            const { command } = result;
+            const showGroup =
+              position === 0 ||
+              results[position - 1].command.group !== command.group;
+            return (
+              <div key={command.id} role='presentation'>
+                {showGroup && (
+                  <div className={styles.group} role='presentation'>
+                    {command.group}
+                  </div>
+                )}
+                <div
+                  id={getOptionId(command)}
+                  role='option'
+                  aria-selected={result === active}
+                  className={mergeClasses(
+                    styles.option,
+                    result === active && styles.activeOption
+                  )}
+                  onMouseMove={() => {
+                    setActiveIndex(position);
+                  }}
+                  onClick={() => {
+                    runCommand(command);
+                  }}
+                >
+                  <HighlightedLabel
+                    label={command.label}
+                    indices={result.indices}
+                    className={styles.match}
+                  />
+                  {command.shortcut && (
+                    <kbd className={styles.shortcut}>{command.shortcut}</kbd>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogSurface>
+    </Dialog>
+  );
+};
+
+export default TodoCommandPalette;
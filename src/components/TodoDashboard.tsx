@@ -0,0 +1,299 @@
+import { useQuery } from '@apollo/client/react';
+import {
+  Button,
+  Card,
+  CardHeader,
+  MessageBar,
+  Spinner,
+  Text,
+  makeStyles,
+  mergeClasses,
+  tokens,
+} from '@fluentui/react-components';
+import { ArrowClockwise24Regular } from '@fluentui/react-icons';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { PageContentWrapper } from '@orbusinfinity-shared/ui-components';
+import { GET_TODO_STATS } from '../apollo/operations';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  kpiGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+    gap: '16px',
+  },
+  kpiValue: {
+    fontSize: '32px',
+    fontWeight: 600,
+    lineHeight: '40px',
+  },
+  overdueValue: {
+    color: tokens.colorPaletteRedForeground1,
+  },
+  chartGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))',
+    gap: '16px',
+  },
+  chart: {
+    height: '300px',
+  },
+  loadingContainer: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: '40px',
+  },
+});
+
+const COMPLETION_COLORS = {
+  completed: '#107c10',
+  pending: '#8a8886',
+};
+
+const OVERDUE_COLORS = {
+  overdue: '#d13438',
+  onTrack: '#0078d4',
+};
+
+const PRIORITY_COLORS = {
+  low: '#107c10',
+  medium: '#ffb900',
+  high: '#f7630c',
+  urgent: '#d13438',
+};
+
+const formatPercent = (value: number, total: number) => {
+  if (total === 0) {
+    return '0%';
+  }
+  return `${Math.round((value / total) * 100)}%`;
+};
+
+interface KpiCardProps {
+  title: string;
+  value: number | string;
+  description?: string;
+  valueClassName?: string;
+}
+
+const KpiCard = ({
+  title,
+  value,
+  description,
+  valueClassName,
+}: KpiCardProps) => {
+  const styles = useStyles();
+
+  return (
+    <Card>
+      <CardHeader header={<Text weight='semibold'>{title}</Text>} />
+      <span className={mergeClasses(styles.kpiValue, valueClassName)}>
+        {value}
+      </span>
+      {description !== undefined && <Text size={200}>{description}</Text>}
+    </Card>
+  );
+};
+
+const TodoDashboard = () => {
+  const styles = useStyles();
+
+  // cache-and-network shows the last known numbers while fresh ones load;
+  // todo mutations refetch this query while the dashboard is mounted
+  const { loading, error, data, refetch } = useQuery(GET_TODO_STATS, {
+    fetchPolicy: 'cache-and-network',
+    errorPolicy: 'all',
+  });
+
+  const stats = data?.todoStats;
+
+  if (error && !stats) {
+    return (
+      <PageContentWrapper title='Dashboard'>
+        <MessageBar intent='error'>
+          Failed to load statistics: {error.message || 'Unknown error'}
+        </MessageBar>
+      </PageContentWrapper>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <PageContentWrapper title='Dashboard'>
+        <div className={styles.loadingContainer}>
+          <Spinner label='Loading statistics...' />
+        </div>
+      </PageContentWrapper>
+    );
+  }
+
+  const completionData = [
+    {
+      name: 'Completed',
+      value: stats.completed,
+      color: COMPLETION_COLORS.completed,
+    },
+    { name: 'Pending', value: stats.pending, color: COMPLETION_COLORS.pending },
+  ];
+
+  const overdueData = [
+    { name: 'Overdue', value: stats.overdue, color: OVERDUE_COLORS.overdue },
+    {
+      name: 'On track',
+      value: Math.max(stats.pending - stats.overdue, 0),
+      color: OVERDUE_COLORS.onTrack,
+    },
+  ];
+
+  const priorityData = [
+    { name: 'Low', count: stats.byPriority.low, color: PRIORITY_COLORS.low },
+    {
+      name: 'Medium',
+      count: stats.byPriority.medium,
+      color: PRIORITY_COLORS.medium,
+    },
+    { name: 'High', count: stats.byPriority.high, color: PRIORITY_COLORS.high },
+    {
+      name: 'Urgent',
+      count: stats.byPriority.urgent,
+      color: PRIORITY_COLORS.urgent,
+    },
+  ];
+
+  return (
+    <PageContentWrapper title='Dashboard'>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <h2>Team workload</h2>
+          <Button
+            appearance='subtle'
+            icon={<ArrowClockwise24Regular />}
+            onClick={() => {
+              refetch().catch(err => {
+                // eslint-disable-next-line no-console
+                console.error('Error refreshing statistics:', err);
+              });
+            }}
+            disabled={loading}
+          >
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </Button>
+        </div>
+
+        <div className={styles.kpiGrid}>
+          <KpiCard title='Total' value={stats.total} />
+          <KpiCard
+            title='Completed'
+            value={stats.completed}
+            description={`${formatPercent(stats.completed, stats.total)} of all todos`}
+          />
+          <KpiCard title='Pending' value={stats.pending} />
+          <KpiCard
+            title='Overdue'
+            value={stats.overdue}
+            description={`${formatPercent(stats.overdue, stats.pending)} of pending todos`}
+            valueClassName={stats.overdue > 0 ? styles.overdueValue : undefined}
+          />
+        </div>
+
+        <div className={styles.chartGrid}>
+          <Card>
+            <CardHeader
+              header={<Text weight='semibold'>Completion ratio</Text>}
+            />
+            <div className={styles.chart}>
+              <ResponsiveContainer width='100%' height='100%'>
+                <PieChart>
+                  <Pie
+                    data={completionData}
+                    dataKey='value'
+                    nameKey='name'
+                    innerRadius='55%'
+                    outerRadius='80%'
+                    label
+                  >
+                    {completionData.map(entry => (
+                      <Cell key={entry.name} fill={entry.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <Card>
+            <CardHeader
+              header={<Text weight='semibold'>Priority breakdown</Text>}
+            />
+            <div className={styles.chart}>
+              <ResponsiveContainer width='100%' height='100%'>
+                <BarChart data={priorityData}>
+                  <CartesianGrid strokeDasharray='3 3' />
+                  <XAxis dataKey='name' />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey='count' name='Todos'>
+                    {priorityData.map(entry => (
+                      <Cell key={entry.name} fill={entry.color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <Card>
+            <CardHeader
+              header={<Text weight='semibold'>Overdue pending todos</Text>}
+            />
+            <div className={styles.chart}>
+              <ResponsiveContainer width='100%' height='100%'>
+                <PieChart>
+                  <Pie
+                    data={overdueData}
+                    dataKey='value'
+                    nameKey='name'
+                    outerRadius='80%'
+                    label
+                  >
+                    {overdueData.map(entry => (
+                      <Cell key={entry.name} fill={entry.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+        </div>
+      </div>
+    </PageContentWrapper>
+  );
+};
+
+export default TodoDashboard;
@@ -0,0 +1,588 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@apollo/client/react';
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Dropdown,
+  Field,
+  Input,
+  MessageBar,
+  MessageBarActions,
+  MessageBarBody,
+  Option,
+  Spinner,
+  makeStyles,
+} from '@fluentui/react-components';
+import {
+  ArrowLeft24Regular,
+  CalendarAdd24Regular,
+  Edit24Regular,
+  Link24Regular,
+} from '@fluentui/react-icons';
+import { PageContentWrapper } from '@orbusinfinity-shared/ui-components';
+import { GET_TODO_BY_ID, TodoPriority } from '../apollo/operations';
+import type { UpdateTodoInput } from '../apollo/types';
+import {
+  formatDate,
+  formatOptionalDate,
+  getPriorityColor,
+  toDateTimeInputValue,
+} from '../utils/todoFormatting';
+import { useTodoMutations } from '../utils/hooks/useTodos';
+import { useTodoTags } from '../utils/hooks/useTodoTags';
+import { validateTodoInput } from '../utils/todoMutationErrors';
+import { TODO_LIST_PATH } from '../utils/todoRoutes';
+import { downloadTodos } from '../utils/todoExport';
+import { describeRecurrence } from '../utils/todoRecurrence';
+import {
+  allSubtasksDone,
+  checklistChanged,
+  getSubtaskProgress,
+  toChecklistItems,
+  toSubtaskInputs,
+} from '../utils/todoSubtasks';
+import type { ChecklistItem } from '../utils/todoSubtasks';
+import { tagsChanged } from '../utils/todoTags';
+import TodoRecurrenceField from './TodoRecurrenceField';
+import TodoChecklistEditor from './TodoChecklistEditor';
+import TodoTagPicker from './TodoTagPicker';
+import TodoTags from './TodoTags';
+import TodoMarkdown from './TodoMarkdown';
+import TodoMarkdownEditor from './TodoMarkdownEditor';
+
+const useStyles = makeStyles({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    boxShadow:
+      '0 1px 3px 0 rgba(0, 0, 0, 0.1), 0 1px 2px 0 rgba(0, 0, 0, 0.06)',
+    padding: '16px',
+    border: '1px solid #e2e8f0',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '16px',
+  },
+  headerActions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  badges: {
+    display: 'flex',
+    gap: '8px',
+  },
+  priorityBadge: {
+    textTransform: 'capitalize',
+  },
+  noDescription: {
+    color: '#64748b',
+  },
+  checklist: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  metadata: {
+    display: 'grid',
+    gridTemplateColumns: 'max-content 1fr',
+    columnGap: '16px',
+    rowGap: '8px',
+    margin: 0,
+  },
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    maxWidth: '640px',
+  },
+  formActions: {
+    display: 'flex',
+    gap: '8px',
+  },
+  loadingContainer: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: '40px',
+  },
+});
+
+interface TodoDetailProps {
+  /** Lets a host render the detail view without a `:id` route param. */
+  todoId?: string;
+}
+
+const TodoDetail = ({ todoId }: TodoDetailProps) => {
+  const params = useParams<{ id: string }>();
+  const id = todoId ?? params.id ?? '';
+  const navigate = useNavigate();
+  const styles = useStyles();
+
+  const [editing, setEditing] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [formData, setFormData] = useState({
+    title: '',
+    description: '',
+    priority: TodoPriority.MEDIUM,
+    dueDate: '',
+    recurrence: '',
+    subtasks: [] as ChecklistItem[],
+    tags: [] as string[],
+    completed: false,
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+  const submittedFormRef = useRef(formData);
+
+  const { loading, error, data } = useQuery(GET_TODO_BY_ID, {
+    variables: { id },
+    skip: id.length === 0,
+    errorPolicy: 'all',
+  });
+
+  const todo = data?.todo ?? null;
+
+  // Only follow cache updates while the form is closed, so an edit in
+  // progress is never overwritten
+  useEffect(() => {
+    if (!todo || editing) {
+      return;
+    }
+    setFormData({
+      title: todo.title,
+      description: todo.description ?? '',
+      priority: todo.priority,
+      dueDate: toDateTimeInputValue(todo.dueDate),
+      recurrence: todo.recurrence ?? '',
+      subtasks: toChecklistItems(todo.subtasks),
+      tags: todo.tags,
+      completed: todo.completed,
+    });
+  }, [todo, editing]);
+
+  const {
+    update,
+    markCompleted,
+    loading: mutationLoading,
+  } = useTodoMutations();
+  const saving = mutationLoading.update;
+  const tagSuggestions = useTodoTags();
+
+  const handleSave = async () => {
+    if (!todo) {
+      return;
+    }
+
+    const input: UpdateTodoInput = {
+      title: formData.title.trim(),
+      priority: formData.priority,
+      completed: formData.completed,
+    };
+
+    if (formData.description.trim() !== (todo.description ?? '')) {
+      input.description =
+        formData.description.trim().length > 0
+          ? formData.description.trim()
+          : null;
+    }
+
+    if (formData.dueDate !== toDateTimeInputValue(todo.dueDate)) {
+      input.dueDate =
+        formData.dueDate.length > 0
+          ? new Date(formData.dueDate).toISOString()
+          : null;
+    }
+
+    if (formData.recurrence.trim() !== (todo.recurrence ?? '')) {
+      input.recurrence =
+        formData.recurrence.trim().length > 0
+          ? formData.recurrence.trim()
+          : null;
+    }
+
+    if (checklistChanged(todo.subtasks, formData.subtasks)) {
+      input.subtasks = toSubtaskInputs(formData.subtasks);
+    }
+
+    if (tagsChanged(todo.tags, formData.tags)) {
+      input.tags = formData.tags;
+    }
+
+    const problems = validateTodoInput(input);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    submittedFormRef.current = formData;
+    setEditing(false);
+
+    // Lists showing this todo re-filter and re-sort alongside the detail
+    const result = await update(todo, input);
+    if (result.ok) {
+      setErrors([]);
+      return;
+    }
+
+    // The change was rolled back; reopen the form with what the user
+    // submitted so nothing is lost
+    setFormData(submittedFormRef.current);
+    setEditing(true);
+    setErrors(
+      result.error.details.length > 0
+        ? result.error.details
+        : [result.error.message]
+    );
+  };
+
+  const handleToggleSubtask = async (key: string) => {
+    if (!todo) {
+      return;
+    }
+    const items = toChecklistItems(todo.subtasks).map(item =>
+      item.key === key ? { ...item, completed: !item.completed } : item
+    );
+    const result = await update(todo, { subtasks: toSubtaskInputs(items) });
+    setErrors(result.ok ? [] : [result.error.message]);
+  };
+
+  const handleMarkCompleted = async () => {
+    if (!todo) {
+      return;
+    }
+    const result = await markCompleted(todo);
+    setErrors(result.ok ? [] : [result.error.message]);
+  };
+
+  const handleCancel = () => {
+    if (todo) {
+      setFormData({
+        title: todo.title,
+        description: todo.description ?? '',
+        priority: todo.priority,
+        dueDate: toDateTimeInputValue(todo.dueDate),
+        recurrence: todo.recurrence ?? '',
+        subtasks: toChecklistItems(todo.subtasks),
+        tags: todo.tags,
+        completed: todo.completed,
+      });
+    }
+    setErrors([]);
+    setEditing(false);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => {
+        setLinkCopied(false);
+      }, 2000);
+    } catch (copyError) {
+      // eslint-disable-next-line no-console
+      console.error('Error copying link:', copyError);
+    }
+  };
+
+  const backButton = (
+    <Button
+      appearance='subtle'
+      icon={<ArrowLeft24Regular />}
+      onClick={() => {
+        navigate(TODO_LIST_PATH);
+      }}
+    >
+      Back to list
+    </Button>
+  );
+
+  if (loading && !todo) {
+    return (
+      <PageContentWrapper title='TODO Details'>
+        <div className={styles.loadingContainer}>
+          <Spinner label='Loading todo...' />
+        </div>
+      </PageContentWrapper>
+    );
+  }
+
+  if (!todo) {
+    return (
+      <PageContentWrapper title='TODO Details'>
+        <div className={styles.container}>
+          {backButton}
+          <MessageBar intent='error'>
+            {error
+              ? `Failed to load todo: ${error.message || 'Unknown error'}`
+              : `TODO "${id}" was not found.`}
+          </MessageBar>
+        </div>
+      </PageContentWrapper>
+    );
+  }
+
+  return (
+    <PageContentWrapper title='TODO Details'>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          {backButton}
+          <div className={styles.headerActions}>
+            <Button
+              appearance='subtle'
+              icon={<Link24Regular />}
+              onClick={handleCopyLink}
+            >
+              {linkCopied ? 'Link copied' : 'Copy link'}
+            </Button>
+            {todo.dueDate && (
+              <Button
+                appearance='subtle'
+                icon={<CalendarAdd24Regular />}
+                onClick={() => {
+                  downloadTodos([todo], 'ics', `todo-${todo.id}`);
+                }}
+              >
+                Add to calendar
+              </Button>
+            )}
+            {!editing && (
+              <Button
+                appearance='primary'
+                icon={<Edit24Regular />}
+                onClick={() => {
+                  setEditing(true);
+                }}
+              >
+                Edit
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <MessageBar intent='error'>
+            {errors.map(message => (
+              <div key={message}>{message}</div>
+            ))}
+          </MessageBar>
+        )}
+
+        {editing ? (
+          <div className={styles.form}>
+            <Field label='Title' required>
+              <Input
+                value={formData.title}
+                onChange={e => {
+                  setFormData({ ...formData, title: e.target.value });
+                }}
+                disabled={saving}
+              />
+            </Field>
+
+            <Field label='Description'>
+              <TodoMarkdownEditor
+                value={formData.description}
+                onChange={description => {
+                  setFormData({ ...formData, description });
+                }}
+                placeholder='Markdown is supported'
+                rows={8}
+                disabled={saving}
+              />
+            </Field>
+
+            <Field label='Priority'>
+              <Dropdown
+                value={formData.priority}
+                selectedOptions={[formData.priority]}
+                onOptionSelect={(_event, optionData) => {
+                  setFormData({
+                    ...formData,
+                    priority: optionData.optionValue as TodoPriority,
+                  });
+                }}
+                disabled={saving}
+              >
+                <Option value={TodoPriority.LOW}>Low</Option>
+                <Option value={TodoPriority.MEDIUM}>Medium</Option>
+                <Option value={TodoPriority.HIGH}>High</Option>
+                <Option value={TodoPriority.URGENT}>Urgent</Option>
+              </Dropdown>
+            </Field>
+
+            <Field label='Due Date'>
+              <Input
+                type='datetime-local'
+                value={formData.dueDate}
+                onChange={e => {
+                  setFormData({ ...formData, dueDate: e.target.value });
+                }}
+                disabled={saving}
+              />
+            </Field>
+
+            <TodoRecurrenceField
+              value={formData.recurrence}
+              onChange={recurrence => {
+                setFormData({ ...formData, recurrence });
+              }}
+              dueDate={formData.dueDate}
+            />
+
+            <Field label='Tags'>
+              <TodoTagPicker
+                value={formData.tags}
+                onChange={tags => {
+                  setFormData({ ...formData, tags });
+                }}
+                suggestions={tagSuggestions}
+                disabled={saving}
+                aria-label='Tags'
+              />
+            </Field>
+
+            <TodoChecklistEditor
+              items={formData.subtasks}
+              onChange={subtasks => {
+                setFormData({ ...formData, subtasks });
+              }}
+              disabled={saving}
+            />
+
+            {allSubtasksDone(formData.subtasks) && !formData.completed && (
+              <MessageBar intent='success'>
+                <MessageBarBody>Every checklist item is done.</MessageBarBody>
+                <MessageBarActions>
+                  <Button
+                    size='small'
+                    onClick={() => {
+                      setFormData({ ...formData, completed: true });
+                    }}
+                  >
+                    Mark as completed
+                  </Button>
+                </MessageBarActions>
+              </MessageBar>
+            )}
+
+            <Field>
+              <Checkbox
+                checked={formData.completed}
+                onChange={(_event, checkboxData) => {
+                  setFormData({
+                    ...formData,
+                    completed: checkboxData.checked === true,
+                  });
+                }}
+                label='Mark as completed'
+                disabled={saving}
+              />
+            </Field>
+
+            <div className={styles.formActions}>
+              <Button
+                appearance='primary'
+                onClick={handleSave}
+                disabled={saving || formData.title.trim().length === 0}
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+              <Button
+                appearance='secondary'
+                onClick={handleCancel}
+                disabled={saving}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <h2>{todo.title}</h2>
+            <div className={styles.badges}>
+              <Badge
+                color={getPriorityColor(todo.priority)}
+                className={styles.priorityBadge}
+              >
+                {todo.priority.toLowerCase()}
+              </Badge>
+              <Badge
+                appearance='outline'
+                color={todo.completed ? 'success' : 'informative'}
+              >
+                {todo.completed ? 'Completed' : 'Pending'}
+              </Badge>
+            </div>
+
+            <TodoTags tags={todo.tags} />
+
+            {todo.description ? (
+              <TodoMarkdown source={todo.description} />
+            ) : (
+              <div className={styles.noDescription}>No description.</div>
+            )}
+
+            {todo.subtasks.length > 0 && (
+              <section className={styles.checklist} aria-label='Checklist'>
+                <strong>
+                  Checklist ({getSubtaskProgress(todo.subtasks).done}/
+                  {todo.subtasks.length})
+                </strong>
+                {todo.subtasks.map(subtask => (
+                  <Checkbox
+                    key={subtask.id}
+                    checked={subtask.completed}
+                    label={subtask.title}
+                    onChange={() => {
+                      void handleToggleSubtask(subtask.id);
+                    }}
+                    disabled={saving}
+                  />
+                ))}
+              </section>
+            )}
+
+            {allSubtasksDone(todo.subtasks) && !todo.completed && (
+              <MessageBar intent='success'>
+                <MessageBarBody>Every checklist item is done.</MessageBarBody>
+                <MessageBarActions>
+                  <Button
+                    size='small'
+                    onClick={handleMarkCompleted}
+                    disabled={mutationLoading.markCompleted}
+                  >
+                    Mark as completed
+                  </Button>
+                </MessageBarActions>
+              </MessageBar>
+            )}
+
+            <dl className={styles.metadata}>
+              <dt>Due</dt>
+              <dd>{formatOptionalDate(todo.dueDate)}</dd>
+              <dt>Repeats</dt>
+              <dd>
+                {todo.recurrence
+                  ? describeRecurrence(todo.recurrence)
+                  : 'Never'}
+              </dd>
+              <dt>Created</dt>
+              <dd>{formatDate(todo.createdAt)}</dd>
+              <dt>Last updated</dt>
+              <dd>{formatDate(todo.updatedAt)}</dd>
+            </dl>
+          </>
+        )}
+      </div>
+    </PageContentWrapper>
+  );
+};
+
+export default TodoDetail;
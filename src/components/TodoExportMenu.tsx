@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import {
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuList,
+  MenuPopover,
+  MenuTrigger,
+} from '@fluentui/react-components';
+import type { MenuButtonProps } from '@fluentui/react-components';
+import { ArrowDownload24Regular } from '@fluentui/react-icons';
+import type { Todo } from '../apollo/types';
+import { downloadTodos } from '../utils/todoExport';
+import type { TodoExportFormat } from '../utils/todoExport';
+
+const FORMAT_LABELS: Record<TodoExportFormat, string> = {
+  csv: 'CSV (spreadsheets)',
+  json: 'JSON',
+  ics: 'Calendar events (.ics)',
+  icsTasks: 'Calendar tasks (.ics)',
+};
+
+interface TodoExportMenuProps {
+  /**
+   * Loads the todos to export, e.g. every page matching the filters. Loaders
+   * that take several requests report each page so the button shows it.
+   */
+  getTodos: (
+    onProgress?: (loadedPages: number, totalPages: number) => void
+  ) => Promise<Todo[]>;
+  size?: MenuButtonProps['size'];
+  disabled?: boolean;
+  onError?: (message: string) => void;
+}
+
+const TodoExportMenu = ({
+  getTodos,
+  size,
+  disabled = false,
+  onError,
+}: TodoExportMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const handleExport = async (format: TodoExportFormat) => {
+    setExporting(true);
+    try {
+      const todos = await getTodos((loadedPages, totalPages) => {
+        setProgress(totalPages > 1 ? `${loadedPages}/${totalPages}` : null);
+      });
+      downloadTodos(todos, format);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error exporting todos:', error);
+      onError?.(
+        `Could not export todos: ${(error as Error).message || 'Unknown error'}`
+      );
+    } finally {
+      setExporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Menu>
+      <MenuTrigger disableButtonEnhancement>
+        <MenuButton
+          appearance='subtle'
+          size={size}
+          icon={<ArrowDownload24Regular />}
+          disabled={disabled || exporting}
+        >
+          {exporting
+            ? `Exporting${progress ? ` ${progress}` : ''}...`
+            : 'Export'}
+        </MenuButton>
+      </MenuTrigger>
+      <MenuPopover>
+        <MenuList>
+          {(Object.keys(FORMAT_LABELS) as TodoExportFormat[]).map(format => (
+            <MenuItem
+              key={format}
+              onClick={() => {
+                void handleExport(format);
+              }}
+            >
+              {FORMAT_LABELS[format]}
+            </MenuItem>
+          ))}
+        </MenuList>
+      </MenuPopover>
+    </Menu>
+  );
+};
+
+export default TodoExportMenu;
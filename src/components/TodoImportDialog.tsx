@@ -0,0 +1,361 @@
+import { useMemo, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogContent,
+  DialogSurface,
+  DialogTitle,
+  Dropdown,
+  Field,
+  MessageBar,
+  MessageBarBody,
+  MessageBarTitle,
+  Option,
+  ProgressBar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableHeaderCell,
+  TableRow,
+  Text,
+  makeStyles,
+} from '@fluentui/react-components';
+import {
+  TODO_IMPORT_FIELDS,
+  buildTodoImportRows,
+  guessColumnMapping,
+  parseTodoFile,
+} from '../utils/todoImport';
+import type {
+  ParsedTodoFile,
+  TodoColumnMapping,
+  TodoImportField,
+} from '../utils/todoImport';
+import { useTodoImport } from '../utils/hooks/useTodoImport';
+import type { TodoImportResult } from '../utils/hooks/useTodoImport';
+
+const useStyles = makeStyles({
+  body: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    minWidth: '560px',
+  },
+  mapping: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(2, minmax(0, 1fr))',
+    gap: '12px',
+  },
+  preview: {
+    maxHeight: '320px',
+    overflowY: 'auto',
+  },
+  invalidRow: {
+    backgroundColor: '#fdf3f4',
+  },
+  errors: {
+    color: '#d73a49',
+  },
+  failures: {
+    margin: '4px 0 0',
+    paddingLeft: '20px',
+  },
+});
+
+type ImportStep = 'file' | 'map' | 'preview' | 'done';
+
+const FIELD_LABELS: Record<TodoImportField, string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  dueDate: 'Due date',
+  tags: 'Tags',
+  recurrence: 'Recurrence',
+  subtasks: 'Checklist',
+};
+
+const NOT_MAPPED = '';
+
+const pluralize = (count: number) =>
+  count === 1 ? '1 todo' : `${count} todos`;
+
+interface TodoImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Import wizard: pick a CSV or JSON file, map its columns to todo fields,
+ * review the rows (invalid ones are skipped) and create the rest.
+ */
+const TodoImportDialog = ({ open, onClose }: TodoImportDialogProps) => {
+  const styles = useStyles();
+  const { run, running, progress } = useTodoImport();
+  const [step, setStep] = useState<ImportStep>('file');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedTodoFile | null>(null);
+  const [mapping, setMapping] = useState<TodoColumnMapping | null>(null);
+  const [result, setResult] = useState<TodoImportResult | null>(null);
+
+  const rows = useMemo(
+    () => (parsed && mapping ? buildTodoImportRows(parsed, mapping) : []),
+    [parsed, mapping]
+  );
+  const validRows = rows.flatMap(({ row, input }) =>
+    input ? [{ row, input }] : []
+  );
+
+  const reset = () => {
+    setStep('file');
+    setFileError(null);
+    setParsed(null);
+    setMapping(null);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    if (running) {
+      return;
+    }
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const nextParsed = parseTodoFile(await file.text(), file.name);
+      setParsed(nextParsed);
+      setMapping(guessColumnMapping(nextParsed.columns));
+      setFileError(null);
+      setStep('map');
+    } catch (error) {
+      setFileError(
+        `Could not read ${file.name}: ${(error as Error).message || 'Unknown error'}`
+      );
+    }
+  };
+
+  const handleImport = async () => {
+    setResult(await run(validRows));
+    setStep('done');
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(_event, data) => {
+        if (!data.open) {
+          handleClose();
+        }
+      }}
+    >
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>Import TODOs</DialogTitle>
+          <DialogContent>
+            <div className={styles.body}>
+              {step === 'file' && (
+                <>
+                  <Text>
+                    Choose a CSV file with a header row, or a JSON file with an
+                    array of objects. Exports from this list can be imported as
+                    they are.
+                  </Text>
+                  <Field label='File' validationMessage={fileError}>
+                    <input
+                      type='file'
+                      accept='.csv,.json,text/csv,application/json'
+                      onChange={handleFile}
+                    />
+                  </Field>
+                </>
+              )}
+
+              {step === 'map' && parsed && mapping && (
+                <>
+                  <Text>
+                    Found {parsed.rows.length} rows. Choose the column for each
+                    field.
+                  </Text>
+                  <div className={styles.mapping}>
+                    {TODO_IMPORT_FIELDS.map(field => (
+                      <Field
+                        key={field}
+                        label={FIELD_LABELS[field]}
+                        required={field === 'title'}
+                      >
+                        <Dropdown
+                          value={mapping[field] ?? 'Not imported'}
+                          selectedOptions={[mapping[field] ?? NOT_MAPPED]}
+                          onOptionSelect={(_, data) => {
+                            setMapping({
+                              ...mapping,
+                              [field]:
+                                data.optionValue === NOT_MAPPED
+                                  ? null
+                                  : (data.optionValue ?? null),
+                            });
+                          }}
+                        >
+                          <Option value={NOT_MAPPED}>Not imported</Option>
+                          {parsed.columns.map(column => (
+                            <Option key={column} value={column}>
+                              {column}
+                            </Option>
+                          ))}
+                        </Dropdown>
+                      </Field>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {step === 'preview' && (
+                <>
+                  <Text>
+                    {pluralize(validRows.length)} will be created.
+                    {rows.length > validRows.length &&
+                      ` ${rows.length - validRows.length} rows with errors will be skipped.`}
+                  </Text>
+                  <div className={styles.preview}>
+                    <Table size='small' aria-label='Import preview'>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHeaderCell>Row</TableHeaderCell>
+                          <TableHeaderCell>Title</TableHeaderCell>
+                          <TableHeaderCell>Priority</TableHeaderCell>
+                          <TableHeaderCell>Due date</TableHeaderCell>
+                          <TableHeaderCell>Problems</TableHeaderCell>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map(row => (
+                          <TableRow
+                            key={row.row}
+                            className={
+                              row.errors.length > 0
+                                ? styles.invalidRow
+                                : undefined
+                            }
+                          >
+                            <TableCell>{row.row}</TableCell>
+                            <TableCell>{row.values.title}</TableCell>
+                            <TableCell>{row.values.priority}</TableCell>
+                            <TableCell>
+                              {row.input?.dueDate
+                                ? new Date(row.input.dueDate).toLocaleString()
+                                : row.values.dueDate}
+                            </TableCell>
+                            <TableCell className={styles.errors}>
+                              {row.errors.join(' ')}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  {progress !== null && (
+                    <Field
+                      validationState='none'
+                      validationMessage={`Creating ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...`}
+                    >
+                      <ProgressBar
+                        value={progress.done}
+                        max={Math.max(progress.total, 1)}
+                      />
+                    </Field>
+                  )}
+                </>
+              )}
+
+              {step === 'done' && result && (
+                <MessageBar
+                  intent={result.failures.length > 0 ? 'warning' : 'success'}
+                >
+                  <MessageBarBody>
+                    <MessageBarTitle>
+                      {pluralize(result.created)} imported
+                      {result.queued > 0 &&
+                        `, ${pluralize(result.queued)} queued until you are back online`}
+                      {result.failures.length > 0 &&
+                        `, ${result.failures.length} failed`}
+                    </MessageBarTitle>
+                    {result.failures.length > 0 && (
+                      <ul className={styles.failures}>
+                        {result.failures.map(failure => (
+                          <li key={failure.row}>
+                            Row {failure.row} (<strong>{failure.title}</strong>
+                            ): {failure.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </MessageBarBody>
+                </MessageBar>
+              )}
+            </div>
+          </DialogContent>
+          <DialogActions>
+            {step === 'map' && (
+              <>
+                <Button appearance='secondary' onClick={reset}>
+                  Back
+                </Button>
+                <Button
+                  appearance='primary'
+                  onClick={() => {
+                    setStep('preview');
+                  }}
+                  disabled={mapping?.title === null}
+                >
+                  Preview
+                </Button>
+              </>
+            )}
+            {step === 'preview' && (
+              <>
+                <Button
+                  appearance='secondary'
+                  onClick={() => {
+                    setStep('map');
+                  }}
+                  disabled={running}
+                >
+                  Back
+                </Button>
+                <Button
+                  appearance='primary'
+                  onClick={handleImport}
+                  disabled={running || validRows.length === 0}
+                >
+                  {running
+                    ? 'Importing...'
+                    : `Import ${pluralize(validRows.length)}`}
+                </Button>
+              </>
+            )}
+            <Button
+              appearance={step === 'done' ? 'primary' : 'secondary'}
+              onClick={handleClose}
+              disabled={running}
+            >
+              {step === 'done' ? 'Close' : 'Cancel'}
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+};
+
+export default TodoImportDialog;
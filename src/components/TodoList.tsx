@@ -1,5 +1,17 @@
-import { useState } from 'react';
-import { useTodos } from '../utils/hooks/useTodos';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { useApolloClient } from '@apollo/client/react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  DEFAULT_PAGE_SIZE,
+  buildTodosVariables,
+  useTodoEvents,
+  useTodos,
+} from '../utils/hooks/useTodos';
+import {
+  hasActiveTodoFilters,
+  useTodoFilters,
+} from '../utils/hooks/useTodoFilters';
 import {
   Table,
   TableHeader,
@@ -12,23 +24,70 @@ import {
   Badge,
   Spinner,
   MessageBar,
-  tokens,
+  MessageBarActions,
+  MessageBarBody,
   Checkbox,
+  Tooltip,
+  mergeClasses,
+  tokens,
 } from '@fluentui/react-components';
+import type { BadgeProps, SortDirection } from '@fluentui/react-components';
 import {
   Add24Regular,
-  CheckmarkCircle24Regular,
-  Circle24Regular,
+  Dismiss24Regular,
   Edit24Regular,
   Delete24Regular,
   ArrowClockwise24Regular,
+  ArrowUpload24Regular,
+  ArrowRepeatAll16Regular,
 } from '@fluentui/react-icons';
 import { PageContentWrapper } from '@orbusinfinity-shared/ui-components';
-import { TodoPriority } from '../apollo/operations';
+import { TodoSortField } from '../apollo/operations';
 import type { Todo } from '../apollo/types';
+import {
+  formatDate,
+  formatOptionalDate,
+  getPriorityColor,
+} from '../utils/todoFormatting';
+import {
+  TODO_BOARD_PATH,
+  TODO_CALENDAR_PATH,
+  getTodoDetailPath,
+} from '../utils/todoRoutes';
+import { describeRecurrence } from '../utils/todoRecurrence';
+import { allSubtasksDone, getSubtaskProgress } from '../utils/todoSubtasks';
+import { getMarkdownExcerpt } from '../utils/todoMarkdown';
 import CreateTodoDialog from './CreateTodoDialog';
 import EditTodoDialog from './EditTodoDialog';
 import DeleteTodoDialog from './DeleteTodoDialog';
+import TodoToolbar from './TodoToolbar';
+import TodoQuickAddBar from './TodoQuickAddBar';
+import TodoPagination from './TodoPagination';
+import TodoStatusToggle from './TodoStatusToggle';
+import SyncControl from './SyncControl';
+import OutboxPanel from './OutboxPanel';
+import TodoBulkActionBar from './TodoBulkActionBar';
+import TodoExportMenu from './TodoExportMenu';
+import TodoImportDialog from './TodoImportDialog';
+import TodoTags from './TodoTags';
+import { useMutationOutbox } from '../utils/hooks/useMutationOutbox';
+import { useTodoSelection } from '../utils/hooks/useTodoSelection';
+import { useBulkTodoActions } from '../utils/hooks/useBulkTodoActions';
+import { fetchAllMatchingTodos } from '../utils/bulkTodoActions';
+import type { BulkTodoAction } from '../utils/bulkTodoActions';
+import {
+  captureTodoPositions,
+  removeTodoFromViews,
+  restoreTodoPositions,
+} from '../utils/todoCacheSync';
+import { scheduleUndoableAction } from '../utils/undoableActions';
+import { enqueueOutboxOperation } from '../utils/offline/mutationOutbox';
+import UndoToaster from './UndoToaster';
+import TodoCommandPalette from './TodoCommandPalette';
+import type { TodoCommand } from './TodoCommandPalette';
+import { useKeyboardShortcuts } from '../utils/hooks/useKeyboardShortcuts';
+import { useTodoStatusToggle } from '../utils/hooks/useTodoStatusToggle';
+import type { TodoEventsStatus } from '../utils/todoEvents';
 
 const useStyles = makeStyles({
   container: {
@@ -42,6 +101,9 @@ const useStyles = makeStyles({
     flexDirection: 'column',
     height: 'calc(100vh - 200px)', // Account for header and padding
     minHeight: '400px',
+    ':focus': {
+      outline: 'none',
+    },
   },
   tableContainer: {
     flexGrow: 1,
@@ -83,8 +145,25 @@ const useStyles = makeStyles({
   completedRow: {
     opacity: 0.6,
   },
-  statusIcon: {
-    cursor: 'pointer',
+  activeRow: {
+    outline: `2px solid ${tokens.colorBrandStroke1}`,
+    outlineOffset: '-2px',
+  },
+  titleCell: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  recurrenceIcon: {
+    display: 'inline-flex',
+    color: '#64748b',
+  },
+  titleLink: {
+    color: 'inherit',
+    textDecoration: 'none',
+    ':hover': {
+      textDecoration: 'underline',
+    },
   },
   loadingContainer: {
     display: 'flex',
@@ -92,50 +171,196 @@ const useStyles = makeStyles({
     alignItems: 'center',
     padding: '40px',
   },
+  selectCell: {
+    width: '44px',
+  },
+  loadMoreSentinel: {
+    display: 'flex',
+    justifyContent: 'center',
+    padding: '12px',
+    minHeight: '1px',
+  },
 });
 
-const getPriorityColor = (priority: TodoPriority) => {
-  switch (priority) {
-    case TodoPriority.URGENT:
-      return 'danger';
-    case TodoPriority.HIGH:
-      return 'important';
-    case TodoPriority.MEDIUM:
-      return 'warning';
-    case TodoPriority.LOW:
-      return 'success';
-    default:
-      return 'informative';
-  }
+const LIVE_STATUS_BADGES: Record<
+  Exclude<TodoEventsStatus, 'idle'>,
+  { label: string; color: BadgeProps['color'] }
+> = {
+  connecting: { label: 'Connecting...', color: 'informative' },
+  connected: { label: 'Live', color: 'success' },
+  reconnecting: { label: 'Reconnecting...', color: 'warning' },
+  polling: { label: 'Auto-refresh', color: 'informative' },
 };
 
-const formatDate = (dateString: string) => {
-  return new Date(dateString).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-  });
-};
-
-const formatOptionalDate = (dateString?: string | null) => {
-  if (!dateString || dateString.length === 0) {
-    return '-';
-  }
-  return formatDate(dateString);
-};
+// Checkbox changes come from a click, which carries the shift key
+const isShiftClick = (event: ChangeEvent<HTMLInputElement>) =>
+  Boolean((event.nativeEvent as Partial<MouseEvent>).shiftKey);
 
 const TodoList = () => {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedTodo, setSelectedTodo] = useState<Todo | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  // The row j/k move between and x/e/# act on
+  const [activeTodoId, setActiveTodoId] = useState<string | null>(null);
   const [avoidCache, setAvoidCache] = useState(false);
+  const [notice, setNotice] = useState<{
+    intent: 'success' | 'error';
+    message: string;
+  } | null>(null);
   const styles = useStyles();
+  const { filters, toggleSort } = useTodoFilters();
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [infinite, setInfinite] = useState(false);
+  const [pageState, setPageState] = useState({ filters, page: 1 });
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const outbox = useMutationOutbox();
+  const client = useApolloClient();
+  const bulk = useBulkTodoActions();
+
+  const showError = (message: string) => {
+    setNotice({ intent: 'error', message });
+  };
+  const toggleStatus = useTodoStatusToggle(showError);
+
+  // Jump back to the first page whenever the filters change
+  const page = pageState.filters === filters ? pageState.page : 1;
+  const setPage = (nextPage: number) => {
+    setPageState({ filters, page: nextPage });
+  };
+
+  // Every filter/sort/page combination gets its own entity key
+  const variables = useMemo(
+    () =>
+      buildTodosVariables(filters, {
+        page: infinite ? 1 : page,
+        limit: pageSize,
+      }),
+    [filters, infinite, page, pageSize]
+  );
 
   // Use the new simplified hook - much cleaner!
-  const { loading, error, todos, refresh, entityKey } = useTodos();
+  const {
+    loading,
+    error,
+    todos,
+    pagination,
+    refresh,
+    hasMore,
+    loadMore,
+    loadingMore,
+  } = useTodos(variables, { infinite });
+  const { status: liveStatus } = useTodoEvents(variables);
+
+  const total = pagination?.total ?? todos.length;
+  const totalPages = pagination?.totalPages ?? 1;
+  const selection = useTodoSelection(todos, filters);
+  const pageSelectedCount = todos.filter(todo =>
+    selection.isSelected(todo.id)
+  ).length;
+
+  const getSelectedTodos = async () =>
+    selection.allMatching
+      ? fetchAllMatchingTodos(client, variables)
+      : selection.selectedTodos;
+
+  const handleBulkAction = async (action: BulkTodoAction) => {
+    if (action.kind === 'delete') {
+      await handleBulkDelete(await getSelectedTodos());
+      return;
+    }
+
+    const result = await bulk.run(action, getSelectedTodos);
+    // Keep what failed selected so it can be retried in one click
+    selection.selectOnly(result.failures.map(failure => failure.todo));
+  };
+
+  // Bulk deletes share the undo window of single deletes
+  const handleBulkDelete = async (targets: Todo[]) => {
+    const positions = captureTodoPositions(targets.map(todo => todo.id));
+    for (const todo of targets) {
+      await removeTodoFromViews(todo.id);
+    }
+    selection.clear();
+
+    scheduleUndoableAction({
+      key: `bulk-delete:${Date.now()}`,
+      message: `Deleted ${targets.length === 1 ? '1 todo' : `${targets.length} todos`}`,
+      commit: async () => {
+        const result = await bulk.run({ kind: 'delete' }, async () => targets);
+        const failed = result.failures.map(failure => failure.todo);
+        await restoreTodoPositions(positions, failed);
+        selection.selectOnly(failed);
+      },
+      undo: () => restoreTodoPositions(positions, targets),
+      reapply: async () => {
+        for (const todo of targets) {
+          await removeTodoFromViews(todo.id);
+        }
+      },
+      persist: () => {
+        targets.forEach(todo => {
+          enqueueOutboxOperation(
+            { kind: 'delete', todoId: todo.id },
+            todo.title
+          );
+        });
+      },
+    });
+  };
+
+  // Deleting the last row of the last page leaves us past the end
+  useEffect(() => {
+    if (!infinite && totalPages > 0 && page > totalPages) {
+      setPageState({ filters, page: totalPages });
+    }
+  }, [filters, infinite, page, totalPages]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!infinite || !hasMore || !sentinel) {
+      return undefined;
+    }
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMore().catch(err => {
+            // eslint-disable-next-line no-console
+            console.error('Error loading more todos:', err);
+          });
+        }
+      },
+      { root: sentinel.parentElement, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [infinite, hasMore, loadMore]);
+
+  const getSortDirection = (
+    sortBy: TodoSortField
+  ): SortDirection | undefined => {
+    if (filters.sortBy !== sortBy) {
+      return undefined;
+    }
+    return filters.sortOrder === 'asc' ? 'ascending' : 'descending';
+  };
+
+  const sortableHeaderProps = (sortBy: TodoSortField) => ({
+    sortable: true,
+    sortDirection: getSortDirection(sortBy),
+    onClick: () => {
+      toggleSort(sortBy);
+    },
+  });
 
   const handleRefresh = async () => {
     try {
@@ -156,6 +381,161 @@ const TodoList = () => {
     setDeleteDialogOpen(true);
   };
 
+  const activeTodo =
+    todos.find((todo: Todo) => todo.id === activeTodoId) ?? null;
+
+  const moveActiveRow = (offset: number) => {
+    if (todos.length === 0) {
+      return;
+    }
+    const index = todos.findIndex((todo: Todo) => todo.id === activeTodoId);
+    const next =
+      index === -1
+        ? 0
+        : Math.min(Math.max(index + offset, 0), todos.length - 1);
+    setActiveTodoId(todos[next].id);
+  };
+
+  const withActiveTodo = (run: (todo: Todo) => void) => () => {
+    if (activeTodo) {
+      run(activeTodo);
+    }
+  };
+  const toggleActiveTodo = withActiveTodo(todo => {
+    void toggleStatus(todo);
+  });
+  const editActiveTodo = withActiveTodo(handleEdit);
+  const deleteActiveTodo = withActiveTodo(handleDelete);
+  const openCreateDialog = () => {
+    setCreateDialogOpen(true);
+  };
+  const focusSearch = () => {
+    searchRef.current?.focus();
+  };
+
+  const handleShortcutKey = useKeyboardShortcuts([
+    {
+      key: 'j',
+      run: () => {
+        moveActiveRow(1);
+      },
+    },
+    {
+      key: 'k',
+      run: () => {
+        moveActiveRow(-1);
+      },
+    },
+    { key: 'x', run: toggleActiveTodo },
+    { key: 'e', run: editActiveTodo },
+    { key: '#', run: deleteActiveTodo },
+    { key: 'n', run: openCreateDialog },
+    { key: '/', run: focusSearch },
+    {
+      key: 'k',
+      withModifier: true,
+      run: () => {
+        setPaletteOpen(true);
+      },
+    },
+  ]);
+
+  const commands: TodoCommand[] = [
+    {
+      id: 'new',
+      label: 'New todo',
+      group: 'Actions',
+      shortcut: 'N',
+      run: openCreateDialog,
+    },
+    {
+      id: 'search',
+      label: 'Search todos',
+      group: 'Actions',
+      shortcut: '/',
+      run: focusSearch,
+    },
+    ...(activeTodo
+      ? ([
+          {
+            id: 'toggle',
+            label: activeTodo.completed
+              ? `Mark "${activeTodo.title}" as incomplete`
+              : `Mark "${activeTodo.title}" as completed`,
+            group: 'Actions',
+            shortcut: 'X',
+            run: toggleActiveTodo,
+          },
+          {
+            id: 'edit',
+            label: `Edit "${activeTodo.title}"`,
+            group: 'Actions',
+            shortcut: 'E',
+            run: editActiveTodo,
+          },
+          {
+            id: 'delete',
+            label: `Delete "${activeTodo.title}"`,
+            group: 'Actions',
+            shortcut: '#',
+            run: deleteActiveTodo,
+          },
+        ] satisfies TodoCommand[])
+      : []),
+    {
+      id: 'refresh',
+      label: 'Refresh todos',
+      group: 'Actions',
+      run: () => {
+        void handleRefresh();
+      },
+    },
+    {
+      id: 'import',
+      label: 'Import todos',
+      group: 'Actions',
+      run: () => {
+        setImportDialogOpen(true);
+      },
+    },
+    {
+      id: 'board',
+      label: 'Go to board',
+      group: 'Actions',
+      run: () => {
+        navigate(TODO_BOARD_PATH);
+      },
+    },
+    {
+      id: 'calendar',
+      label: 'Go to calendar',
+      group: 'Actions',
+      run: () => {
+        navigate(TODO_CALENDAR_PATH);
+      },
+    },
+    ...todos.map(
+      (todo: Todo): TodoCommand => ({
+        id: `todo:${todo.id}`,
+        label: todo.title,
+        group: 'Todos',
+        run: () => {
+          navigate(getTodoDetailPath(todo.id));
+        },
+      })
+    ),
+  ];
+
+  // Keep the active row in view while moving through a long page
+  useEffect(() => {
+    if (activeTodoId === null) {
+      return;
+    }
+    containerRef.current
+      ?.querySelector(`[data-todo-id="${CSS.escape(activeTodoId)}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeTodoId]);
+
   if (error && todos.length === 0) {
     return (
       <PageContentWrapper title='TODO List'>
@@ -168,12 +548,35 @@ const TodoList = () => {
 
   return (
     <PageContentWrapper title='TODO List'>
-      <div className={styles.container}>
+      {/* Shortcuts only apply while focus is inside the todo list */}
+      <div
+        ref={containerRef}
+        className={styles.container}
+        tabIndex={-1}
+        onKeyDown={handleShortcutKey}
+        aria-keyshortcuts='J K X E # N / Control+K'
+      >
         <div className={styles.header}>
           <div className={styles.headerLeft}>
-            <h2>My TODOs ({todos.length})</h2>
+            <h2>My TODOs ({total})</h2>
+            {liveStatus !== 'idle' && (
+              <Badge
+                appearance='tint'
+                color={LIVE_STATUS_BADGES[liveStatus].color}
+              >
+                {LIVE_STATUS_BADGES[liveStatus].label}
+              </Badge>
+            )}
           </div>
           <div className={styles.headerRight}>
+            <SyncControl
+              onSynced={status => {
+                setNotice({
+                  intent: status.success ? 'success' : 'error',
+                  message: status.message,
+                });
+              }}
+            />
             <div className={styles.controlsGroup}>
               <Checkbox
                 label='Avoid cache'
@@ -191,6 +594,22 @@ const TodoList = () => {
                 {loading ? 'Refreshing...' : 'Refresh'}
               </Button>
             </div>
+            <TodoExportMenu
+              getTodos={onProgress =>
+                fetchAllMatchingTodos(client, variables, onProgress)
+              }
+              disabled={total === 0}
+              onError={showError}
+            />
+            <Button
+              appearance='subtle'
+              icon={<ArrowUpload24Regular />}
+              onClick={() => {
+                setImportDialogOpen(true);
+              }}
+            >
+              Import
+            </Button>
             <Button
               appearance='primary'
               icon={<Add24Regular />}
@@ -203,21 +622,102 @@ const TodoList = () => {
           </div>
         </div>
 
+        <TodoQuickAddBar onError={showError} />
+
+        <TodoToolbar searchRef={searchRef} />
+
+        <TodoBulkActionBar
+          selectedCount={selection.selectedCount}
+          allMatching={selection.allMatching}
+          total={total}
+          pageSelected={selection.pageSelected}
+          pageCount={todos.length}
+          progress={bulk.progress}
+          result={bulk.result}
+          onSelectAllMatching={selection.selectAllMatching}
+          onClearSelection={selection.clear}
+          onRun={handleBulkAction}
+          getSelectedTodos={getSelectedTodos}
+          onExportError={showError}
+          onDismissResult={bulk.dismissResult}
+        />
+
+        <OutboxPanel
+          entries={outbox.entries}
+          online={outbox.online}
+          onSyncNow={outbox.replay}
+          onRetry={outbox.retry}
+          onDiscard={outbox.discard}
+        />
+
+        {notice !== null && (
+          <MessageBar intent={notice.intent}>
+            <MessageBarBody>{notice.message}</MessageBarBody>
+            <MessageBarActions
+              containerAction={
+                <Button
+                  appearance='transparent'
+                  aria-label='Dismiss'
+                  icon={<Dismiss24Regular />}
+                  onClick={() => {
+                    setNotice(null);
+                  }}
+                />
+              }
+            />
+          </MessageBar>
+        )}
+
         {loading && !todos.length ? (
           <div className={styles.loadingContainer}>
             <Spinner label='Loading todos...' />
           </div>
         ) : (
           <div className={styles.tableContainer}>
-            <Table aria-label='TODO data table' className={styles.table}>
+            <Table
+              aria-label='TODO data table'
+              className={styles.table}
+              sortable
+            >
               <TableHeader>
                 <TableRow>
+                  <TableHeaderCell className={styles.selectCell}>
+                    <Checkbox
+                      aria-label='Select all todos on this page'
+                      checked={
+                        selection.pageSelected
+                          ? true
+                          : pageSelectedCount > 0
+                            ? 'mixed'
+                            : false
+                      }
+                      onChange={selection.togglePage}
+                      disabled={todos.length === 0 || bulk.running}
+                    />
+                  </TableHeaderCell>
                   <TableHeaderCell>Status</TableHeaderCell>
-                  <TableHeaderCell>Title</TableHeaderCell>
+                  <TableHeaderCell
+                    {...sortableHeaderProps(TodoSortField.TITLE)}
+                  >
+                    Title
+                  </TableHeaderCell>
                   <TableHeaderCell>Description</TableHeaderCell>
-                  <TableHeaderCell>Priority</TableHeaderCell>
-                  <TableHeaderCell>Due Date</TableHeaderCell>
-                  <TableHeaderCell>Created</TableHeaderCell>
+                  <TableHeaderCell>Tags</TableHeaderCell>
+                  <TableHeaderCell
+                    {...sortableHeaderProps(TodoSortField.PRIORITY)}
+                  >
+                    Priority
+                  </TableHeaderCell>
+                  <TableHeaderCell
+                    {...sortableHeaderProps(TodoSortField.DUE_DATE)}
+                  >
+                    Due Date
+                  </TableHeaderCell>
+                  <TableHeaderCell
+                    {...sortableHeaderProps(TodoSortField.CREATED_AT)}
+                  >
+                    Created
+                  </TableHeaderCell>
                   <TableHeaderCell>Actions</TableHeaderCell>
                 </TableRow>
               </TableHeader>
@@ -225,22 +725,86 @@ const TodoList = () => {
                 {todos.map(todo => (
                   <TableRow
                     key={todo.id}
-                    className={todo.completed ? styles.completedRow : ''}
+                    data-todo-id={todo.id}
+                    className={mergeClasses(
+                      todo.completed && styles.completedRow,
+                      todo.id === activeTodoId && styles.activeRow
+                    )}
+                    onClick={() => {
+                      setActiveTodoId(todo.id);
+                    }}
                   >
+                    <TableCell className={styles.selectCell}>
+                      <Checkbox
+                        aria-label={`Select "${todo.title}"`}
+                        checked={selection.isSelected(todo.id)}
+                        onChange={event => {
+                          selection.toggle(todo, isShiftClick(event));
+                        }}
+                        disabled={bulk.running}
+                      />
+                    </TableCell>
                     <TableCell>
-                      {todo.completed ? (
-                        <CheckmarkCircle24Regular
-                          className={styles.statusIcon}
-                          style={{ color: tokens.colorPaletteGreenBackground2 }}
-                        />
-                      ) : (
-                        <Circle24Regular className={styles.statusIcon} />
-                      )}
+                      <TodoStatusToggle todo={todo} onError={showError} />
                     </TableCell>
                     <TableCell>
-                      <strong>{todo.title}</strong>
+                      <div className={styles.titleCell}>
+                        <Link
+                          to={getTodoDetailPath(todo.id)}
+                          className={styles.titleLink}
+                        >
+                          <strong>{todo.title}</strong>
+                        </Link>
+                        {todo.subtasks.length > 0 && (
+                          <Badge
+                            size='small'
+                            appearance='outline'
+                            color={
+                              allSubtasksDone(todo.subtasks)
+                                ? 'success'
+                                : 'informative'
+                            }
+                            aria-label='Checklist progress'
+                          >
+                            {getSubtaskProgress(todo.subtasks).done}/
+                            {todo.subtasks.length}
+                          </Badge>
+                        )}
+                        {todo.recurrence && (
+                          <Tooltip
+                            content={`Repeats: ${describeRecurrence(todo.recurrence)}`}
+                            relationship='label'
+                          >
+                            <span className={styles.recurrenceIcon}>
+                              <ArrowRepeatAll16Regular />
+                            </span>
+                          </Tooltip>
+                        )}
+                        {outbox.todoStatuses.has(todo.id) && (
+                          <Badge
+                            size='small'
+                            appearance='tint'
+                            color={
+                              outbox.todoStatuses.get(todo.id) === 'failed'
+                                ? 'danger'
+                                : 'warning'
+                            }
+                          >
+                            {outbox.todoStatuses.get(todo.id) === 'failed'
+                              ? 'Sync failed'
+                              : 'Pending sync'}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {todo.description
+                        ? getMarkdownExcerpt(todo.description)
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <TodoTags tags={todo.tags} />
                     </TableCell>
-                    <TableCell>{todo.description ?? '-'}</TableCell>
                     <TableCell>
                       <Badge
                         color={getPriorityColor(todo.priority)}
@@ -277,49 +841,95 @@ const TodoList = () => {
                 ))}
               </TableBody>
             </Table>
+            {infinite && hasMore && (
+              <div ref={sentinelRef} className={styles.loadMoreSentinel}>
+                {loadingMore && (
+                  <Spinner size='small' label='Loading more...' />
+                )}
+              </div>
+            )}
           </div>
         )}
 
         {todos.length === 0 && !loading && (
           <div className={styles.tableContainer}>
             <div style={{ textAlign: 'center', padding: '40px' }}>
-              <p>No todos found. Create your first TODO to get started!</p>
+              {hasActiveTodoFilters(filters) ? (
+                <p>No todos match the current filters.</p>
+              ) : (
+                <p>No todos found. Create your first TODO to get started!</p>
+              )}
             </div>
           </div>
         )}
+
+        {pagination && (
+          <TodoPagination
+            page={page}
+            pageSize={pageSize}
+            total={total}
+            totalPages={totalPages}
+            loadedCount={todos.length}
+            infinite={infinite}
+            disabled={loading}
+            onPageChange={setPage}
+            onPageSizeChange={nextPageSize => {
+              setPageSize(nextPageSize);
+              setPage(1);
+            }}
+            onInfiniteChange={setInfinite}
+          />
+        )}
       </div>
 
+      <TodoCommandPalette
+        open={paletteOpen}
+        onClose={() => {
+          setPaletteOpen(false);
+        }}
+        commands={commands}
+      />
+
       <CreateTodoDialog
         open={createDialogOpen}
-        entityKey={entityKey}
         onClose={() => {
           setCreateDialogOpen(false);
         }}
+        onError={showError}
+      />
+
+      <TodoImportDialog
+        open={importDialogOpen}
+        onClose={() => {
+          setImportDialogOpen(false);
+        }}
       />
 
       {selectedTodo && (
         <>
           <EditTodoDialog
             todo={selectedTodo}
-            entityKey={entityKey}
             open={editDialogOpen}
             onClose={() => {
               setEditDialogOpen(false);
               setSelectedTodo(null);
             }}
+            onError={showError}
           />
 
           <DeleteTodoDialog
             todo={selectedTodo}
-            entityKey={entityKey}
             open={deleteDialogOpen}
             onClose={() => {
               setDeleteDialogOpen(false);
               setSelectedTodo(null);
             }}
+            onError={showError}
           />
         </>
       )}
+
+      <UndoToaster />
     </PageContentWrapper>
   );
 };
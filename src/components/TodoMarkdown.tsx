@@ -0,0 +1,191 @@
+import { createElement, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import {
+  Checkbox,
+  Link,
+  makeStyles,
+  mergeClasses,
+} from '@fluentui/react-components';
+import { parseMarkdown } from '../utils/todoMarkdown';
+import type {
+  MarkdownBlock,
+  MarkdownInline,
+  MarkdownListItem,
+} from '../utils/todoMarkdown';
+
+const useStyles = makeStyles({
+  markdown: {
+    lineHeight: '1.5',
+    overflowWrap: 'anywhere',
+    '& > :first-child': {
+      marginTop: 0,
+    },
+    '& > :last-child': {
+      marginBottom: 0,
+    },
+  },
+  block: {
+    margin: '0 0 8px',
+  },
+  heading: {
+    margin: '16px 0 8px',
+    fontSize: '16px',
+    fontWeight: 600,
+  },
+  list: {
+    margin: '0 0 8px',
+    paddingLeft: '24px',
+    '& p': {
+      margin: 0,
+    },
+  },
+  taskItem: {
+    listStyleType: 'none',
+    display: 'flex',
+    alignItems: 'flex-start',
+    marginLeft: '-28px',
+  },
+  quote: {
+    margin: '0 0 8px',
+    paddingLeft: '12px',
+    borderLeft: '3px solid #cbd5e1',
+    color: '#475569',
+  },
+  code: {
+    fontFamily: 'Consolas, "Courier New", monospace',
+    fontSize: '13px',
+    backgroundColor: '#f1f5f9',
+    borderRadius: '4px',
+    padding: '1px 4px',
+  },
+  codeBlock: {
+    margin: '0 0 8px',
+    padding: '8px 12px',
+    backgroundColor: '#f1f5f9',
+    borderRadius: '4px',
+    overflowX: 'auto',
+    fontFamily: 'Consolas, "Courier New", monospace',
+    fontSize: '13px',
+  },
+  rule: {
+    border: 'none',
+    borderTop: '1px solid #e2e8f0',
+    margin: '12px 0',
+  },
+});
+
+type Styles = ReturnType<typeof useStyles>;
+
+const INLINE_TAGS = {
+  strong: 'strong',
+  emphasis: 'em',
+  strikethrough: 's',
+};
+
+const renderInlines = (nodes: MarkdownInline[], styles: Styles) =>
+  nodes.map((node): ReactNode => {
+    if (node.type === 'text') {
+      return <span key={node.key}>{node.text}</span>;
+    }
+    if (node.type === 'code') {
+      return (
+        <code key={node.key} className={styles.code}>
+          {node.text}
+        </code>
+      );
+    }
+    if (node.type === 'break') {
+      return <br key={node.key} />;
+    }
+    if (node.type === 'link') {
+      return (
+        <Link
+          key={node.key}
+          href={node.href}
+          target='_blank'
+          rel='noopener noreferrer'
+          inline
+        >
+          {renderInlines(node.children, styles)}
+        </Link>
+      );
+    }
+    return createElement(
+      INLINE_TAGS[node.type],
+      { key: node.key },
+      renderInlines(node.children, styles)
+    );
+  });
+
+const renderListItem = (item: MarkdownListItem, styles: Styles) =>
+  item.checked === null ? (
+    <li key={item.key}>{renderBlocks(item.children, styles)}</li>
+  ) : (
+    <li key={item.key} className={styles.taskItem}>
+      <Checkbox checked={item.checked} disabled aria-readonly />
+      <div>{renderBlocks(item.children, styles)}</div>
+    </li>
+  );
+
+const renderBlocks = (blocks: MarkdownBlock[], styles: Styles) =>
+  blocks.map((block): ReactNode => {
+    if (block.type === 'paragraph') {
+      return (
+        <p key={block.key} className={styles.block}>
+          {renderInlines(block.children, styles)}
+        </p>
+      );
+    }
+    if (block.type === 'heading') {
+      return createElement(
+        `h${block.level}`,
+        { key: block.key, className: styles.heading },
+        renderInlines(block.children, styles)
+      );
+    }
+    if (block.type === 'code') {
+      return (
+        <pre key={block.key} className={styles.codeBlock}>
+          <code>{block.text}</code>
+        </pre>
+      );
+    }
+    if (block.type === 'quote') {
+      return (
+        <blockquote key={block.key} className={styles.quote}>
+          {renderBlocks(block.children, styles)}
+        </blockquote>
+      );
+    }
+    if (block.type === 'list') {
+      return createElement(
+        block.ordered ? 'ol' : 'ul',
+        {
+          key: block.key,
+          className: styles.list,
+          start: block.ordered ? block.start : undefined,
+        },
+        block.items.map(item => renderListItem(item, styles))
+      );
+    }
+    return <hr key={block.key} className={styles.rule} />;
+  });
+
+interface TodoMarkdownProps {
+  source: string;
+  className?: string;
+}
+
+/** Renders a Markdown description; raw HTML in it is shown as text. */
+const TodoMarkdown = ({ source, className }: TodoMarkdownProps) => {
+  const styles = useStyles();
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={mergeClasses(styles.markdown, className)}>
+      {renderBlocks(blocks, styles)}
+    </div>
+  );
+};
+
+export default TodoMarkdown;
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Tab, TabList, Textarea, makeStyles } from '@fluentui/react-components';
+import TodoMarkdown from './TodoMarkdown';
+
+const useStyles = makeStyles({
+  editor: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  preview: {
+    minHeight: '64px',
+    padding: '6px 10px',
+    border: '1px solid #e2e8f0',
+    borderRadius: '4px',
+  },
+  empty: {
+    color: '#64748b',
+  },
+});
+
+type EditorTab = 'write' | 'preview';
+
+interface TodoMarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+}
+
+const TodoMarkdownEditor = ({
+  value,
+  onChange,
+  placeholder,
+  rows = 3,
+  disabled = false,
+}: TodoMarkdownEditorProps) => {
+  const styles = useStyles();
+  const [tab, setTab] = useState<EditorTab>('write');
+
+  return (
+    <div className={styles.editor}>
+      <TabList
+        size='small'
+        selectedValue={tab}
+        onTabSelect={(_, data) => {
+          setTab(data.value as EditorTab);
+        }}
+      >
+        <Tab value='write'>Write</Tab>
+        <Tab value='preview'>Preview</Tab>
+      </TabList>
+      {tab === 'write' ? (
+        <Textarea
+          value={value}
+          onChange={e => {
+            onChange(e.target.value);
+          }}
+          placeholder={placeholder}
+          rows={rows}
+          resize='vertical'
+          disabled={disabled}
+        />
+      ) : (
+        <div className={styles.preview} aria-label='Description preview'>
+          {value.trim().length > 0 ? (
+            <TodoMarkdown source={value} />
+          ) : (
+            <span className={styles.empty}>Nothing to preview.</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodoMarkdownEditor;
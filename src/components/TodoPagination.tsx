@@ -0,0 +1,152 @@
+import {
+  Button,
+  Dropdown,
+  Option,
+  Switch,
+  Text,
+  makeStyles,
+} from '@fluentui/react-components';
+import {
+  ChevronDoubleLeft20Regular,
+  ChevronDoubleRight20Regular,
+  ChevronLeft20Regular,
+  ChevronRight20Regular,
+} from '@fluentui/react-icons';
+
+const useStyles = makeStyles({
+  footer: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '12px',
+    paddingTop: '12px',
+    borderTop: '1px solid #e2e8f0',
+  },
+  group: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  pageSize: {
+    minWidth: '90px',
+  },
+});
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+interface TodoPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  loadedCount: number;
+  infinite: boolean;
+  disabled?: boolean;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+  onInfiniteChange: (infinite: boolean) => void;
+}
+
+const TodoPagination = ({
+  page,
+  pageSize,
+  total,
+  totalPages,
+  loadedCount,
+  infinite,
+  disabled = false,
+  onPageChange,
+  onPageSizeChange,
+  onInfiniteChange,
+}: TodoPaginationProps) => {
+  const styles = useStyles();
+  const lastPage = Math.max(totalPages, 1);
+  const rangeStart = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const rangeEnd = Math.min(page * pageSize, total);
+
+  return (
+    <nav className={styles.footer} aria-label='TODO pagination'>
+      <div className={styles.group}>
+        <Text>
+          {infinite
+            ? `Showing ${loadedCount} of ${total}`
+            : `Showing ${rangeStart}-${rangeEnd} of ${total}`}
+        </Text>
+        <Switch
+          label='Infinite scroll'
+          checked={infinite}
+          onChange={(_, data) => {
+            onInfiniteChange(data.checked);
+          }}
+        />
+      </div>
+
+      <div className={styles.group}>
+        <Text>Rows per page</Text>
+        <Dropdown
+          className={styles.pageSize}
+          aria-label='Rows per page'
+          value={String(pageSize)}
+          selectedOptions={[String(pageSize)]}
+          onOptionSelect={(_, data) => {
+            onPageSizeChange(Number(data.optionValue));
+          }}
+          disabled={disabled}
+        >
+          {PAGE_SIZE_OPTIONS.map(option => (
+            <Option key={option} value={String(option)}>
+              {String(option)}
+            </Option>
+          ))}
+        </Dropdown>
+
+        {!infinite && (
+          <>
+            <Button
+              appearance='subtle'
+              icon={<ChevronDoubleLeft20Regular />}
+              aria-label='First page'
+              onClick={() => {
+                onPageChange(1);
+              }}
+              disabled={disabled || page <= 1}
+            />
+            <Button
+              appearance='subtle'
+              icon={<ChevronLeft20Regular />}
+              aria-label='Previous page'
+              onClick={() => {
+                onPageChange(page - 1);
+              }}
+              disabled={disabled || page <= 1}
+            />
+            <Text>
+              Page {page} of {lastPage}
+            </Text>
+            <Button
+              appearance='subtle'
+              icon={<ChevronRight20Regular />}
+              aria-label='Next page'
+              onClick={() => {
+                onPageChange(page + 1);
+              }}
+              disabled={disabled || page >= lastPage}
+            />
+            <Button
+              appearance='subtle'
+              icon={<ChevronDoubleRight20Regular />}
+              aria-label='Last page'
+              onClick={() => {
+                onPageChange(lastPage);
+              }}
+              disabled={disabled || page >= lastPage}
+            />
+          </>
+        )}
+      </div>
+    </nav>
+  );
+};
+
+export default TodoPagination;
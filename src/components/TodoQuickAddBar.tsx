@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react';
+import {
+  Button,
+  Field,
+  Input,
+  InteractionTag,
+  InteractionTagPrimary,
+  InteractionTagSecondary,
+  Menu,
+  MenuItemRadio,
+  MenuList,
+  MenuPopover,
+  MenuTrigger,
+  Popover,
+  PopoverSurface,
+  PopoverTrigger,
+  TagGroup,
+  makeStyles,
+} from '@fluentui/react-components';
+import {
+  Add24Regular,
+  CalendarLtr16Regular,
+  Flag16Regular,
+  Tag16Regular,
+} from '@fluentui/react-icons';
+import { TodoPriority } from '../apollo/operations';
+import type { CreateTodoInput } from '../apollo/operations';
+import { useTodoMutations } from '../utils/hooks/useTodos';
+import { TODO_PRIORITIES, toDateTimeInputValue } from '../utils/todoFormatting';
+import { validateTodoInput } from '../utils/todoMutationErrors';
+import { parseQuickAdd } from '../utils/todoQuickAdd';
+import type { QuickAddIgnore } from '../utils/todoQuickAdd';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    marginBottom: '16px',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '8px',
+  },
+  field: {
+    flexGrow: 1,
+  },
+  priority: {
+    textTransform: 'capitalize',
+  },
+});
+
+const formatDueDate = (date: Date) =>
+  date.toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+interface TodoQuickAddBarProps {
+  onError?: (message: string) => void;
+}
+
+const TodoQuickAddBar = ({ onError }: TodoQuickAddBarProps) => {
+  const styles = useStyles();
+  const [text, setText] = useState('');
+  // Adjustments to what was read; they last until the text is cleared
+  const [ignored, setIgnored] = useState<QuickAddIgnore[]>([]);
+  const [chosenDueDate, setChosenDueDate] = useState<Date | null>(null);
+  const [chosenPriority, setChosenPriority] = useState<TodoPriority | null>(
+    null
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const { create } = useTodoMutations();
+
+  const parsed = useMemo(
+    () => parseQuickAdd(text, { ignore: ignored }),
+    [text, ignored]
+  );
+  // A picked date replaces the one read while the text still has one
+  const dueDate = parsed.dueDate && (chosenDueDate ?? parsed.dueDate);
+  const priority = ignored.includes('priority')
+    ? null
+    : (chosenPriority ?? parsed.priority);
+  const { tags } = parsed;
+
+  const reset = () => {
+    setText('');
+    setIgnored([]);
+    setChosenDueDate(null);
+    setChosenPriority(null);
+    setErrors([]);
+  };
+
+  const handleSubmit = async () => {
+    const input: CreateTodoInput = {
+      title: parsed.title,
+      priority: priority ?? TodoPriority.MEDIUM,
+    };
+    if (dueDate) {
+      input.dueDate = dueDate.toISOString();
+    }
+    if (tags.length > 0) {
+      input.tags = tags;
+    }
+
+    const problems = validateTodoInput(input);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    // The row shows up right away, so the bar is ready for the next todo
+    const pendingResult = create(input);
+    reset();
+
+    const result = await pendingResult;
+    if (!result.ok) {
+      onError?.(`Could not create "${input.title}": ${result.error.message}`);
+    }
+  };
+
+  const hasChips = dueDate !== null || priority !== null || tags.length > 0;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.row}>
+        <Field
+          className={styles.field}
+          validationMessage={errors.length > 0 ? errors.join(', ') : undefined}
+          hint={
+            text.length === 0
+              ? 'Try "Send invoice tomorrow 5pm !urgent #billing"'
+              : undefined
+          }
+        >
+          <Input
+            value={text}
+            onChange={e => {
+              setText(e.target.value);
+              setErrors([]);
+              if (e.target.value.trim().length === 0) {
+                reset();
+              }
+            }}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                void handleSubmit();
+              } else if (e.key === 'Escape' && text.length > 0) {
+                reset();
+              }
+            }}
+            placeholder='Quick add a todo...'
+            aria-label='Quick add a todo'
+          />
+        </Field>
+        <Button
+          icon={<Add24Regular />}
+          onClick={() => {
+            void handleSubmit();
+          }}
+          disabled={parsed.title.length === 0}
+        >
+          Add
+        </Button>
+      </div>
+
+      {hasChips && (
+        <TagGroup
+          size='small'
+          aria-label='Read from the text'
+          // Dismissed text goes back into the title, `#tag` included
+          onDismiss={(_event, data) => {
+            setIgnored([...ignored, data.value as QuickAddIgnore]);
+          }}
+        >
+          {dueDate && (
+            <InteractionTag value='dueDate'>
+              <Popover trapFocus>
+                <PopoverTrigger disableButtonEnhancement>
+                  <InteractionTagPrimary
+                    icon={<CalendarLtr16Regular />}
+                    hasSecondaryAction
+                  >
+                    {`Due ${formatDueDate(dueDate)}`}
+                  </InteractionTagPrimary>
+                </PopoverTrigger>
+                <PopoverSurface>
+                  <Field label='Due date'>
+                    <Input
+                      type='datetime-local'
+                      value={toDateTimeInputValue(dueDate.toISOString())}
+                      onChange={e => {
+                        if (e.target.value.length > 0) {
+                          setChosenDueDate(new Date(e.target.value));
+                        }
+                      }}
+                    />
+                  </Field>
+                </PopoverSurface>
+              </Popover>
+              <InteractionTagSecondary aria-label='Remove due date' />
+            </InteractionTag>
+          )}
+          {priority && (
+            <InteractionTag value='priority'>
+              <Menu
+                checkedValues={{ priority: [priority] }}
+                onCheckedValueChange={(_event, data) => {
+                  setChosenPriority(data.checkedItems[0] as TodoPriority);
+                }}
+              >
+                <MenuTrigger disableButtonEnhancement>
+                  <InteractionTagPrimary
+                    className={styles.priority}
+                    icon={<Flag16Regular />}
+                    hasSecondaryAction
+                  >
+                    {priority.toLowerCase()}
+                  </InteractionTagPrimary>
+                </MenuTrigger>
+                <MenuPopover>
+                  <MenuList>
+                    {TODO_PRIORITIES.map(option => (
+                      <MenuItemRadio
+                        key={option}
+                        name='priority'
+                        value={option}
+                        className={styles.priority}
+                      >
+                        {option.toLowerCase()}
+                      </MenuItemRadio>
+                    ))}
+                  </MenuList>
+                </MenuPopover>
+              </Menu>
+              <InteractionTagSecondary aria-label='Remove priority' />
+            </InteractionTag>
+          )}
+          {tags.map(tag => (
+            <InteractionTag key={tag} value={`#${tag}`}>
+              <InteractionTagPrimary icon={<Tag16Regular />} hasSecondaryAction>
+                {tag}
+              </InteractionTagPrimary>
+              <InteractionTagSecondary aria-label={`Remove tag ${tag}`} />
+            </InteractionTag>
+          ))}
+        </TagGroup>
+      )}
+    </div>
+  );
+};
+
+export default TodoQuickAddBar;
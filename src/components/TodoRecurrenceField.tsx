@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import {
+  Checkbox,
+  Dropdown,
+  Field,
+  Input,
+  Option,
+  ToggleButton,
+  makeStyles,
+} from '@fluentui/react-components';
+import {
+  RECURRENCE_WEEKDAYS,
+  describeRecurrence,
+  formatRecurrenceRule,
+  getRecurrenceRuleProblem,
+  parseRecurrenceRule,
+} from '../utils/todoRecurrence';
+import type { RecurrenceWeekday } from '../utils/todoRecurrence';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  weekdays: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+  },
+});
+
+type RecurrenceMode = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+const MODE_LABELS: Record<RecurrenceMode, string> = {
+  none: 'Does not repeat',
+  daily: 'Daily',
+  weekly: 'Weekly on chosen days',
+  monthly: 'Monthly',
+  custom: 'Custom rule (RRULE)',
+};
+
+/** The preset a stored rule was made with, or `custom` for anything else. */
+const getRecurrenceMode = (value: string): RecurrenceMode => {
+  if (value.length === 0) {
+    return 'none';
+  }
+  try {
+    const rule = parseRecurrenceRule(value);
+    if (rule.interval !== 1 || rule.until) {
+      return 'custom';
+    }
+    const modes: Record<typeof rule.frequency, RecurrenceMode> = {
+      DAILY: 'daily',
+      WEEKLY: 'weekly',
+      MONTHLY: 'monthly',
+      YEARLY: 'custom',
+    };
+    return modes[rule.frequency];
+  } catch {
+    return 'custom';
+  }
+};
+
+const parseRuleOrNull = (value: string) => {
+  try {
+    return parseRecurrenceRule(value);
+  } catch {
+    return null;
+  }
+};
+
+interface TodoRecurrenceFieldProps {
+  /** The rule, or an empty string when the todo does not repeat. */
+  value: string;
+  onChange: (value: string) => void;
+  /** The form's due date, which new weekly rules start from. */
+  dueDate: string;
+}
+
+const TodoRecurrenceField = ({
+  value,
+  onChange,
+  dueDate,
+}: TodoRecurrenceFieldProps) => {
+  const styles = useStyles();
+  // Presets are read back from the rule, except while typing a custom one
+  const [customSelected, setCustomSelected] = useState(false);
+  const mode = customSelected ? 'custom' : getRecurrenceMode(value);
+
+  const dueWeekday: RecurrenceWeekday = dueDate
+    ? RECURRENCE_WEEKDAYS[(new Date(dueDate).getDay() + 6) % 7]
+    : 'MO';
+
+  const selectMode = (next: RecurrenceMode) => {
+    setCustomSelected(next === 'custom');
+    const presets: Record<RecurrenceMode, string> = {
+      none: '',
+      daily: 'FREQ=DAILY',
+      weekly: `FREQ=WEEKLY;BYDAY=${dueWeekday}`,
+      // The day is taken from the due date when the todo is completed
+      monthly: 'FREQ=MONTHLY',
+      custom: value,
+    };
+    onChange(presets[next]);
+  };
+
+  const rule = mode === 'custom' ? null : parseRuleOrNull(value);
+  const problem =
+    mode === 'custom' && value.length > 0
+      ? getRecurrenceRuleProblem(value)
+      : null;
+
+  return (
+    <div className={styles.container}>
+      <Field
+        label='Repeat'
+        hint={
+          value.length > 0 && !problem ? describeRecurrence(value) : undefined
+        }
+      >
+        <Dropdown
+          value={MODE_LABELS[mode]}
+          selectedOptions={[mode]}
+          onOptionSelect={(_event, data) => {
+            selectMode(data.optionValue as RecurrenceMode);
+          }}
+        >
+          {(Object.keys(MODE_LABELS) as RecurrenceMode[]).map(option => (
+            <Option key={option} value={option}>
+              {MODE_LABELS[option]}
+            </Option>
+          ))}
+        </Dropdown>
+      </Field>
+
+      {mode === 'weekly' && rule && (
+        <div className={styles.weekdays} role='group' aria-label='Weekdays'>
+          {RECURRENCE_WEEKDAYS.map(day => {
+            const checked = rule.weekdays.includes(day);
+            return (
+              <ToggleButton
+                key={day}
+                size='small'
+                checked={checked}
+                onClick={() => {
+                  const weekdays = checked
+                    ? rule.weekdays.filter(selected => selected !== day)
+                    : [...rule.weekdays, day];
+                  // At least one day has to stay selected
+                  if (weekdays.length > 0) {
+                    onChange(formatRecurrenceRule({ ...rule, weekdays }));
+                  }
+                }}
+              >
+                {day}
+              </ToggleButton>
+            );
+          })}
+        </div>
+      )}
+
+      {mode === 'monthly' && rule && (
+        <Checkbox
+          checked={rule.monthDay === -1}
+          onChange={(_event, data) => {
+            onChange(
+              formatRecurrenceRule({
+                ...rule,
+                monthDay: data.checked === true ? -1 : undefined,
+              })
+            );
+          }}
+          label='On the last day of the month'
+        />
+      )}
+
+      {mode === 'custom' && (
+        <Field
+          validationMessage={problem ?? undefined}
+          hint={
+            problem
+              ? undefined
+              : 'FREQ, INTERVAL, BYDAY, BYMONTHDAY and UNTIL are supported'
+          }
+        >
+          <Input
+            value={value}
+            onChange={e => {
+              onChange(e.target.value);
+            }}
+            placeholder='FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'
+          />
+        </Field>
+      )}
+    </div>
+  );
+};
+
+export default TodoRecurrenceField;
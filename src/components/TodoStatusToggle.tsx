@@ -0,0 +1,65 @@
+import {
+  Button,
+  makeStyles,
+  mergeClasses,
+  tokens,
+} from '@fluentui/react-components';
+import {
+  CheckmarkCircle24Regular,
+  Circle24Regular,
+} from '@fluentui/react-icons';
+import type { Todo } from '../apollo/types';
+import { useTodoStatusToggle } from '../utils/hooks/useTodoStatusToggle';
+
+const useStyles = makeStyles({
+  statusIcon: {
+    cursor: 'pointer',
+  },
+  completedIcon: {
+    color: tokens.colorPaletteGreenBackground2,
+  },
+});
+
+interface TodoStatusToggleProps {
+  todo: Todo;
+  disabled?: boolean;
+  onError?: (message: string) => void;
+}
+
+const TodoStatusToggle = ({
+  todo,
+  disabled = false,
+  onError,
+}: TodoStatusToggleProps) => {
+  const styles = useStyles();
+  const toggle = useTodoStatusToggle(onError);
+
+  return (
+    <Button
+      appearance='transparent'
+      size='small'
+      role='checkbox'
+      aria-checked={todo.completed}
+      aria-label={
+        todo.completed
+          ? `Mark "${todo.title}" as incomplete`
+          : `Mark "${todo.title}" as completed`
+      }
+      icon={
+        todo.completed ? (
+          <CheckmarkCircle24Regular
+            className={mergeClasses(styles.statusIcon, styles.completedIcon)}
+          />
+        ) : (
+          <Circle24Regular className={styles.statusIcon} />
+        )
+      }
+      onClick={() => {
+        void toggle(todo);
+      }}
+      disabled={disabled}
+    />
+  );
+};
+
+export default TodoStatusToggle;
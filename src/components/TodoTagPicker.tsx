@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import {
+  Tag,
+  TagPicker,
+  TagPickerControl,
+  TagPickerGroup,
+  TagPickerInput,
+  TagPickerList,
+  TagPickerOption,
+} from '@fluentui/react-components';
+import { Add16Regular } from '@fluentui/react-icons';
+import { getTagColors, normalizeTag, normalizeTags } from '../utils/todoTags';
+
+// Normalized tags never contain spaces, so this cannot clash with one
+const CREATE_PREFIX = 'create ';
+
+interface TodoTagPickerProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+  /** Off for filters, which can only pick tags already in use. */
+  allowCreate?: boolean;
+  placeholder?: string;
+  disabled?: boolean;
+  'aria-label'?: string;
+}
+
+const TodoTagPicker = ({
+  value,
+  onChange,
+  suggestions,
+  allowCreate = true,
+  placeholder = 'Add tags...',
+  disabled = false,
+  'aria-label': ariaLabel,
+}: TodoTagPickerProps) => {
+  const [query, setQuery] = useState('');
+  const newTag = normalizeTag(query);
+
+  const options = suggestions.filter(
+    tag => !value.includes(tag) && tag.includes(newTag)
+  );
+  const canCreate =
+    allowCreate &&
+    newTag.length > 0 &&
+    !value.includes(newTag) &&
+    !suggestions.includes(newTag);
+
+  const addTag = (tag: string) => {
+    onChange(normalizeTags([...value, tag]));
+    setQuery('');
+  };
+
+  return (
+    <TagPicker
+      selectedOptions={value}
+      onOptionSelect={(_event, data) => {
+        // The placeholder option for an empty list
+        if (data.value.length === 0) {
+          return;
+        }
+        if (data.value.startsWith(CREATE_PREFIX)) {
+          addTag(data.value.slice(CREATE_PREFIX.length));
+          return;
+        }
+        // Selecting a chosen tag again, or dismissing its chip, removes it
+        onChange(normalizeTags(data.selectedOptions));
+        setQuery('');
+      }}
+      disabled={disabled}
+    >
+      <TagPickerControl>
+        <TagPickerGroup aria-label={ariaLabel ?? 'Selected tags'}>
+          {value.map(tag => (
+            <Tag
+              key={tag}
+              value={tag}
+              shape='rounded'
+              size='small'
+              style={getTagColors(tag)}
+            >
+              {tag}
+            </Tag>
+          ))}
+        </TagPickerGroup>
+        <TagPickerInput
+          aria-label={ariaLabel}
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+          }}
+          onKeyDown={e => {
+            // Enter without a highlighted option adds the typed tag
+            if (e.key === 'Enter' && canCreate && options.length === 0) {
+              e.preventDefault();
+              addTag(newTag);
+            }
+          }}
+          placeholder={value.length === 0 ? placeholder : undefined}
+        />
+      </TagPickerControl>
+      <TagPickerList>
+        {canCreate && (
+          <TagPickerOption
+            value={`${CREATE_PREFIX}${newTag}`}
+            text={newTag}
+            media={<Add16Regular />}
+          >
+            {`Create "${newTag}"`}
+          </TagPickerOption>
+        )}
+        {options.map(tag => (
+          <TagPickerOption key={tag} value={tag}>
+            {tag}
+          </TagPickerOption>
+        ))}
+        {!canCreate && options.length === 0 && (
+          <TagPickerOption value='' text=''>
+            {allowCreate ? 'Type to create a tag' : 'No matching tags'}
+          </TagPickerOption>
+        )}
+      </TagPickerList>
+    </TagPicker>
+  );
+};
+
+export default TodoTagPicker;
@@ -0,0 +1,40 @@
+import { Badge, makeStyles } from '@fluentui/react-components';
+import { getTagColors } from '../utils/todoTags';
+
+const useStyles = makeStyles({
+  tags: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+  },
+});
+
+interface TodoTagsProps {
+  tags: string[];
+}
+
+const TodoTags = ({ tags }: TodoTagsProps) => {
+  const styles = useStyles();
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.tags} aria-label='Tags'>
+      {tags.map(tag => (
+        <Badge
+          key={tag}
+          appearance='filled'
+          shape='rounded'
+          size='small'
+          style={getTagColors(tag)}
+        >
+          {tag}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export default TodoTags;
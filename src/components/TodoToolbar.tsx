@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import type { Ref } from 'react';
+import {
+  Button,
+  Dropdown,
+  Option,
+  SearchBox,
+  makeStyles,
+} from '@fluentui/react-components';
+import { Dismiss24Regular } from '@fluentui/react-icons';
+import { TodoPriority } from '../apollo/operations';
+import { TagMatch } from '../apollo/types';
+import { useDebouncedValue } from '../utils/hooks/useDebouncedValue';
+import {
+  hasActiveTodoFilters,
+  useTodoFilters,
+} from '../utils/hooks/useTodoFilters';
+import type { TodoStatusFilter } from '../utils/hooks/useTodoFilters';
+import { useTodoTags } from '../utils/hooks/useTodoTags';
+import TodoTagPicker from './TodoTagPicker';
+
+const useStyles = makeStyles({
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '12px',
+    marginBottom: '16px',
+  },
+  search: {
+    minWidth: '260px',
+  },
+  dropdown: {
+    minWidth: '140px',
+  },
+  tags: {
+    minWidth: '200px',
+    maxWidth: '360px',
+  },
+});
+
+const STATUS_LABELS: Record<TodoStatusFilter, string> = {
+  all: 'All statuses',
+  open: 'Open',
+  completed: 'Completed',
+};
+
+const PRIORITY_LABELS: Record<TodoPriority | 'all', string> = {
+  all: 'All priorities',
+  [TodoPriority.LOW]: 'Low',
+  [TodoPriority.MEDIUM]: 'Medium',
+  [TodoPriority.HIGH]: 'High',
+  [TodoPriority.URGENT]: 'Urgent',
+};
+
+const TAG_MATCH_LABELS: Record<TagMatch, string> = {
+  [TagMatch.ANY]: 'Any tag',
+  [TagMatch.ALL]: 'All tags',
+};
+
+interface TodoToolbarProps {
+  /** Lets the `/` shortcut focus the search box. */
+  searchRef?: Ref<HTMLInputElement>;
+}
+
+const TodoToolbar = ({ searchRef }: TodoToolbarProps) => {
+  const styles = useStyles();
+  const { filters, updateFilters, resetFilters } = useTodoFilters();
+  const [searchText, setSearchText] = useState(filters.search);
+  const debouncedSearch = useDebouncedValue(searchText, 300);
+  const tagSuggestions = useTodoTags();
+
+  useEffect(() => {
+    updateFilters({ search: debouncedSearch });
+  }, [debouncedSearch, updateFilters]);
+
+  // Keep the input in sync when filters are reset from elsewhere
+  useEffect(() => {
+    if (filters.search.length === 0) {
+      setSearchText('');
+    }
+  }, [filters.search]);
+
+  return (
+    <div className={styles.toolbar} role='search'>
+      <SearchBox
+        ref={searchRef}
+        className={styles.search}
+        placeholder='Search todos...'
+        aria-label='Search todos'
+        value={searchText}
+        onChange={(_, data) => {
+          setSearchText(data.value);
+        }}
+      />
+
+      <Dropdown
+        className={styles.dropdown}
+        aria-label='Filter by status'
+        value={STATUS_LABELS[filters.status]}
+        selectedOptions={[filters.status]}
+        onOptionSelect={(_, data) => {
+          updateFilters({ status: data.optionValue as TodoStatusFilter });
+        }}
+      >
+        <Option value='all'>{STATUS_LABELS.all}</Option>
+        <Option value='open'>{STATUS_LABELS.open}</Option>
+        <Option value='completed'>{STATUS_LABELS.completed}</Option>
+      </Dropdown>
+
+      <Dropdown
+        className={styles.dropdown}
+        aria-label='Filter by priority'
+        value={PRIORITY_LABELS[filters.priority]}
+        selectedOptions={[filters.priority]}
+        onOptionSelect={(_, data) => {
+          updateFilters({
+            priority: data.optionValue as TodoPriority | 'all',
+          });
+        }}
+      >
+        <Option value='all'>{PRIORITY_LABELS.all}</Option>
+        <Option value={TodoPriority.LOW}>Low</Option>
+        <Option value={TodoPriority.MEDIUM}>Medium</Option>
+        <Option value={TodoPriority.HIGH}>High</Option>
+        <Option value={TodoPriority.URGENT}>Urgent</Option>
+      </Dropdown>
+
+      <div className={styles.tags}>
+        <TodoTagPicker
+          value={filters.tags}
+          onChange={tags => {
+            updateFilters({ tags });
+          }}
+          suggestions={tagSuggestions}
+          allowCreate={false}
+          placeholder='Filter by tags...'
+          aria-label='Filter by tags'
+        />
+      </div>
+
+      {filters.tags.length > 1 && (
+        <Dropdown
+          className={styles.dropdown}
+          aria-label='Tag matching'
+          value={TAG_MATCH_LABELS[filters.tagMatch]}
+          selectedOptions={[filters.tagMatch]}
+          onOptionSelect={(_, data) => {
+            updateFilters({ tagMatch: data.optionValue as TagMatch });
+          }}
+        >
+          <Option value={TagMatch.ANY}>{TAG_MATCH_LABELS.ANY}</Option>
+          <Option value={TagMatch.ALL}>{TAG_MATCH_LABELS.ALL}</Option>
+        </Dropdown>
+      )}
+
+      {hasActiveTodoFilters(filters) && (
+        <Button
+          appearance='subtle'
+          icon={<Dismiss24Regular />}
+          onClick={() => {
+            setSearchText('');
+            resetFilters();
+          }}
+        >
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TodoToolbar;
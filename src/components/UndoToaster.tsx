@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import {
+  Button,
+  Toast,
+  ToastTitle,
+  Toaster,
+  useId,
+  useToastController,
+} from '@fluentui/react-components';
+import { useUndoableActions } from '../utils/hooks/useUndoableActions';
+
+/**
+ * Shows one "Undo" toast per change that is still inside its undo window.
+ * The toasts have no timeout of their own; they close when the change is
+ * committed or undone, so what is on screen always matches what is pending.
+ */
+const UndoToaster = () => {
+  const toasterId = useId('undo-toaster');
+  const { dispatchToast, dismissToast } = useToastController(toasterId);
+  const { actions, undo } = useUndoableActions();
+  const shownIdsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const shownIds = shownIdsRef.current;
+    const activeIds = new Set(actions.map(action => action.id));
+
+    actions.forEach(action => {
+      if (shownIds.has(action.id)) {
+        return;
+      }
+      shownIds.add(action.id);
+      dispatchToast(
+        <Toast>
+          <ToastTitle
+            action={
+              <Button
+                appearance='transparent'
+                size='small'
+                onClick={() => {
+                  void undo(action.id);
+                }}
+              >
+                Undo
+              </Button>
+            }
+          >
+            {action.message}
+          </ToastTitle>
+        </Toast>,
+        { toastId: action.id, timeout: -1, intent: 'info' }
+      );
+    });
+
+    shownIds.forEach(id => {
+      if (!activeIds.has(id)) {
+        shownIds.delete(id);
+        dismissToast(id);
+      }
+    });
+  }, [actions, dispatchToast, dismissToast, undo]);
+
+  return <Toaster toasterId={toasterId} position='bottom-end' />;
+};
+
+export default UndoToaster;
@@ -0,0 +1,69 @@
+export interface MockApiConfig {
+  /** Delay before every response, in milliseconds. */
+  latencyMs: number;
+  /** Share of operations (0-1) that fail with an injected GraphQL error. */
+  errorRate: number;
+  /** Seed for the generated todos; the same seed gives the same data. */
+  seed: number;
+  /** Operation names that always fail, e.g. `CreateTodo`. */
+  failOperations: string[];
+}
+
+const TRUTHY = ['', '1', 'true', 'on'];
+
+const toNumber = (value: string | null | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(parsed)
+    ? parsed
+    : fallback;
+};
+
+/**
+ * Returns the mock backend settings when mock mode is on, or null when the
+ * app should talk to the real API. `REACT_APP_MOCK_API=true` turns it on
+ * for a build; `?mock` (or `?mock=0` to turn it off) overrides that for one
+ * page load, together with `mockLatency`, `mockErrorRate`, `mockSeed` and
+ * a comma-separated `mockFail` list of operation names.
+ */
+export function getMockApiConfig(
+  search = window.location.search
+): MockApiConfig | null {
+  const params = new URLSearchParams(search);
+  const flag = params.get('mock');
+  const enabled =
+    flag === null
+      ? process.env.REACT_APP_MOCK_API === 'true'
+      : TRUTHY.includes(flag.toLowerCase());
+
+  if (!enabled) {
+    return null;
+  }
+
+  return {
+    latencyMs: Math.max(
+      0,
+      toNumber(
+        params.get('mockLatency'),
+        toNumber(process.env.REACT_APP_MOCK_LATENCY_MS, 300)
+      )
+    ),
+    errorRate: Math.min(
+      1,
+      Math.max(
+        0,
+        toNumber(
+          params.get('mockErrorRate'),
+          toNumber(process.env.REACT_APP_MOCK_ERROR_RATE, 0)
+        )
+      )
+    ),
+    seed: toNumber(
+      params.get('mockSeed'),
+      toNumber(process.env.REACT_APP_MOCK_SEED, 1)
+    ),
+    failOperations: (params.get('mockFail') ?? '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name.length > 0),
+  };
+}
@@ -0,0 +1,208 @@
+import { ApolloLink, Observable } from '@apollo/client';
+import type { FetchResult, Operation } from '@apollo/client';
+import { getMainDefinition } from '@apollo/client/utilities';
+import { buildClientSchema, execute, GraphQLError, subscribe } from 'graphql';
+import type { ExecutionResult, IntrospectionQuery } from 'graphql';
+import introspection from '../apollo/__generated__/schema.json';
+import type {
+  CreateTodoInput,
+  PaginationInput,
+  TodoFilterInput,
+  UpdateTodoInput,
+} from '../apollo/types';
+import type { MockApiConfig } from './mockConfig';
+import { createMockTodoStore } from './mockTodoStore';
+import type { MockTodoEvent, MockTodoStore } from './mockTodoStore';
+
+const schema = buildClientSchema(
+  introspection as unknown as IntrospectionQuery
+);
+
+type SubscriptionField = 'todoCreated' | 'todoUpdated' | 'todoDeleted';
+
+const toSubscriptionPayload = (event: MockTodoEvent) => {
+  if (event.type === 'deleted') {
+    return { todoDeleted: { id: event.id } };
+  }
+  return event.type === 'created'
+    ? { todoCreated: event.todo }
+    : { todoUpdated: event.todo };
+};
+
+/**
+ * The store's events for one subscription field, as the async iterator
+ * graphql's `subscribe` reads. It stops listening once returned.
+ */
+const eventsOf =
+  (store: MockTodoStore, field: SubscriptionField) =>
+  (): AsyncIterableIterator<unknown> => {
+    const queue: unknown[] = [];
+    let done = false;
+    let wake = () => undefined as void;
+
+    const unsubscribe = store.subscribe(event => {
+      const payload = toSubscriptionPayload(event);
+      if (field in payload) {
+        queue.push(payload);
+        wake();
+      }
+    });
+
+    const iterator: AsyncIterableIterator<unknown> = {
+      [Symbol.asyncIterator]: () => iterator,
+      next: async () => {
+        if (queue.length === 0 && !done) {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+        return done
+          ? { value: undefined, done: true }
+          : { value: queue.shift(), done: false };
+      },
+      return: () => {
+        done = true;
+        unsubscribe();
+        wake();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+    return iterator;
+  };
+
+/** Root resolvers for every field in schema.graphql, backed by the store. */
+const createRootValue = (store: MockTodoStore) => ({
+  todos: (args: {
+    filters?: TodoFilterInput | null;
+    pagination?: PaginationInput | null;
+  }) => store.list(args.filters, args.pagination),
+  todo: ({ id }: { id: string }) => store.get(id),
+  todoStats: () => store.stats(),
+  todoTags: () => store.tags(),
+  createTodo: ({ input }: { input: CreateTodoInput }) => store.create(input),
+  updateTodo: ({ id, input }: { id: string; input: UpdateTodoInput }) =>
+    store.update(id, input),
+  deleteTodo: ({ id }: { id: string }) => store.remove(id),
+  markTodoCompleted: ({ id }: { id: string }) => store.setCompleted(id, true),
+  markTodoIncomplete: ({ id }: { id: string }) => store.setCompleted(id, false),
+  forceSync: () => ({
+    success: true,
+    message: 'The mock backend has no cache to clear',
+  }),
+  todoCreated: eventsOf(store, 'todoCreated'),
+  todoUpdated: eventsOf(store, 'todoUpdated'),
+  todoDeleted: eventsOf(store, 'todoDeleted'),
+});
+
+const isSubscription = (operation: Operation) => {
+  const definition = getMainDefinition(operation.query);
+  return (
+    definition.kind === 'OperationDefinition' &&
+    definition.operation === 'subscription'
+  );
+};
+
+/** Streams a subscription's events until the observer unsubscribes. */
+const serveSubscription = (
+  operation: Operation,
+  rootValue: ReturnType<typeof createRootValue>
+) =>
+  new Observable<FetchResult>(observer => {
+    let stream: AsyncGenerator<ExecutionResult> | null = null;
+    let closed = false;
+
+    Promise.resolve(
+      subscribe({
+        schema,
+        document: operation.query,
+        rootValue,
+        variableValues: operation.variables,
+        operationName: operation.operationName,
+      })
+    )
+      .then(async result => {
+        if (!(Symbol.asyncIterator in result)) {
+          observer.next(result as FetchResult);
+          observer.complete();
+          return;
+        }
+        stream = result;
+        if (closed) {
+          await stream.return(undefined);
+          return;
+        }
+        for await (const event of stream) {
+          observer.next(event as FetchResult);
+        }
+        observer.complete();
+      })
+      .catch((error: unknown) => {
+        observer.error(error);
+      });
+
+    return () => {
+      closed = true;
+      void stream?.return(undefined);
+    };
+  });
+
+const injectedError = (operationName: string): FetchResult => ({
+  errors: [
+    new GraphQLError(`Injected mock failure for ${operationName}`, {
+      extensions: { code: 'INTERNAL_SERVER_ERROR' },
+    }),
+  ],
+});
+
+/**
+ * Terminating link that answers operations from an in-memory store instead
+ * of the network, after `latencyMs` and with errors injected as configured.
+ * Subscriptions receive every change the store makes, as they happen.
+ */
+export function createMockLink(
+  config: MockApiConfig,
+  store: MockTodoStore = createMockTodoStore({ seed: config.seed })
+) {
+  const rootValue = createRootValue(store);
+
+  return new ApolloLink(operation => {
+    if (isSubscription(operation)) {
+      return serveSubscription(operation, rootValue);
+    }
+
+    return new Observable<FetchResult>(observer => {
+      const timer = setTimeout(() => {
+        const { operationName } = operation;
+        if (
+          config.failOperations.includes(operationName) ||
+          Math.random() < config.errorRate
+        ) {
+          observer.next(injectedError(operationName));
+          observer.complete();
+          return;
+        }
+
+        Promise.resolve(
+          execute({
+            schema,
+            document: operation.query,
+            rootValue,
+            variableValues: operation.variables,
+            operationName,
+          })
+        )
+          .then(result => {
+            observer.next(result as FetchResult);
+            observer.complete();
+          })
+          .catch((error: unknown) => {
+            observer.error(error);
+          });
+      }, config.latencyMs);
+
+      return () => {
+        clearTimeout(timer);
+      };
+    });
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import { TodoPriority, TodoSortField } from '../apollo/types';
+import { createMockTodoStore } from './mockTodoStore';
+
+const now = () => new Date('2024-03-01T10:00:00.000Z');
+
+describe('createMockTodoStore', () => {
+  describe('list', () => {
+    it('pages through the sorted todos', () => {
+      const store = createMockTodoStore({ count: 7, now });
+      const sortBy = TodoSortField.TITLE;
+      const page = (number: number) =>
+        store.list(null, { page: number, limit: 3, sortBy, sortOrder: 'asc' });
+
+      expect(page(1).pagination).toEqual({
+        page: 1,
+        limit: 3,
+        total: 7,
+        totalPages: 3,
+      });
+      const titles = [1, 2, 3].flatMap(number =>
+        page(number).data.map(todo => todo.title)
+      );
+      expect(titles).toEqual([...titles].sort((a, b) => a.localeCompare(b)));
+      expect(new Set(titles).size).toBe(7);
+      expect(page(4).data).toEqual([]);
+    });
+
+    it('sorts descending and filters before paging', () => {
+      const store = createMockTodoStore({ count: 0, now });
+      ['a', 'b', 'c'].forEach(title => {
+        store.create({ title, priority: TodoPriority.HIGH });
+      });
+      store.create({ title: 'd', priority: TodoPriority.LOW });
+
+      const { data, pagination } = store.list(
+        { priority: TodoPriority.HIGH },
+        { page: 1, limit: 2, sortBy: TodoSortField.TITLE, sortOrder: 'desc' }
+      );
+      expect(data.map(todo => todo.title)).toEqual(['c', 'b']);
+      expect(pagination.total).toBe(3);
+    });
+  });
+
+  describe('update', () => {
+    it('clears fields set to null or empty and keeps omitted ones', () => {
+      const store = createMockTodoStore({ count: 0, now });
+      const { id } = store.create({
+        title: 'Plan launch',
+        description: 'With the whole team',
+        dueDate: '2024-03-15T13:30:00.000Z',
+        recurrence: 'FREQ=WEEKLY',
+        subtasks: [{ title: 'Draft' }],
+        tags: ['launch'],
+      });
+
+      expect(store.update(id, {})).toMatchObject({
+        description: 'With the whole team',
+        dueDate: '2024-03-15T13:30:00.000Z',
+        recurrence: 'FREQ=WEEKLY',
+        subtasks: [{ title: 'Draft', completed: false }],
+        tags: ['launch'],
+      });
+      expect(
+        store.update(id, {
+          description: null,
+          dueDate: null,
+          recurrence: null,
+          subtasks: [],
+          tags: [],
+        })
+      ).toMatchObject({
+        description: null,
+        dueDate: null,
+        recurrence: null,
+        subtasks: [],
+        tags: [],
+      });
+    });
+  });
+});
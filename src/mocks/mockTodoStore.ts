@@ -0,0 +1,299 @@
+import { GraphQLError } from 'graphql';
+import { TodoPriority } from '../apollo/types';
+import type {
+  CreateTodoInput,
+  PaginationInput,
+  Subtask,
+  SubtaskInput,
+  Todo,
+  TodoFilterInput,
+  TodoStats,
+  TodosResponse,
+  UpdateTodoInput,
+} from '../apollo/types';
+import { compareTodos, todoMatchesFilters } from '../utils/todoCacheSync';
+import { getRecurrenceRuleProblem } from '../utils/todoRecurrence';
+import { normalizeTags } from '../utils/todoTags';
+
+export interface MockTodoStoreOptions {
+  seed?: number;
+  count?: number;
+  /** Fixed clock for reproducible timestamps; defaults to the real time. */
+  now?: () => Date;
+}
+
+/** What the API publishes to its `todoCreated`/`Updated`/`Deleted` topics. */
+export type MockTodoEvent =
+  | { type: 'created' | 'updated'; todo: Todo }
+  | { type: 'deleted'; id: string };
+
+const DEFAULT_PAGE_SIZE = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TITLES = [
+  'Review pull request',
+  'Update onboarding docs',
+  'Prepare sprint demo',
+  'Fix flaky login test',
+  'Plan team offsite',
+  'Renew SSL certificates',
+  'Triage support inbox',
+  'Draft quarterly report',
+  'Upgrade build tooling',
+  'Clean up feature flags',
+  'Book design review',
+  'Write release notes',
+];
+
+const DESCRIPTIONS = [
+  'Check with the team before starting.',
+  'Blocked until the API change ships.',
+  'Keep it short; a checklist is enough.',
+  null,
+];
+
+const PRIORITIES = [
+  TodoPriority.LOW,
+  TodoPriority.MEDIUM,
+  TodoPriority.HIGH,
+  TodoPriority.URGENT,
+];
+
+/** mulberry32: small, fast and the same sequence for the same seed. */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const notFound = (id: string) =>
+  new GraphQLError(`Todo ${id} not found`, {
+    extensions: { code: 'NOT_FOUND' },
+  });
+
+const badInput = (message: string) =>
+  new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+
+const checkInput = (input: CreateTodoInput | UpdateTodoInput) => {
+  if (input.title?.trim().length === 0) {
+    throw badInput('Title is required');
+  }
+  if (input.dueDate && Number.isNaN(new Date(input.dueDate).getTime())) {
+    throw badInput('Due date is not a valid date');
+  }
+  const recurrenceProblem = input.recurrence
+    ? getRecurrenceRuleProblem(input.recurrence)
+    : null;
+  if (recurrenceProblem) {
+    throw badInput(recurrenceProblem);
+  }
+  if (input.subtasks?.some(subtask => subtask.title.trim().length === 0)) {
+    throw badInput('Checklist items need a title');
+  }
+};
+
+/**
+ * In-memory todo backend with the same filter, sort and paging rules as
+ * the API. Seeded stores always start with the same todos.
+ */
+export function createMockTodoStore({
+  seed = 1,
+  count = 40,
+  now = () => new Date(),
+}: MockTodoStoreOptions = {}) {
+  const random = createRandom(seed);
+  const pick = <T>(values: readonly T[]) =>
+    values[Math.floor(random() * values.length)];
+
+  let nextId = 1;
+
+  const createId = () => `mock-${nextId++}`;
+
+  const toSubtasks = (inputs?: SubtaskInput[] | null): Subtask[] =>
+    (inputs ?? []).map(input => ({
+      id: input.id ?? createId(),
+      title: input.title.trim(),
+      completed: input.completed ?? false,
+    }));
+
+  const seedTodos = () => {
+    const start = now().getTime();
+    return Array.from({ length: count }, (_unused, index): Todo => {
+      const createdAt = new Date(start - ((count - index) * DAY_MS) / 2);
+      const dueDate =
+        random() < 0.7
+          ? new Date(start + Math.round((random() * 40 - 10) * DAY_MS))
+          : null;
+      return {
+        id: createId(),
+        title: `${pick(TITLES)} #${index + 1}`,
+        description: pick(DESCRIPTIONS),
+        completed: random() < 0.3,
+        priority: pick(PRIORITIES),
+        dueDate: dueDate?.toISOString() ?? null,
+        recurrence: null,
+        subtasks: [],
+        tags: [],
+        createdAt: createdAt.toISOString(),
+        updatedAt: createdAt.toISOString(),
+      };
+    });
+  };
+
+  let todos = seedTodos();
+  const listeners = new Set<(event: MockTodoEvent) => void>();
+
+  const publish = (event: MockTodoEvent) => {
+    listeners.forEach(listener => {
+      listener(event);
+    });
+  };
+
+  const find = (id: string) => {
+    const todo = todos.find(candidate => candidate.id === id);
+    if (!todo) {
+      throw notFound(id);
+    }
+    return todo;
+  };
+
+  const save = (todo: Todo) => {
+    todos = todos.map(existing => (existing.id === todo.id ? todo : existing));
+    publish({ type: 'updated', todo });
+    return todo;
+  };
+
+  return {
+    /** Calls `listener` after every change; returns the unsubscribe. */
+    subscribe(listener: (event: MockTodoEvent) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    list(
+      filters: TodoFilterInput | null = null,
+      pagination: PaginationInput | null = null
+    ): TodosResponse {
+      const page = Math.max(1, pagination?.page ?? 1);
+      const limit = Math.max(1, pagination?.limit ?? DEFAULT_PAGE_SIZE);
+      const matching = todos
+        .filter(todo => todoMatchesFilters(todo, filters ?? undefined))
+        .sort((a, b) => compareTodos(a, b, pagination ?? undefined));
+
+      return {
+        data: matching.slice((page - 1) * limit, page * limit),
+        pagination: {
+          page,
+          limit,
+          total: matching.length,
+          totalPages: Math.ceil(matching.length / limit),
+        },
+      };
+    },
+
+    get(id: string) {
+      return todos.find(todo => todo.id === id) ?? null;
+    },
+
+    stats(): TodoStats {
+      const nowTime = now().getTime();
+      const countBy = (priority: TodoPriority) =>
+        todos.filter(todo => todo.priority === priority).length;
+      const completed = todos.filter(todo => todo.completed).length;
+
+      return {
+        total: todos.length,
+        completed,
+        pending: todos.length - completed,
+        overdue: todos.filter(
+          todo =>
+            !todo.completed &&
+            Boolean(todo.dueDate) &&
+            new Date(todo.dueDate ?? '').getTime() < nowTime
+        ).length,
+        byPriority: {
+          low: countBy(TodoPriority.LOW),
+          medium: countBy(TodoPriority.MEDIUM),
+          high: countBy(TodoPriority.HIGH),
+          urgent: countBy(TodoPriority.URGENT),
+        },
+      };
+    },
+
+    tags() {
+      return normalizeTags(todos.flatMap(todo => todo.tags));
+    },
+
+    create(input: CreateTodoInput) {
+      checkInput(input);
+      const timestamp = now().toISOString();
+      const todo: Todo = {
+        id: createId(),
+        title: input.title.trim(),
+        description: input.description ?? null,
+        completed: false,
+        priority: input.priority ?? TodoPriority.MEDIUM,
+        dueDate: input.dueDate ?? null,
+        recurrence: input.recurrence ?? null,
+        subtasks: toSubtasks(input.subtasks),
+        tags: normalizeTags(input.tags ?? []),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      todos = [...todos, todo];
+      publish({ type: 'created', todo });
+      return todo;
+    },
+
+    update(id: string, input: UpdateTodoInput) {
+      checkInput(input);
+      const todo = find(id);
+      return save({
+        ...todo,
+        title: input.title?.trim() ?? todo.title,
+        description:
+          input.description === undefined
+            ? todo.description
+            : input.description,
+        completed: input.completed ?? todo.completed,
+        priority: input.priority ?? todo.priority,
+        dueDate: input.dueDate === undefined ? todo.dueDate : input.dueDate,
+        recurrence:
+          input.recurrence === undefined ? todo.recurrence : input.recurrence,
+        subtasks:
+          input.subtasks === undefined
+            ? todo.subtasks
+            : toSubtasks(input.subtasks),
+        tags:
+          input.tags === undefined
+            ? todo.tags
+            : normalizeTags(input.tags ?? []),
+        updatedAt: now().toISOString(),
+      });
+    },
+
+    setCompleted(id: string, completed: boolean) {
+      return save({
+        ...find(id),
+        completed,
+        updatedAt: now().toISOString(),
+      });
+    },
+
+    remove(id: string) {
+      find(id);
+      todos = todos.filter(todo => todo.id !== id);
+      publish({ type: 'deleted', id });
+      return { success: true, message: 'Todo deleted' };
+    },
+  };
+}
+
+export type MockTodoStore = ReturnType<typeof createMockTodoStore>;
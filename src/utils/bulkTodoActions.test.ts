@@ -0,0 +1,53 @@
+import type { ApolloClient } from '@apollo/client';
+import { TodoPriority, TodoSortField } from '../apollo/types';
+import type { Todo } from '../apollo/types';
+import { fetchAllMatchingTodos } from './bulkTodoActions';
+
+const makeTodo = (id: string): Todo => ({
+  id,
+  title: `Todo ${id}`,
+  description: null,
+  completed: false,
+  priority: TodoPriority.MEDIUM,
+  dueDate: null,
+  recurrence: null,
+  subtasks: [],
+  tags: [],
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+});
+
+describe('fetchAllMatchingTodos', () => {
+  it('requests every page at the view page size', async () => {
+    // A row moved from page 1 to page 2 between the requests
+    const pages = [['a', 'b'], ['b', 'c'], ['d']];
+    const query = jest.fn(
+      ({ variables }: { variables: { pagination: { page: number } } }) =>
+        Promise.resolve({
+          data: {
+            todos: {
+              data: pages[variables.pagination.page - 1].map(makeTodo),
+              pagination: { page: 1, limit: 2, total: 5, totalPages: 3 },
+            },
+          },
+        })
+    );
+
+    const todos = await fetchAllMatchingTodos(
+      { query } as unknown as ApolloClient,
+      {
+        filters: { completed: false },
+        pagination: { page: 2, limit: 2, sortBy: TodoSortField.TITLE },
+      }
+    );
+
+    expect(todos.map(todo => todo.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(
+      query.mock.calls.map(([{ variables }]) => variables.pagination)
+    ).toEqual([
+      { page: 1, limit: 2, sortBy: TodoSortField.TITLE },
+      { page: 2, limit: 2, sortBy: TodoSortField.TITLE },
+      { page: 3, limit: 2, sortBy: TodoSortField.TITLE },
+    ]);
+  });
+});
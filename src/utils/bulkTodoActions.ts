@@ -0,0 +1,242 @@
+import type { ApolloClient } from '@apollo/client';
+import {
+  DELETE_TODO,
+  GET_TODOS,
+  GET_TODO_STATS,
+  MARK_TODO_COMPLETED,
+  MARK_TODO_INCOMPLETE,
+  UPDATE_TODO,
+} from '../apollo/operations';
+import type { Todo, TodoPriority, UpdateTodoInput } from '../apollo/types';
+import {
+  applyPendingUpdate,
+  enqueueOutboxOperation,
+  isNetworkError,
+  isOffline,
+  isTempTodoId,
+} from './offline/mutationOutbox';
+import type { OutboxOperation } from './offline/mutationOutbox';
+import type { TodosQueryVariables } from './hooks/useTodos';
+import { removeTodoFromViews, upsertTodoInViews } from './todoCacheSync';
+import { normalizeTodoMutationError } from './todoMutationErrors';
+import { continueRecurringTodo } from './todoOccurrences';
+
+export type BulkTodoAction =
+  | { kind: 'complete' }
+  | { kind: 'reopen' }
+  | { kind: 'priority'; priority: TodoPriority }
+  /** Omitting `dueDate` clears it. */
+  | { kind: 'dueDate'; dueDate?: string }
+  | { kind: 'delete' };
+
+export interface BulkTodoFailure {
+  todo: Todo;
+  message: string;
+}
+
+export interface BulkTodoProgress {
+  done: number;
+  total: number;
+}
+
+export interface BulkTodoResult {
+  action: BulkTodoAction;
+  succeeded: number;
+  /** Todos that could not reach the server and wait in the offline outbox. */
+  queued: number;
+  failures: BulkTodoFailure[];
+  /** Set when the batch could not start, e.g. loading the todos failed. */
+  error?: string;
+}
+
+const toUpdateInput = (
+  action: Extract<BulkTodoAction, { kind: 'priority' | 'dueDate' }>
+): UpdateTodoInput =>
+  action.kind === 'priority'
+    ? { priority: action.priority }
+    : { dueDate: action.dueDate ?? null };
+
+const toOutboxOperation = (
+  todo: Todo,
+  action: BulkTodoAction
+): OutboxOperation => {
+  if (action.kind === 'complete') {
+    return { kind: 'markCompleted', todoId: todo.id };
+  }
+  if (action.kind === 'reopen') {
+    return { kind: 'markIncomplete', todoId: todo.id };
+  }
+  if (action.kind === 'delete') {
+    return { kind: 'delete', todoId: todo.id };
+  }
+  return { kind: 'update', todoId: todo.id, input: toUpdateInput(action) };
+};
+
+/** The row as it should look once the action has gone through. */
+const applyLocally = (todo: Todo, action: BulkTodoAction): Todo | null => {
+  const operation = toOutboxOperation(todo, action);
+  if (operation.kind === 'delete') {
+    return null;
+  }
+  if (operation.kind === 'update') {
+    return applyPendingUpdate(todo, operation.input);
+  }
+  return { ...todo, completed: operation.kind === 'markCompleted' };
+};
+
+const runOnServer = async (
+  client: ApolloClient,
+  todo: Todo,
+  action: BulkTodoAction
+): Promise<Todo | null> => {
+  const operation = toOutboxOperation(todo, action);
+  const variables = { id: todo.id };
+
+  if (operation.kind === 'delete') {
+    const { data } = await client.mutate({ mutation: DELETE_TODO, variables });
+    if (data && !data.deleteTodo.success) {
+      throw new Error(data.deleteTodo.message || 'Failed to delete todo');
+    }
+    return null;
+  }
+
+  if (operation.kind === 'update') {
+    const { data } = await client.mutate({
+      mutation: UPDATE_TODO,
+      variables: { ...variables, input: operation.input },
+    });
+    return data?.updateTodo ?? applyLocally(todo, action);
+  }
+
+  if (operation.kind === 'markCompleted') {
+    const { data } = await client.mutate({
+      mutation: MARK_TODO_COMPLETED,
+      variables,
+    });
+    return data?.markTodoCompleted ?? applyLocally(todo, action);
+  }
+
+  const { data } = await client.mutate({
+    mutation: MARK_TODO_INCOMPLETE,
+    variables,
+  });
+  return data?.markTodoIncomplete ?? applyLocally(todo, action);
+};
+
+/**
+ * Loads every todo matching the view's filters, one page of the view's size
+ * at a time. Rows can shift between pages meanwhile, so each is kept once.
+ */
+export async function fetchAllMatchingTodos(
+  client: ApolloClient,
+  variables: TodosQueryVariables,
+  onProgress?: (loadedPages: number, totalPages: number) => void
+) {
+  const todos = new Map<string, Todo>();
+  let page = 1;
+  let totalPages = 1;
+
+  while (page <= totalPages) {
+    // Each page's total decides whether there is another one
+    const { data } = await client.query({
+      query: GET_TODOS,
+      variables: {
+        ...variables,
+        pagination: { ...variables.pagination, page },
+      },
+      fetchPolicy: 'network-only',
+    });
+    data.todos.data.forEach(todo => {
+      todos.set(todo.id, todo);
+    });
+    ({ totalPages } = data.todos.pagination);
+    onProgress?.(page, totalPages);
+    page += 1;
+  }
+
+  return Array.from(todos.values());
+}
+
+const applyToViews = (todo: Todo, result: Todo | null) =>
+  result === null ? removeTodoFromViews(todo.id) : upsertTodoInViews(result);
+
+/** Schedules recurring todos the batch completed; queued ones on replay. */
+const continueCompletedTodo = async (
+  client: ApolloClient,
+  todo: Todo,
+  result: Todo | null
+) => {
+  if (todo.completed || result === null) {
+    return;
+  }
+  try {
+    const continued = await continueRecurringTodo(client, result);
+    if (continued) {
+      await upsertTodoInViews(continued.completed);
+      await upsertTodoInViews(continued.next, true);
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('Error creating the next occurrence:', error);
+  }
+};
+
+/**
+ * Runs one action over many todos, one request at a time, using the same
+ * operations as the per-row controls. A failure never stops the batch; it
+ * is collected so the caller can report which todos were left unchanged.
+ */
+export async function runBulkTodoAction(
+  client: ApolloClient,
+  todos: Todo[],
+  action: BulkTodoAction,
+  onProgress?: (progress: BulkTodoProgress) => void
+): Promise<BulkTodoResult> {
+  const result: BulkTodoResult = {
+    action,
+    succeeded: 0,
+    queued: 0,
+    failures: [],
+  };
+
+  const queue = async (todo: Todo) => {
+    enqueueOutboxOperation(toOutboxOperation(todo, action), todo.title);
+    await applyToViews(todo, applyLocally(todo, action));
+    result.queued += 1;
+  };
+
+  for (const [index, todo] of todos.entries()) {
+    onProgress?.({ done: index, total: todos.length });
+
+    if (isOffline() || isTempTodoId(todo.id)) {
+      await queue(todo);
+      continue;
+    }
+
+    try {
+      const updated = await runOnServer(client, todo, action);
+      await applyToViews(todo, updated);
+      result.succeeded += 1;
+      if (action.kind === 'complete') {
+        await continueCompletedTodo(client, todo, updated);
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await queue(todo);
+      } else {
+        result.failures.push({
+          todo,
+          message: normalizeTodoMutationError(error).message,
+        });
+      }
+    }
+  }
+
+  onProgress?.({ done: todos.length, total: todos.length });
+
+  if (result.succeeded > 0) {
+    await client.refetchQueries({ include: [GET_TODO_STATS] });
+  }
+
+  return result;
+}
@@ -0,0 +1,79 @@
+/**
+ * Local-time date helpers for the calendar view. Days are identified by a
+ * `YYYY-MM-DD` key in the user's time zone, since that is the day a due
+ * date shows up on.
+ */
+export type CalendarLayout = 'month' | 'week';
+
+const DAYS_PER_WEEK = 7;
+
+export const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Weeks start on Monday. */
+export const startOfWeek = (date: Date) =>
+  addDays(date, -((date.getDay() + 6) % DAYS_PER_WEEK));
+
+export const toDayKey = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+export const isSameMonth = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+
+/** Every day shown for `anchor`: whole weeks covering its month, or its week. */
+export function getCalendarDays(anchor: Date, layout: CalendarLayout) {
+  if (layout === 'week') {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: DAYS_PER_WEEK }, (_unused, index) =>
+      addDays(start, index)
+    );
+  }
+
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const start = startOfWeek(first);
+  const weeks = Math.ceil(
+    (Math.round((last.getTime() - start.getTime()) / 86400000) + 1) /
+      DAYS_PER_WEEK
+  );
+  return Array.from({ length: weeks * DAYS_PER_WEEK }, (_unused, index) =>
+    addDays(start, index)
+  );
+}
+
+/** Moves the calendar by one month or one week. */
+export const shiftCalendarAnchor = (
+  anchor: Date,
+  layout: CalendarLayout,
+  direction: 1 | -1
+) =>
+  layout === 'week'
+    ? addDays(anchor, direction * DAYS_PER_WEEK)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+
+/**
+ * Due date after dropping a todo on `day`: the same time of day as before,
+ * or `defaultHour` for todos that had no due date.
+ */
+export function rescheduleToDay(
+  dueDate: string | null | undefined,
+  day: Date,
+  defaultHour = 9
+) {
+  const previous = dueDate ? new Date(dueDate) : null;
+  const next = new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    previous ? previous.getHours() : defaultHour,
+    previous ? previous.getMinutes() : 0
+  );
+  return next.toISOString();
+}
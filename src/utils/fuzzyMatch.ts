@@ -0,0 +1,43 @@
+export interface FuzzyMatch {
+  score: number;
+  /** Positions in the text that matched, for highlighting. */
+  indices: number[];
+}
+
+const CONSECUTIVE_BONUS = 5;
+const WORD_START_BONUS = 3;
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[^\p{L}\p{N}]/u.test(text[index - 1]);
+
+/**
+ * Matches when every character of `query` shows up in `text` in order, as
+ * in `ntdo` for "New todo". Runs of characters and word starts score higher,
+ * gaps lower. Case and spaces in the query are ignored.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) {
+      return null;
+    }
+    const previous = indices.at(-1);
+    if (previous !== undefined && index === previous + 1) {
+      score += CONSECUTIVE_BONUS;
+    }
+    if (isWordStart(text, index)) {
+      score += WORD_START_BONUS;
+    }
+    score += 1 - (index - from) * 0.1;
+    indices.push(index);
+    from = index + 1;
+  }
+
+  return { score, indices };
+}
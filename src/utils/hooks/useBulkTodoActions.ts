@@ -0,0 +1,56 @@
+import { useCallback, useState } from 'react';
+import { useApolloClient } from '@apollo/client/react';
+import type { Todo } from '../../apollo/types';
+import { runBulkTodoAction } from '../bulkTodoActions';
+import type {
+  BulkTodoAction,
+  BulkTodoProgress,
+  BulkTodoResult,
+} from '../bulkTodoActions';
+
+export function useBulkTodoActions() {
+  const client = useApolloClient();
+  const [progress, setProgress] = useState<BulkTodoProgress | null>(null);
+  const [result, setResult] = useState<BulkTodoResult | null>(null);
+
+  /** `getTodos` may load rows first, e.g. everything matching the filters. */
+  const run = useCallback(
+    async (action: BulkTodoAction, getTodos: () => Promise<Todo[]>) => {
+      setResult(null);
+      setProgress({ done: 0, total: 0 });
+
+      try {
+        const todos = await getTodos();
+        const bulkResult = await runBulkTodoAction(
+          client,
+          todos,
+          action,
+          setProgress
+        );
+        setResult(bulkResult);
+        return bulkResult;
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Error running bulk action:', error);
+        const failed: BulkTodoResult = {
+          action,
+          succeeded: 0,
+          queued: 0,
+          failures: [],
+          error: (error as Error).message || 'Unknown error',
+        };
+        setResult(failed);
+        return failed;
+      } finally {
+        setProgress(null);
+      }
+    },
+    [client]
+  );
+
+  const dismissResult = useCallback(() => {
+    setResult(null);
+  }, []);
+
+  return { run, running: progress !== null, progress, result, dismissResult };
+}
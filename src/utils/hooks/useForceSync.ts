@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+import { useTodoMutations } from './useTodoMutations';
+import { readStoredJson, writeStoredJson } from '../storage';
+
+export interface SyncStatus {
+  success: boolean;
+  message: string;
+  syncedAt: string;
+}
+
+const SYNC_STATUS_STORAGE_KEY = 'last-sync';
+
+export function useForceSync() {
+  const [lastSync, setLastSync] = useState<SyncStatus | null>(() =>
+    readStoredJson<SyncStatus>(SYNC_STATUS_STORAGE_KEY)
+  );
+
+  const { forceSync, loading } = useTodoMutations();
+
+  const sync = useCallback(async (): Promise<SyncStatus> => {
+    const result = await forceSync();
+    const success = result.ok && result.data.success;
+    const status: SyncStatus = {
+      success,
+      message: result.ok
+        ? result.data.message || (success ? 'Sync completed' : 'Sync failed')
+        : result.error.message,
+      syncedAt: new Date().toISOString(),
+    };
+
+    writeStoredJson(SYNC_STATUS_STORAGE_KEY, status);
+    setLastSync(status);
+    return status;
+  }, [forceSync]);
+
+  return { sync, syncing: loading.forceSync, lastSync };
+}
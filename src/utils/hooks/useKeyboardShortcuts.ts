@@ -0,0 +1,63 @@
+import { useCallback } from 'react';
+import type { KeyboardEvent } from 'react';
+
+export interface KeyboardShortcut {
+  /** The `KeyboardEvent.key` to react to, e.g. `j`, `#` or `/`. */
+  key: string;
+  /** Needs Ctrl (⌘ on macOS); such shortcuts also work while typing. */
+  withModifier?: boolean;
+  run: () => void;
+}
+
+// Inputs that take no typing, so row checkboxes keep j/k working
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'button', 'submit', 'reset'];
+
+const isTextEntry = (target: EventTarget) => {
+  if (target instanceof HTMLInputElement) {
+    return !NON_TEXT_INPUT_TYPES.includes(target.type);
+  }
+  return (
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement &&
+      // Dropdowns jump to options as you type
+      (target.isContentEditable || target.getAttribute('role') === 'combobox'))
+  );
+};
+
+/**
+ * A `keydown` handler for the element the shortcuts belong to. Keys only
+ * count while focus is inside that element, and handled keys stop there, so
+ * a host shell with its own shortcuts never sees them and is never
+ * overridden outside this remote.
+ */
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[]) {
+  return useCallback(
+    (event: KeyboardEvent<HTMLElement>) => {
+      // Dialogs and menus are portaled elsewhere but still bubble through
+      // React; their keys are not ours
+      if (
+        event.defaultPrevented ||
+        event.altKey ||
+        !event.currentTarget.contains(event.target as Node)
+      ) {
+        return;
+      }
+
+      const withModifier = event.ctrlKey || event.metaKey;
+      const shortcut = shortcuts.find(
+        candidate =>
+          candidate.key.toLowerCase() === event.key.toLowerCase() &&
+          (candidate.withModifier ?? false) === withModifier
+      );
+      if (!shortcut || (!withModifier && isTextEntry(event.target))) {
+        return;
+      }
+
+      event.preventDefault();
+      event.stopPropagation();
+      shortcut.run();
+    },
+    [shortcuts]
+  );
+}
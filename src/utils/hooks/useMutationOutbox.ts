@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useApolloClient } from '@apollo/client/react';
+import {
+  discardOutboxEntry,
+  getOperationTodoId,
+  getOutboxEntries,
+  isOffline,
+  replayOutbox,
+  retryOutboxEntry,
+  subscribeToOutbox,
+} from '../offline/mutationOutbox';
+import type { OutboxEntry } from '../offline/mutationOutbox';
+import { refreshTodoViews } from '../todoViewRegistry';
+
+const subscribeToNetworkStatus = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+const getOnlineStatus = () => !isOffline();
+
+export function useMutationOutbox() {
+  const client = useApolloClient();
+  const entries = useSyncExternalStore(subscribeToOutbox, getOutboxEntries);
+  const online = useSyncExternalStore(
+    subscribeToNetworkStatus,
+    getOnlineStatus
+  );
+
+  const replay = useCallback(async () => {
+    try {
+      return await replayOutbox(client);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Error replaying offline changes:', err);
+      return 0;
+    }
+  }, [client]);
+
+  const hasPending = entries.some(entry => entry.status === 'pending');
+
+  // Replay when the browser reconnects and whenever new work is queued
+  // while we are (or think we are) online
+  useEffect(() => {
+    const handleOnline = () => {
+      void replay();
+    };
+
+    window.addEventListener('online', handleOnline);
+    if (hasPending && !isOffline()) {
+      handleOnline();
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [replay, hasPending, entries]);
+
+  const retry = useCallback(
+    async (entryId: string) => {
+      retryOutboxEntry(entryId);
+      await replay();
+    },
+    [replay]
+  );
+
+  const discard = useCallback(async (entryId: string) => {
+    discardOutboxEntry(entryId);
+    // Drop the local change that was shown while the entry was queued
+    if (!isOffline()) {
+      try {
+        await refreshTodoViews();
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('Error refreshing todos after discard:', err);
+      }
+    }
+  }, []);
+
+  /** Outbox status per todo ID, for marking rows that are not synced yet. */
+  const todoStatuses = useMemo(() => {
+    const statuses = new Map<string, OutboxEntry['status']>();
+    entries.forEach(entry => {
+      const todoId = getOperationTodoId(entry.operation);
+      if (statuses.get(todoId) !== 'failed') {
+        statuses.set(todoId, entry.status);
+      }
+    });
+    return statuses;
+  }, [entries]);
+
+  return { entries, online, todoStatuses, replay, retry, discard };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useState } from 'react';
+import { PLANNING_VIEW_PAGE_SIZE } from '../todoPlanningViews';
+import { buildTodosVariables, useTodoEvents, useTodos } from './useTodos';
+import type { TodoFiltersState } from './useTodoFilters';
+
+/**
+ * Every todo matching the filters, for views that can't page. The pages
+ * are appended to one list, which changes elsewhere keep up to date.
+ */
+export function usePlanningTodos(filters: TodoFiltersState) {
+  const variables = useMemo(
+    () =>
+      buildTodosVariables(filters, { page: 1, limit: PLANNING_VIEW_PAGE_SIZE }),
+    [filters]
+  );
+  const result = useTodos(variables, { infinite: true });
+  useTodoEvents(variables);
+
+  // A page that fails stops the loading instead of retrying on each render
+  const [pageError, setPageError] = useState<{
+    entityKey: string;
+    error: Error;
+  } | null>(null);
+  const { entityKey, error, hasMore, loading, loadingMore, loadMore } = result;
+  const pageFailure =
+    pageError?.entityKey === entityKey ? pageError.error : undefined;
+
+  useEffect(() => {
+    if (loading || error || pageFailure || !hasMore || loadingMore) {
+      return;
+    }
+    loadMore().catch((err: unknown) => {
+      setPageError({
+        entityKey,
+        error: err instanceof Error ? err : new Error(String(err)),
+      });
+    });
+  }, [entityKey, error, pageFailure, hasMore, loading, loadingMore, loadMore]);
+
+  return {
+    ...result,
+    error: error ?? pageFailure,
+  };
+}
@@ -0,0 +1,96 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { TodoSortField } from '../../apollo/operations';
+import { TagMatch } from '../../apollo/types';
+import type { TodoPriority } from '../../apollo/types';
+
+export type TodoStatusFilter = 'all' | 'open' | 'completed';
+
+export interface TodoFiltersState {
+  search: string;
+  status: TodoStatusFilter;
+  priority: TodoPriority | 'all';
+  /** Normalized and sorted, so equal selections build equal variables. */
+  tags: string[];
+  tagMatch: TagMatch;
+  sortBy: TodoSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+export const DEFAULT_TODO_FILTERS: TodoFiltersState = {
+  search: '',
+  status: 'all',
+  priority: 'all',
+  tags: [],
+  tagMatch: TagMatch.ANY,
+  sortBy: TodoSortField.CREATED_AT,
+  sortOrder: 'desc',
+};
+
+// Filters live outside React so every todo view (and a remount after
+// navigating away) picks up the same toolbar state.
+let currentFilters = DEFAULT_TODO_FILTERS;
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => currentFilters;
+
+const setFilters = (patch: Partial<TodoFiltersState>) => {
+  const next = { ...currentFilters, ...patch };
+  const changed = (Object.keys(next) as (keyof TodoFiltersState)[]).some(
+    key => next[key] !== currentFilters[key]
+  );
+  if (!changed) {
+    return;
+  }
+
+  currentFilters = next;
+  listeners.forEach(listener => {
+    listener();
+  });
+};
+
+export const hasActiveTodoFilters = (filters: TodoFiltersState) =>
+  filters.search.trim().length > 0 ||
+  filters.status !== 'all' ||
+  filters.priority !== 'all' ||
+  filters.tags.length > 0;
+
+export function useTodoFilters() {
+  const filters = useSyncExternalStore(subscribe, getSnapshot);
+
+  const updateFilters = useCallback((patch: Partial<TodoFiltersState>) => {
+    setFilters(patch);
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFilters({
+      search: DEFAULT_TODO_FILTERS.search,
+      status: DEFAULT_TODO_FILTERS.status,
+      priority: DEFAULT_TODO_FILTERS.priority,
+      tags: DEFAULT_TODO_FILTERS.tags,
+      tagMatch: DEFAULT_TODO_FILTERS.tagMatch,
+    });
+  }, []);
+
+  const toggleSort = useCallback((sortBy: TodoSortField) => {
+    if (currentFilters.sortBy === sortBy) {
+      setFilters({
+        sortOrder: currentFilters.sortOrder === 'asc' ? 'desc' : 'asc',
+      });
+      return;
+    }
+
+    setFilters({
+      sortBy,
+      sortOrder: sortBy === TodoSortField.CREATED_AT ? 'desc' : 'asc',
+    });
+  }, []);
+
+  return { filters, updateFilters, resetFilters, toggleSort };
+}
@@ -0,0 +1,51 @@
+import { useCallback, useState } from 'react';
+import type { CreateTodoInput } from '../../apollo/types';
+import type { BulkTodoProgress } from '../bulkTodoActions';
+import { useTodoMutations } from './useTodoMutations';
+
+export interface TodoImportResult {
+  created: number;
+  /** Created locally; the offline outbox sends them once back online. */
+  queued: number;
+  failures: { row: number; title: string; message: string }[];
+}
+
+/**
+ * Creates imported todos one at a time through `useTodoMutations`, so they
+ * show up in every list and are queued when offline like any other create.
+ */
+export function useTodoImport() {
+  const { create } = useTodoMutations();
+  const [progress, setProgress] = useState<BulkTodoProgress | null>(null);
+
+  const run = useCallback(
+    async (rows: { row: number; input: CreateTodoInput }[]) => {
+      const result: TodoImportResult = { created: 0, queued: 0, failures: [] };
+
+      try {
+        for (const [index, { row, input }] of rows.entries()) {
+          setProgress({ done: index, total: rows.length });
+          const created = await create(input);
+          if (!created.ok) {
+            result.failures.push({
+              row,
+              title: input.title,
+              message: created.error.message,
+            });
+          } else if (created.queued) {
+            result.queued += 1;
+          } else {
+            result.created += 1;
+          }
+        }
+      } finally {
+        setProgress(null);
+      }
+
+      return result;
+    },
+    [create]
+  );
+
+  return { run, running: progress !== null, progress };
+}
@@ -0,0 +1,476 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { MutationOptions, OperationVariables } from '@apollo/client';
+import { useApolloClient } from '@apollo/client/react';
+import type { TypedDocumentNode } from '@graphql-typed-document-node/core';
+import {
+  CREATE_TODO,
+  DELETE_TODO,
+  FORCE_SYNC,
+  GET_TODO_STATS,
+  GET_TODO_TAGS,
+  MARK_TODO_COMPLETED,
+  MARK_TODO_INCOMPLETE,
+  UPDATE_TODO,
+} from '../../apollo/operations';
+import type {
+  CreateTodoInput,
+  ForceSyncMutation,
+  Todo,
+  UpdateTodoInput,
+} from '../../apollo/types';
+import {
+  applyPendingUpdate,
+  createPendingTodo,
+  createTempTodoId,
+  enqueueOutboxOperation,
+  isOffline,
+  isTempTodoId,
+} from '../offline/mutationOutbox';
+import type { OutboxOperation } from '../offline/mutationOutbox';
+import {
+  captureTodoPositions,
+  findTodoInViews,
+  removeTodoFromViews,
+  restoreTodoPositions,
+  upsertTodoInViews,
+} from '../todoCacheSync';
+import {
+  createValidationError,
+  normalizeTodoMutationError,
+  validateTodoInput,
+} from '../todoMutationErrors';
+import type { TodoMutationError } from '../todoMutationErrors';
+import { getNextOccurrenceInput } from '../todoRecurrence';
+import { scheduleUndoableAction } from '../undoableActions';
+import { refreshTodoViews } from '../todoViewRegistry';
+
+export type TodoMutationResult<TData> =
+  | {
+      ok: true;
+      data: TData;
+      /** The server has not seen the change yet; the outbox will send it. */
+      queued: boolean;
+      /** The user undid the change before it was sent. */
+      undone?: boolean;
+    }
+  | { ok: false; error: TodoMutationError };
+
+export interface UndoableMutationOptions {
+  /**
+   * Applies the change locally now and sends it after the undo window,
+   * resolving once it was sent or undone. Needs an `UndoToaster` on screen.
+   */
+  undoable?: boolean;
+}
+
+export type ForceSyncResult = ForceSyncMutation['forceSync'];
+
+export type TodoMutationName =
+  | 'create'
+  | 'update'
+  | 'remove'
+  | 'markCompleted'
+  | 'markIncomplete'
+  | 'forceSync';
+
+const IDLE: Record<TodoMutationName, number> = {
+  create: 0,
+  update: 0,
+  remove: 0,
+  markCompleted: 0,
+  markIncomplete: 0,
+  forceSync: 0,
+};
+
+const queued = <TData>(data: TData): TodoMutationResult<TData> => ({
+  ok: true,
+  data,
+  queued: true,
+});
+
+const failed = <TData>(error: unknown): TodoMutationResult<TData> => ({
+  ok: false,
+  error: normalizeTodoMutationError(error),
+});
+
+/**
+ * The one way to change todos. Every method updates all cached lists right
+ * away, sends the change (or queues it in the offline outbox when there is
+ * no connection), reconciles the lists with the server's answer and rolls
+ * them back if the server refuses. Methods never throw; they resolve with
+ * a result whose `error.kind` tells validation, GraphQL and network
+ * failures apart.
+ */
+export function useTodoMutations() {
+  const client = useApolloClient();
+  const [pending, setPending] = useState(IDLE);
+  const pendingRef = useRef(IDLE);
+
+  const track = useCallback(
+    async <TResult>(name: TodoMutationName, run: () => Promise<TResult>) => {
+      const adjust = (delta: number) => {
+        pendingRef.current = {
+          ...pendingRef.current,
+          [name]: pendingRef.current[name] + delta,
+        };
+        setPending(pendingRef.current);
+      };
+
+      adjust(1);
+      try {
+        return await run();
+      } finally {
+        adjust(-1);
+      }
+    },
+    []
+  );
+
+  const send = useCallback(
+    async <TData, TVariables extends OperationVariables>(
+      mutation: TypedDocumentNode<TData, TVariables>,
+      variables: TVariables,
+      options: Pick<
+        MutationOptions<TData, TVariables>,
+        'optimisticResponse'
+      > = {}
+    ) => {
+      const { data } = await client.mutate<TData, TVariables>({
+        ...options,
+        mutation,
+        variables,
+        refetchQueries: [GET_TODO_STATS, GET_TODO_TAGS],
+      });
+      if (!data) {
+        throw new Error('The server returned no data');
+      }
+      return data;
+    },
+    [client]
+  );
+
+  const create = useCallback(
+    (input: CreateTodoInput) =>
+      track('create', async (): Promise<TodoMutationResult<Todo>> => {
+        const problems = validateTodoInput(input);
+        if (problems.length > 0) {
+          return { ok: false, error: createValidationError(problems) };
+        }
+
+        // Show the todo under a temporary ID right away; the server copy
+        // replaces it once the mutation returns
+        const tempId = createTempTodoId();
+        const pendingTodo = createPendingTodo(tempId, input);
+        await upsertTodoInViews(pendingTodo, true);
+
+        const queueCreate = () => {
+          enqueueOutboxOperation(
+            { kind: 'create', tempId, input },
+            input.title
+          );
+          return queued(pendingTodo);
+        };
+
+        if (isOffline()) {
+          return queueCreate();
+        }
+
+        try {
+          const data = await send(CREATE_TODO, { input });
+          await removeTodoFromViews(tempId);
+          await upsertTodoInViews(data.createTodo, true);
+          return { ok: true, data: data.createTodo, queued: false };
+        } catch (error) {
+          const result = failed<Todo>(error);
+          // Without a connection the row stays and is created on replay
+          if (!result.ok && result.error.kind === 'network') {
+            return queueCreate();
+          }
+          await removeTodoFromViews(tempId);
+          return result;
+        }
+      }),
+    [send, track]
+  );
+
+  const sendUpdate = useCallback(
+    (todo: Todo, input: UpdateTodoInput) =>
+      track('update', async (): Promise<TodoMutationResult<Todo>> => {
+        const problems = validateTodoInput(input);
+        if (problems.length > 0) {
+          return { ok: false, error: createValidationError(problems) };
+        }
+
+        const optimisticTodo = applyPendingUpdate(todo, input);
+        await upsertTodoInViews(optimisticTodo);
+
+        const queueUpdate = () => {
+          enqueueOutboxOperation(
+            { kind: 'update', todoId: todo.id, input },
+            optimisticTodo.title
+          );
+          return queued(optimisticTodo);
+        };
+
+        // Todos created offline only exist locally until the outbox replays
+        if (isOffline() || isTempTodoId(todo.id)) {
+          return queueUpdate();
+        }
+
+        try {
+          // The optimistic response also covers views that read the todo
+          // from the normalized cache, like the detail page
+          const data = await send(
+            UPDATE_TODO,
+            { id: todo.id, input },
+            {
+              optimisticResponse: {
+                updateTodo: { __typename: 'Todo', ...optimisticTodo },
+              },
+            }
+          );
+          await upsertTodoInViews(data.updateTodo);
+          return { ok: true, data: data.updateTodo, queued: false };
+        } catch (error) {
+          const result = failed<Todo>(error);
+          if (!result.ok && result.error.kind === 'network') {
+            return queueUpdate();
+          }
+          await upsertTodoInViews(todo);
+          return result;
+        }
+      }),
+    [send, track]
+  );
+
+  /**
+   * Creates the next occurrence of a recurring todo whose completion reached
+   * the server, and moves the rule over to it so that reopening and
+   * completing the todo again does not repeat it. Completions that went
+   * through the outbox are continued when it replays them. Resolves to null
+   * when the todo does not repeat (anymore).
+   */
+  const createNextOccurrence = useCallback(
+    async (todo: Todo) => {
+      const input = getNextOccurrenceInput(todo);
+      if (!input) {
+        return null;
+      }
+      const result = await create(input);
+      if (!result.ok) {
+        // eslint-disable-next-line no-console
+        console.error('Error creating the next occurrence:', result.error);
+        return result;
+      }
+
+      const moved = await sendUpdate(
+        { ...todo, completed: true },
+        { recurrence: null }
+      );
+      if (!moved.ok) {
+        // eslint-disable-next-line no-console
+        console.error('Error moving the recurrence rule:', moved.error);
+      }
+      return result;
+    },
+    [create, sendUpdate]
+  );
+
+  const update = useCallback(
+    async (todo: Todo, input: UpdateTodoInput) => {
+      const result = await sendUpdate(todo, input);
+      // Completing a recurring todo from the edit dialog schedules it again
+      if (result.ok && !result.queued && input.completed && !todo.completed) {
+        await createNextOccurrence(result.data);
+      }
+      return result;
+    },
+    [createNextOccurrence, sendUpdate]
+  );
+
+  /**
+   * Shared flow for changes that can sit in an undo window: apply locally,
+   * then send (now, or once the window closes), restoring every list to
+   * its previous order if the change is undone or refused.
+   */
+  const runUndoable = useCallback(
+    async <TData>({
+      name,
+      todo,
+      operation,
+      message,
+      applyLocally,
+      sendToServer,
+      undoable,
+    }: {
+      name: TodoMutationName;
+      todo: Todo;
+      operation: OutboxOperation;
+      message: string;
+      applyLocally: () => Promise<unknown>;
+      sendToServer: () => Promise<TData>;
+      undoable: boolean;
+    }) => {
+      const positions = captureTodoPositions([todo.id]);
+      const restore = () => restoreTodoPositions(positions, [todo]);
+      await applyLocally();
+
+      const queue = () => {
+        enqueueOutboxOperation(operation, todo.title);
+      };
+
+      const commit = () =>
+        track(name, async (): Promise<TodoMutationResult<TData | null>> => {
+          if (isOffline() || isTempTodoId(todo.id)) {
+            queue();
+            return queued(null);
+          }
+          try {
+            return { ok: true, data: await sendToServer(), queued: false };
+          } catch (error) {
+            const result = failed<TData>(error);
+            if (!result.ok && result.error.kind === 'network') {
+              queue();
+              return queued(null);
+            }
+            await restore();
+            return result;
+          }
+        });
+
+      if (!undoable) {
+        return commit();
+      }
+
+      return new Promise<TodoMutationResult<TData | null>>(resolve => {
+        scheduleUndoableAction({
+          key: `${name}:${todo.id}`,
+          message,
+          commit: async () => {
+            resolve(await commit());
+          },
+          undo: async () => {
+            await restore();
+            resolve({ ok: true, data: null, queued: false, undone: true });
+          },
+          reapply: applyLocally,
+          persist: () => {
+            queue();
+            resolve(queued(null));
+          },
+        });
+      });
+    },
+    [track]
+  );
+
+  const remove = useCallback(
+    (todo: Todo, { undoable = false }: UndoableMutationOptions = {}) =>
+      runUndoable({
+        name: 'remove',
+        todo,
+        operation: { kind: 'delete', todoId: todo.id },
+        message: `Deleted "${todo.title}"`,
+        applyLocally: () => removeTodoFromViews(todo.id),
+        sendToServer: async () => {
+          const data = await send(DELETE_TODO, { id: todo.id });
+          if (!data.deleteTodo.success) {
+            throw new Error(data.deleteTodo.message || 'Failed to delete todo');
+          }
+          return todo.id;
+        },
+        undoable,
+      }),
+    [runUndoable, send]
+  );
+
+  const markCompleted = useCallback(
+    async (todo: Todo, { undoable = false }: UndoableMutationOptions = {}) => {
+      const result = await runUndoable({
+        name: 'markCompleted',
+        todo,
+        operation: { kind: 'markCompleted', todoId: todo.id },
+        message: `Marked "${todo.title}" as completed`,
+        // Later runs start from whatever version the lists show by then
+        applyLocally: () =>
+          upsertTodoInViews({
+            ...(findTodoInViews(todo.id) ?? todo),
+            completed: true,
+          }),
+        sendToServer: async () => {
+          const data = await send(MARK_TODO_COMPLETED, { id: todo.id });
+          await upsertTodoInViews(data.markTodoCompleted);
+          return data.markTodoCompleted;
+        },
+        undoable,
+      });
+      if (result.ok && !result.undone && !result.queued && !todo.completed) {
+        await createNextOccurrence(todo);
+      }
+      return result;
+    },
+    [createNextOccurrence, runUndoable, send]
+  );
+
+  const markIncomplete = useCallback(
+    (todo: Todo, { undoable = false }: UndoableMutationOptions = {}) =>
+      runUndoable({
+        name: 'markIncomplete',
+        todo,
+        operation: { kind: 'markIncomplete', todoId: todo.id },
+        message: `Marked "${todo.title}" as incomplete`,
+        applyLocally: () =>
+          upsertTodoInViews({
+            ...(findTodoInViews(todo.id) ?? todo),
+            completed: false,
+          }),
+        sendToServer: async () => {
+          const data = await send(MARK_TODO_INCOMPLETE, { id: todo.id });
+          await upsertTodoInViews(data.markTodoIncomplete);
+          return data.markTodoIncomplete;
+        },
+        undoable,
+      }),
+    [runUndoable, send]
+  );
+
+  const forceSync = useCallback(
+    () =>
+      track(
+        'forceSync',
+        async (): Promise<TodoMutationResult<ForceSyncResult>> => {
+          try {
+            const data = await send(FORCE_SYNC, {});
+            // Whatever the server had cached is gone, so every list refetches
+            if (data.forceSync.success) {
+              await refreshTodoViews();
+            }
+            return { ok: true, data: data.forceSync, queued: false };
+          } catch (error) {
+            return failed(error);
+          }
+        }
+      ),
+    [send, track]
+  );
+
+  const loading = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(pending).map(([name, count]) => [name, count > 0])
+      ) as Record<TodoMutationName, boolean>,
+    [pending]
+  );
+
+  return {
+    create,
+    createNextOccurrence,
+    update,
+    remove,
+    markCompleted,
+    markIncomplete,
+    forceSync,
+    loading,
+    mutating: Object.values(pending).some(count => count > 0),
+  };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { Todo } from '../../apollo/types';
+
+interface SelectionState {
+  scope: unknown;
+  selected: Map<string, Todo>;
+  /** Every todo matching the filters, including rows on other pages. */
+  allMatching: boolean;
+  anchorId: string | null;
+}
+
+const emptySelection = (scope: unknown): SelectionState => ({
+  scope,
+  selected: new Map(),
+  allMatching: false,
+  anchorId: null,
+});
+
+/**
+ * Row selection for the todo table. `scope` is whatever defines the set of
+ * matching todos (the active filters); the selection clears when it changes
+ * so a bulk action never hits rows the user can no longer see.
+ */
+export function useTodoSelection(todos: Todo[], scope: unknown) {
+  const [state, setState] = useState(() => emptySelection(scope));
+  const current = state.scope === scope ? state : emptySelection(scope);
+
+  const isSelected = useCallback(
+    (id: string) => current.allMatching || current.selected.has(id),
+    [current]
+  );
+
+  /** Shift-click selects the range from the last clicked row. */
+  const toggle = useCallback(
+    (todo: Todo, range = false) => {
+      // Unticking a row narrows "all matching" down to the loaded rows
+      const selected = current.allMatching
+        ? new Map(todos.map(row => [row.id, row]))
+        : new Map(current.selected);
+      const checked = !selected.has(todo.id);
+      const anchorIndex = todos.findIndex(row => row.id === current.anchorId);
+      const index = todos.findIndex(row => row.id === todo.id);
+
+      const rows =
+        range && anchorIndex !== -1 && index !== -1
+          ? todos.slice(
+              Math.min(anchorIndex, index),
+              Math.max(anchorIndex, index) + 1
+            )
+          : [todo];
+
+      rows.forEach(row => {
+        if (checked) {
+          selected.set(row.id, row);
+        } else {
+          selected.delete(row.id);
+        }
+      });
+
+      setState({ scope, selected, allMatching: false, anchorId: todo.id });
+    },
+    [current, scope, todos]
+  );
+
+  const pageSelected =
+    todos.length > 0 && todos.every(todo => isSelected(todo.id));
+
+  const togglePage = useCallback(() => {
+    const selected = new Map(current.selected);
+    todos.forEach(todo => {
+      if (pageSelected) {
+        selected.delete(todo.id);
+      } else {
+        selected.set(todo.id, todo);
+      }
+    });
+    setState({ scope, selected, allMatching: false, anchorId: null });
+  }, [current, pageSelected, scope, todos]);
+
+  const selectAllMatching = useCallback(() => {
+    setState({ ...current, scope, allMatching: true });
+  }, [current, scope]);
+
+  /** Replaces the selection, e.g. with the rows a bulk action failed on. */
+  const selectOnly = useCallback(
+    (rows: Todo[]) => {
+      setState({
+        ...emptySelection(scope),
+        selected: new Map(rows.map(row => [row.id, row])),
+      });
+    },
+    [scope]
+  );
+
+  const clear = useCallback(() => {
+    setState(emptySelection(scope));
+  }, [scope]);
+
+  const selectedTodos = useMemo(
+    () => Array.from(current.selected.values()),
+    [current]
+  );
+
+  return {
+    selectedTodos,
+    selectedCount: current.selected.size,
+    allMatching: current.allMatching,
+    pageSelected,
+    isSelected,
+    toggle,
+    togglePage,
+    selectAllMatching,
+    selectOnly,
+    clear,
+  };
+}
@@ -0,0 +1,41 @@
+import { useCallback } from 'react';
+import type { Todo } from '../../apollo/types';
+import { findUndoableAction, undoUndoableAction } from '../undoableActions';
+import { useTodoMutations } from './useTodoMutations';
+
+/**
+ * Flips a todo between completed and open, for the row toggle and the `x`
+ * shortcut alike.
+ */
+export function useTodoStatusToggle(onError?: (message: string) => void) {
+  const { markCompleted, markIncomplete } = useTodoMutations();
+
+  return useCallback(
+    async (todo: Todo) => {
+      // Toggling back inside the undo window just cancels the first toggle
+      const pendingToggle =
+        findUndoableAction(`markCompleted:${todo.id}`) ??
+        findUndoableAction(`markIncomplete:${todo.id}`);
+      if (pendingToggle) {
+        await undoUndoableAction(pendingToggle.id);
+        return;
+      }
+
+      // The row flips right away and the server hears about it once the
+      // undo window closes. Views filtered by status drop or pick up the row.
+      const nextCompleted = !todo.completed;
+      const result = nextCompleted
+        ? await markCompleted(todo, { undoable: true })
+        : await markIncomplete(todo, { undoable: true });
+
+      if (!result.ok) {
+        onError?.(
+          `Could not mark "${todo.title}" as ${
+            nextCompleted ? 'completed' : 'incomplete'
+          }: ${result.error.message}`
+        );
+      }
+    },
+    [markCompleted, markIncomplete, onError]
+  );
+}
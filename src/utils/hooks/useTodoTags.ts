@@ -0,0 +1,13 @@
+import { useQuery } from '@apollo/client/react';
+import { GET_TODO_TAGS } from '../../apollo/operations';
+
+const NO_TAGS: string[] = [];
+
+/** Every tag in use, for suggestions in pickers and filters. */
+export function useTodoTags() {
+  const { data } = useQuery(GET_TODO_TAGS, {
+    fetchPolicy: 'cache-and-network',
+  });
+
+  return data?.todoTags ?? NO_TAGS;
+}
@@ -1,48 +1,130 @@
-import { useMemo } from 'react';
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { useApolloClient } from '@apollo/client/react';
 import { GET_TODOS, TodoSortField } from '../../apollo/operations';
-import type { Todo } from '../../apollo/types';
+import type {
+  GetTodosQuery,
+  PaginationInput,
+  Todo,
+  TodoFilterInput,
+} from '../../apollo/types';
 import { DataStructure, useEntity } from '@orbusinfinity-shared/apollo-cache';
+import type { TodoFiltersState } from './useTodoFilters';
+import {
+  consumeStaleTodoView,
+  getTodosEntityKey,
+  registerTodoView,
+  setTodoViewCache,
+} from '../todoViewRegistry';
+import {
+  connectTodoEvents,
+  getTodoEventsStatus,
+  subscribeToTodoEventsStatus,
+} from '../todoEvents';
+import { reapplyUndoableActions } from '../undoableActions';
 
-export const DEFAULT_TODOS_VARIABLES = {
+export interface TodosQueryVariables {
+  filters?: TodoFilterInput;
+  pagination: PaginationInput;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+export const DEFAULT_TODOS_VARIABLES: TodosQueryVariables = {
   pagination: {
     page: 1,
-    limit: 50,
+    limit: DEFAULT_PAGE_SIZE,
     sortBy: TodoSortField.CREATED_AT,
-    sortOrder: 'desc' as const,
+    sortOrder: 'desc',
   },
 };
 
-export interface TodosQueryData {
-  todos: {
-    data: Todo[];
+/**
+ * Builds query variables with a fixed key order so that the same toolbar
+ * state always serializes to the same entity key.
+ */
+export function buildTodosVariables(
+  filters: TodoFiltersState,
+  pagination: Pick<PaginationInput, 'page' | 'limit'> = {}
+): TodosQueryVariables {
+  const filterInput: TodoFilterInput = {};
+
+  if (filters.status !== 'all') {
+    filterInput.completed = filters.status === 'completed';
+  }
+  if (filters.priority !== 'all') {
+    filterInput.priority = filters.priority;
+  }
+  if (filters.search.trim().length > 0) {
+    filterInput.search = filters.search.trim();
+  }
+  if (filters.tags.length > 0) {
+    filterInput.tags = filters.tags;
+    filterInput.tagMatch = filters.tagMatch;
+  }
+
+  const variables: TodosQueryVariables = {
     pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-    };
+      page: pagination.page ?? 1,
+      limit: pagination.limit ?? DEFAULT_PAGE_SIZE,
+      sortBy: filters.sortBy,
+      sortOrder: filters.sortOrder,
+    },
   };
+
+  if (Object.keys(filterInput).length > 0) {
+    return { filters: filterInput, ...variables };
+  }
+
+  return variables;
+}
+
+export interface UseTodosOptions {
+  /**
+   * Keeps appending pages into one entity instead of replacing the page.
+   * Infinite lists get their own entity key so they never leak extra rows
+   * into the paged view of the same query.
+   */
+  infinite?: boolean;
 }
 
 export function useTodos(
-  variables: Record<string, unknown> = DEFAULT_TODOS_VARIABLES
+  variables: TodosQueryVariables = DEFAULT_TODOS_VARIABLES,
+  { infinite = false }: UseTodosOptions = {}
 ) {
+  const client = useApolloClient();
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
+
   const entityKey = useMemo(() => {
-    return `todos:${JSON.stringify(variables)}`;
-  }, [variables]);
+    return getTodosEntityKey(variables, infinite);
+  }, [variables, infinite]);
+
+  // Duplicates are dropped while scrolling, so the row count does not tell
+  // how many pages are loaded; a list that loads from scratch starts over
+  const firstPage = variables.pagination.page ?? 1;
+  const [loadedPage, setLoadedPage] = useState({ entityKey, page: firstPage });
+  const lastLoadedPage =
+    loadedPage.entityKey === entityKey ? loadedPage.page : firstPage;
 
   const {
     loading,
     error,
     data,
-    refresh,
+    refresh: refetch,
     addEntity: addTodo,
     updateEntity: updateTodo,
     removeEntity: removeTodo,
     upsertEntity: upsertTodo,
     replaceEntities: replaceTodos,
     updateEntityFields: updateTodoFields,
-  } = useEntity<TodosQueryData, Todo>(entityKey, GET_TODOS, {
+  } = useEntity<GetTodosQuery, Todo>(entityKey, GET_TODOS, {
     variables,
     config: {
       queryResultKey: 'todos',
@@ -54,8 +136,99 @@ export function useTodos(
     },
   });
 
-  const todos = data?.todos.data ?? [];
+  // The server still has changes that sit in an undo window
+  const refresh = useCallback(
+    async (avoidCache?: boolean) => {
+      const result: unknown = await refetch(avoidCache);
+      setLoadedPage({ entityKey, page: firstPage });
+      await reapplyUndoableActions();
+      return result;
+    },
+    [entityKey, firstPage, refetch]
+  );
+
+  const todos = useMemo(() => data?.todos.data ?? [], [data]);
   const pagination = data?.todos.pagination;
+  const hasMore =
+    pagination !== undefined &&
+    todos.length < pagination.total &&
+    lastLoadedPage < pagination.totalPages;
+
+  // The registry outlives renders, so it reads the latest values via a ref
+  const latestRef = useRef({
+    refresh,
+    todos,
+    updateTodo,
+    removeTodo,
+    replaceTodos,
+  });
+  latestRef.current = { refresh, todos, updateTodo, removeTodo, replaceTodos };
+
+  useEffect(() => {
+    setTodoViewCache(client.cache);
+  }, [client]);
+
+  useEffect(() => {
+    const unregister = registerTodoView({
+      entityKey,
+      variables,
+      infinite,
+      refresh: avoidCache => latestRef.current.refresh(avoidCache),
+      getTodos: () => latestRef.current.todos,
+      updateTodo: todo => latestRef.current.updateTodo(todo),
+      removeTodo: id => latestRef.current.removeTodo(id),
+      replaceTodos: nextTodos => latestRef.current.replaceTodos(nextTodos),
+    });
+
+    if (consumeStaleTodoView(entityKey)) {
+      latestRef.current.refresh(true).catch((err: unknown) => {
+        // eslint-disable-next-line no-console
+        console.error('Error refreshing stale todos:', err);
+      });
+    }
+
+    return unregister;
+  }, [entityKey, variables, infinite]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loadingMoreRef.current) {
+      return;
+    }
+
+    const nextPage = lastLoadedPage + 1;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const { data: pageData } = await client.query({
+        query: GET_TODOS,
+        variables: {
+          ...variables,
+          pagination: { ...variables.pagination, page: nextPage },
+        },
+        fetchPolicy: 'network-only',
+      });
+
+      // Rows can shift between pages while scrolling, so skip duplicates
+      const knownIds = new Set(todos.map(todo => todo.id));
+      const incoming = pageData.todos.data.filter(
+        todo => !knownIds.has(todo.id)
+      );
+      await replaceTodos([...todos, ...incoming]);
+      setLoadedPage({ entityKey, page: nextPage });
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [
+    client,
+    entityKey,
+    hasMore,
+    lastLoadedPage,
+    replaceTodos,
+    todos,
+    variables,
+  ]);
 
   return {
     loading,
@@ -65,6 +238,10 @@ export function useTodos(
     refresh,
     entityKey,
 
+    hasMore,
+    loadMore,
+    loadingMore,
+
     addTodo,
     updateTodo,
     removeTodo,
@@ -74,22 +251,32 @@ export function useTodos(
   };
 }
 
+/**
+ * Keeps the mounted todo lists in step with changes made elsewhere, via
+ * subscriptions when a WebSocket endpoint is configured or in mock mode, and
+ * polling when not. All callers share one connection.
+ */
 export function useTodoEvents(
-  variables: Record<string, unknown> = DEFAULT_TODOS_VARIABLES
+  variables: TodosQueryVariables = DEFAULT_TODOS_VARIABLES
 ) {
+  const client = useApolloClient();
   const entityKey = useMemo(() => {
-    return `todos:${JSON.stringify(variables)}`;
+    return getTodosEntityKey(variables);
   }, [variables]);
 
-  return { entityKey };
-}
+  useEffect(() => connectTodoEvents(client), [client]);
 
-export function useTodoMutations(
-  variables: Record<string, unknown> = DEFAULT_TODOS_VARIABLES
-) {
-  const entityKey = useMemo(() => {
-    return `todos:${JSON.stringify(variables)}`;
-  }, [variables]);
+  const status = useSyncExternalStore(
+    subscribeToTodoEventsStatus,
+    getTodoEventsStatus
+  );
 
-  return { entityKey };
+  return { entityKey, status };
 }
+
+export { useTodoMutations } from './useTodoMutations';
+export type {
+  TodoMutationName,
+  TodoMutationResult,
+  UndoableMutationOptions,
+} from './useTodoMutations';
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  getUndoableActions,
+  persistUndoableActions,
+  subscribeToUndoableActions,
+  undoUndoableAction,
+} from '../undoableActions';
+
+export function useUndoableActions() {
+  const actions = useSyncExternalStore(
+    subscribeToUndoableActions,
+    getUndoableActions
+  );
+
+  // Nothing may be lost when the tab closes inside an undo window
+  useEffect(() => {
+    window.addEventListener('pagehide', persistUndoableActions);
+    return () => {
+      window.removeEventListener('pagehide', persistUndoableActions);
+    };
+  }, []);
+
+  const undo = useCallback(async (id: string) => {
+    try {
+      await undoUndoableAction(id);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Error undoing change:', err);
+    }
+  }, []);
+
+  return { actions, undo };
+}
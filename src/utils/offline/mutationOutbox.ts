@@ -0,0 +1,308 @@
+import type { ApolloClient } from '@apollo/client';
+import {
+  CREATE_TODO,
+  DELETE_TODO,
+  GET_TODO_STATS,
+  MARK_TODO_COMPLETED,
+  MARK_TODO_INCOMPLETE,
+  UPDATE_TODO,
+} from '../../apollo/operations';
+import { TodoPriority } from '../../apollo/types';
+import type {
+  CreateTodoInput,
+  Subtask,
+  SubtaskInput,
+  Todo,
+  UpdateTodoInput,
+} from '../../apollo/types';
+import { readStoredJson, writeStoredJson } from '../storage';
+import { continueRecurringTodo } from '../todoOccurrences';
+import { refreshTodoViews } from '../todoViewRegistry';
+import { normalizeTags } from '../todoTags';
+
+export type OutboxOperation =
+  | { kind: 'create'; tempId: string; input: CreateTodoInput }
+  | { kind: 'update'; todoId: string; input: UpdateTodoInput }
+  | { kind: 'delete'; todoId: string }
+  | { kind: 'markCompleted'; todoId: string }
+  | { kind: 'markIncomplete'; todoId: string };
+
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  title: string;
+  createdAt: string;
+  status: 'pending' | 'failed';
+  error?: string;
+}
+
+const OUTBOX_STORAGE_KEY = 'outbox';
+const TEMP_ID_PREFIX = 'temp-';
+
+let entries: OutboxEntry[] =
+  readStoredJson<OutboxEntry[]>(OUTBOX_STORAGE_KEY) ?? [];
+let replaying = false;
+const listeners = new Set<() => void>();
+
+const setEntries = (nextEntries: OutboxEntry[]) => {
+  entries = nextEntries;
+  writeStoredJson(OUTBOX_STORAGE_KEY, entries);
+  listeners.forEach(listener => {
+    listener();
+  });
+};
+
+const createId = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const createTempTodoId = () => `${TEMP_ID_PREFIX}${createId()}`;
+
+export const isTempTodoId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+export const getOperationTodoId = (operation: OutboxOperation) =>
+  operation.kind === 'create' ? operation.tempId : operation.todoId;
+
+export const isOffline = () => !navigator.onLine;
+
+/** A request that never reached the server, as opposed to a rejected one. */
+export const isNetworkError = (error: unknown) => {
+  if (isOffline()) {
+    return true;
+  }
+  if (error instanceof TypeError) {
+    return true;
+  }
+  const { networkError, graphQLErrors } = error as {
+    networkError?: unknown;
+    graphQLErrors?: readonly unknown[];
+  };
+  return Boolean(networkError) && (graphQLErrors?.length ?? 0) === 0;
+};
+
+export const subscribeToOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getOutboxEntries = () => entries;
+
+export function enqueueOutboxOperation(
+  operation: OutboxOperation,
+  title: string
+) {
+  const entry: OutboxEntry = {
+    id: createId(),
+    operation,
+    title,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  setEntries([...entries, entry]);
+  return entry;
+}
+
+export function discardOutboxEntry(entryId: string) {
+  setEntries(entries.filter(entry => entry.id !== entryId));
+}
+
+export function retryOutboxEntry(entryId: string) {
+  setEntries(
+    entries.map(entry =>
+      entry.id === entryId
+        ? { ...entry, status: 'pending', error: undefined }
+        : entry
+    )
+  );
+}
+
+/** Checklist items as the server will return them, new ones under temp IDs. */
+const toPendingSubtasks = (inputs?: SubtaskInput[] | null): Subtask[] =>
+  (inputs ?? []).map(input => ({
+    __typename: 'Subtask',
+    id: input.id ?? createTempTodoId(),
+    title: input.title,
+    completed: input.completed ?? false,
+  }));
+
+/** Builds the placeholder row shown in lists until the create is replayed. */
+export function createPendingTodo(tempId: string, input: CreateTodoInput) {
+  const now = new Date().toISOString();
+  const todo: Todo = {
+    id: tempId,
+    title: input.title,
+    description: input.description,
+    completed: false,
+    priority: input.priority ?? TodoPriority.MEDIUM,
+    dueDate: input.dueDate,
+    recurrence: input.recurrence,
+    subtasks: toPendingSubtasks(input.subtasks),
+    tags: normalizeTags(input.tags ?? []),
+    createdAt: now,
+    updatedAt: now,
+  };
+  return todo;
+}
+
+/** Applies an update locally the way the server will, including clears. */
+export function applyPendingUpdate(todo: Todo, input: UpdateTodoInput): Todo {
+  // Only `null` clears a field; omitted ones keep their current value
+  return {
+    ...todo,
+    title: input.title ?? todo.title,
+    description:
+      input.description === undefined ? todo.description : input.description,
+    completed: input.completed ?? todo.completed,
+    priority: input.priority ?? todo.priority,
+    dueDate: input.dueDate === undefined ? todo.dueDate : input.dueDate,
+    recurrence:
+      input.recurrence === undefined ? todo.recurrence : input.recurrence,
+    subtasks:
+      input.subtasks === undefined
+        ? todo.subtasks
+        : toPendingSubtasks(input.subtasks),
+    tags: input.tags ? normalizeTags(input.tags) : todo.tags,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+const runOperation = async (
+  client: ApolloClient,
+  operation: OutboxOperation,
+  resolveId: (id: string) => string
+): Promise<string | undefined> => {
+  if (operation.kind === 'create') {
+    const { data } = await client.mutate({
+      mutation: CREATE_TODO,
+      variables: { input: operation.input },
+    });
+    return data?.createTodo.id;
+  }
+
+  const id = resolveId(operation.todoId);
+
+  // Completions sent late, including ones flushed as the page closed,
+  // schedule the next occurrence of recurring todos here
+  switch (operation.kind) {
+    case 'update': {
+      const { data } = await client.mutate({
+        mutation: UPDATE_TODO,
+        variables: { id, input: operation.input },
+      });
+      if (data && operation.input.completed) {
+        await continueRecurringTodo(client, data.updateTodo);
+      }
+      break;
+    }
+    case 'delete': {
+      const { data } = await client.mutate({
+        mutation: DELETE_TODO,
+        variables: { id },
+      });
+      if (data && !data.deleteTodo.success) {
+        throw new Error(data.deleteTodo.message || 'Failed to delete todo');
+      }
+      break;
+    }
+    case 'markCompleted': {
+      const { data } = await client.mutate({
+        mutation: MARK_TODO_COMPLETED,
+        variables: { id },
+      });
+      if (data) {
+        await continueRecurringTodo(client, data.markTodoCompleted);
+      }
+      break;
+    }
+    case 'markIncomplete':
+      await client.mutate({
+        mutation: MARK_TODO_INCOMPLETE,
+        variables: { id },
+      });
+      break;
+  }
+
+  return undefined;
+};
+
+/**
+ * Sends queued operations to the server in the order they were made.
+ * Replay stops at the first failure so later operations never run against
+ * state the user has not seen yet; the failed entry waits for a retry or
+ * discard. Returns the number of operations that were sent successfully.
+ */
+export async function replayOutbox(client: ApolloClient) {
+  if (replaying || isOffline()) {
+    return 0;
+  }
+
+  replaying = true;
+  // Todos created offline get real IDs; later operations must use those
+  const createdIds = new Map<string, string>();
+  const resolveId = (id: string) => createdIds.get(id) ?? id;
+  let replayed = 0;
+
+  try {
+    for (const entry of [...entries]) {
+      if (entry.status === 'failed') {
+        break;
+      }
+
+      try {
+        const createdId = await runOperation(
+          client,
+          entry.operation,
+          resolveId
+        );
+        if (entry.operation.kind === 'create' && createdId !== undefined) {
+          createdIds.set(entry.operation.tempId, createdId);
+        }
+        replayed += 1;
+        setEntries(
+          entries
+            .filter(current => current.id !== entry.id)
+            .map(current => {
+              const todoId = getOperationTodoId(current.operation);
+              if (current.operation.kind === 'create') {
+                return current;
+              }
+              return {
+                ...current,
+                operation: { ...current.operation, todoId: resolveId(todoId) },
+              };
+            })
+        );
+      } catch (error) {
+        // Still offline: leave it pending for the next reconnect
+        if (isNetworkError(error)) {
+          break;
+        }
+        setEntries(
+          entries.map(current =>
+            current.id === entry.id
+              ? {
+                  ...current,
+                  status: 'failed',
+                  error: (error as Error).message || 'Unknown error',
+                }
+              : current
+          )
+        );
+        break;
+      }
+    }
+  } finally {
+    replaying = false;
+  }
+
+  if (replayed > 0) {
+    // Swap placeholder rows for server data in every cached list
+    await refreshTodoViews();
+    await client.refetchQueries({ include: [GET_TODO_STATS] });
+  }
+
+  return replayed;
+}
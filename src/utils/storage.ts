@@ -0,0 +1,19 @@
+export const STORAGE_KEY_PREFIX = 'remote-1:todos:';
+
+export function readStoredJson<T>(key: string): T | null {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEY_PREFIX}${key}`);
+    return stored !== null ? (JSON.parse(stored) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeStoredJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(`${STORAGE_KEY_PREFIX}${key}`, JSON.stringify(value));
+  } catch {
+    // Storage can be unavailable (private mode, quota); callers keep working
+    // with their in-memory state
+  }
+}
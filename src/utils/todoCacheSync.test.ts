@@ -0,0 +1,209 @@
+import { InMemoryCache } from '@apollo/client';
+import { GET_TODOS } from '../apollo/operations';
+import { TodoPriority, TodoSortField } from '../apollo/types';
+import type { Todo } from '../apollo/types';
+import type { TodosQueryVariables } from './hooks/useTodos';
+import {
+  captureTodoPositions,
+  removeTodoFromViews,
+  restoreTodoPositions,
+  upsertTodoInViews,
+} from './todoCacheSync';
+import { setTodoViewCache } from './todoViewRegistry';
+import {
+  reapplyUndoableActions,
+  scheduleUndoableAction,
+  undoUndoableAction,
+} from './undoableActions';
+
+const makeTodo = (overrides: Partial<Todo>): Todo => ({
+  __typename: 'Todo',
+  id: 'todo-1',
+  title: 'Write release notes',
+  description: null,
+  completed: false,
+  priority: TodoPriority.MEDIUM,
+  dueDate: null,
+  recurrence: null,
+  subtasks: [],
+  tags: [],
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const variablesFor = (completed: boolean, page = 1): TodosQueryVariables => ({
+  filters: { completed },
+  pagination: {
+    page,
+    limit: 2,
+    sortBy: TodoSortField.CREATED_AT,
+    sortOrder: 'desc',
+  },
+});
+
+let cache: InMemoryCache;
+
+const writeList = (
+  variables: TodosQueryVariables,
+  todos: Todo[],
+  total = todos.length
+) => {
+  cache.writeQuery({
+    query: GET_TODOS,
+    variables,
+    data: {
+      todos: {
+        __typename: 'TodosResponse',
+        data: todos,
+        pagination: {
+          __typename: 'PaginationInfo',
+          page: 1,
+          limit: 2,
+          total,
+          totalPages: Math.ceil(total / 2),
+        },
+      },
+    },
+  });
+};
+
+const readList = (variables: TodosQueryVariables) => {
+  const todos = cache.readQuery({ query: GET_TODOS, variables })?.todos;
+  return {
+    ids: todos?.data.map(todo => todo.id),
+    total: todos?.pagination.total,
+    totalPages: todos?.pagination.totalPages,
+  };
+};
+
+const first = makeTodo({ id: 'a', createdAt: '2024-03-03T00:00Z' });
+const second = makeTodo({ id: 'b', createdAt: '2024-03-02T00:00Z' });
+
+// Lists restored from storage; no view is mounted
+beforeEach(() => {
+  cache = new InMemoryCache();
+  setTodoViewCache(cache);
+  writeList(variablesFor(false), [first, second], 3);
+  writeList(variablesFor(true), []);
+});
+
+describe('syncTodoChange', () => {
+  it('updates cached lists that are not mounted, totals included', async () => {
+    const created = makeTodo({ id: 'c', createdAt: '2024-03-04T00:00Z' });
+    await upsertTodoInViews(created, true);
+    expect(readList(variablesFor(false))).toEqual({
+      ids: ['c', 'a'],
+      total: 4,
+      totalPages: 2,
+    });
+
+    // The row it pushed off the full page comes back on the next fetch
+    await upsertTodoInViews({ ...created, completed: true });
+    expect(readList(variablesFor(false))).toEqual({
+      ids: ['a'],
+      total: 3,
+      totalPages: 2,
+    });
+    expect(readList(variablesFor(true))).toEqual({
+      ids: ['c'],
+      total: 1,
+      totalPages: 1,
+    });
+
+    await removeTodoFromViews('c');
+    expect(readList(variablesFor(true))).toEqual({
+      ids: [],
+      total: 0,
+      totalPages: 0,
+    });
+  });
+
+  it('only inserts into a later page between its first and last rows', async () => {
+    const third = makeTodo({ id: 'd', createdAt: '2024-02-20T00:00Z' });
+    const fourth = makeTodo({ id: 'e', createdAt: '2024-02-10T00:00Z' });
+    writeList(variablesFor(false), [first, second], 4);
+    writeList(variablesFor(false, 2), [third, fourth], 4);
+
+    await upsertTodoInViews(
+      makeTodo({ id: 'f', createdAt: '2024-02-15T00:00Z' }),
+      true
+    );
+    expect(readList(variablesFor(false, 2))).toEqual({
+      ids: ['d', 'f'],
+      total: 5,
+      totalPages: 3,
+    });
+
+    // Page 1 shows the new first todo; page 2 can't tell which row it gains
+    await upsertTodoInViews(
+      makeTodo({ id: 'c', createdAt: '2024-03-04T00:00Z' }),
+      true
+    );
+    expect(readList(variablesFor(false)).ids).toEqual(['c', 'a']);
+    expect(readList(variablesFor(false, 2)).ids).toBeUndefined();
+  });
+
+  it('leaves totals alone for todos no list has loaded', async () => {
+    // Edited elsewhere and sorted onto a later page
+    await upsertTodoInViews(
+      makeTodo({ id: 'z', createdAt: '2024-01-01T00:00Z' })
+    );
+    await removeTodoFromViews('y');
+    expect(readList(variablesFor(false))).toEqual({
+      ids: ['a', 'b'],
+      total: 3,
+      totalPages: 2,
+    });
+  });
+});
+
+describe('restoreTodoPositions', () => {
+  it('puts removed todos back and recounts them', async () => {
+    const positions = captureTodoPositions(['a']);
+    await removeTodoFromViews('a');
+    expect(readList(variablesFor(false)).total).toBe(2);
+
+    await restoreTodoPositions(positions, [first]);
+    expect(readList(variablesFor(false))).toEqual({
+      ids: ['a', 'b'],
+      total: 3,
+      totalPages: 2,
+    });
+  });
+});
+
+describe('changes in an undo window', () => {
+  const deleteWithUndo = async (todo: Todo) => {
+    const positions = captureTodoPositions([todo.id]);
+    await removeTodoFromViews(todo.id);
+    return scheduleUndoableAction({
+      key: `remove:${todo.id}`,
+      message: `Deleted "${todo.title}"`,
+      commit: () => Promise.resolve(),
+      undo: () => restoreTodoPositions(positions, [todo]),
+      reapply: () => removeTodoFromViews(todo.id),
+      persist: () => undefined,
+    });
+  };
+
+  it('stay applied when the lists are replaced', async () => {
+    const undoFirst = await deleteWithUndo(first);
+    const undoSecond = await deleteWithUndo(second);
+
+    // A poll brings back the server's lists, deletes not yet sent
+    writeList(variablesFor(false), [first, second], 3);
+    await reapplyUndoableActions();
+    expect(readList(variablesFor(false))).toEqual({
+      ids: [],
+      total: 1,
+      totalPages: 1,
+    });
+
+    // Undoing one brings back only that one
+    await undoUndoableAction(undoSecond);
+    expect(readList(variablesFor(false)).ids).toEqual(['b']);
+    await undoUndoableAction(undoFirst);
+    expect(readList(variablesFor(false)).ids).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,456 @@
+import { GET_TODOS } from '../apollo/operations';
+import { TodoPriority, TodoSortField } from '../apollo/types';
+import type {
+  PaginationInput,
+  Todo,
+  TodoFilterInput,
+  TodosResponse,
+} from '../apollo/types';
+import type { TodosQueryVariables } from './hooks/useTodos';
+import {
+  getTodosFieldKey,
+  getTodoViewCache,
+  getTodoViews,
+  markTodoViewStale,
+} from './todoViewRegistry';
+import type { TodoView } from './todoViewRegistry';
+import { tagsMatch } from './todoTags';
+import { reapplyUndoableActions } from './undoableActions';
+
+/**
+ * Keeps every cached `todos:*` list coherent after a mutation. Each list
+ * re-applies its own filter and sort to the changed todo, so an edit can
+ * move a row, drop it from views it no longer matches, or add it to views
+ * it now belongs in, and its total follows. Lists that are not mounted are
+ * updated in the cache and refreshed on next mount.
+ */
+export type TodoChange =
+  /** `created` counts a todo no list has loaded yet towards the totals. */
+  | { type: 'upsert'; todo: Todo; created?: boolean }
+  | { type: 'remove'; id: string };
+
+const PRIORITY_RANK: Record<TodoPriority, number> = {
+  [TodoPriority.LOW]: 0,
+  [TodoPriority.MEDIUM]: 1,
+  [TodoPriority.HIGH]: 2,
+  [TodoPriority.URGENT]: 3,
+};
+
+export function todoMatchesFilters(todo: Todo, filters?: TodoFilterInput) {
+  if (!filters) {
+    return true;
+  }
+  if (
+    typeof filters.completed === 'boolean' &&
+    todo.completed !== filters.completed
+  ) {
+    return false;
+  }
+  if (filters.priority && todo.priority !== filters.priority) {
+    return false;
+  }
+  if (filters.search) {
+    const search = filters.search.toLowerCase();
+    const haystack = `${todo.title} ${todo.description ?? ''}`.toLowerCase();
+    if (!haystack.includes(search)) {
+      return false;
+    }
+  }
+  if (
+    filters.tags &&
+    !tagsMatch(todo.tags, filters.tags, filters.tagMatch ?? undefined)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+const compareOptionalDates = (a?: string | null, b?: string | null) => {
+  if (a === b) {
+    return 0;
+  }
+  if (!a) {
+    return 1;
+  }
+  if (!b) {
+    return -1;
+  }
+  return new Date(a).getTime() - new Date(b).getTime();
+};
+
+const byTime = (a: string, b: string) =>
+  new Date(a).getTime() - new Date(b).getTime();
+
+const COMPARATORS: Record<TodoSortField, (a: Todo, b: Todo) => number> = {
+  [TodoSortField.TITLE]: (a, b) => a.title.localeCompare(b.title),
+  [TodoSortField.PRIORITY]: (a, b) =>
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority],
+  [TodoSortField.DUE_DATE]: (a, b) =>
+    compareOptionalDates(a.dueDate, b.dueDate),
+  [TodoSortField.CREATED_AT]: (a, b) => byTime(a.createdAt, b.createdAt),
+  [TodoSortField.UPDATED_AT]: (a, b) => byTime(a.updatedAt, b.updatedAt),
+};
+
+export function compareTodos(
+  a: Todo,
+  b: Todo,
+  pagination: PaginationInput = {}
+) {
+  const sortBy = pagination.sortBy ?? TodoSortField.CREATED_AT;
+  const direction = pagination.sortOrder === 'asc' ? 1 : -1;
+  const result = COMPARATORS[sortBy](a, b);
+
+  // Undated todos stay last in both directions
+  if (sortBy === TodoSortField.DUE_DATE && (!a.dueDate || !b.dueDate)) {
+    return result;
+  }
+  return direction * result;
+}
+
+/**
+ * Whether a later page can't place the upserted todo: it sorts before the
+ * page's first row, so it belongs on an earlier page and pushes a row from
+ * there onto this one. Only a refetch knows which row that is.
+ */
+export function sortsBeforePage(
+  todos: Todo[],
+  change: TodoChange,
+  variables: TodosQueryVariables,
+  infinite = false
+) {
+  if (
+    infinite ||
+    (variables.pagination.page ?? 1) <= 1 ||
+    change.type === 'remove' ||
+    !todoMatchesFilters(change.todo, variables.filters)
+  ) {
+    return false;
+  }
+  const rows = todos.filter(todo => todo.id !== change.todo.id);
+  return (
+    rows.length === 0 ||
+    compareTodos(change.todo, rows[0], variables.pagination) <= 0
+  );
+}
+
+/** Returns the list a view should show after the change, or null if unchanged. */
+export function applyTodoChangeToList(
+  todos: Todo[],
+  change: TodoChange,
+  variables: TodosQueryVariables,
+  infinite = false
+): Todo[] | null {
+  const id = change.type === 'upsert' ? change.todo.id : change.id;
+  const withoutTodo = todos.filter(todo => todo.id !== id);
+
+  if (
+    change.type === 'remove' ||
+    !todoMatchesFilters(change.todo, variables.filters) ||
+    sortsBeforePage(todos, change, variables, infinite)
+  ) {
+    return withoutTodo.length === todos.length ? null : withoutTodo;
+  }
+
+  const { todo } = change;
+  const insertAt = withoutTodo.findIndex(
+    existing => compareTodos(todo, existing, variables.pagination) < 0
+  );
+  const limit = variables.pagination.limit ?? undefined;
+  const pageIsFull =
+    !infinite && limit !== undefined && withoutTodo.length >= limit;
+
+  // Sorting past the last row of a full page means it lives on a later page
+  if (insertAt === -1 && pageIsFull) {
+    return withoutTodo.length === todos.length ? null : withoutTodo;
+  }
+
+  const position = insertAt === -1 ? withoutTodo.length : insertAt;
+  const next = [
+    ...withoutTodo.slice(0, position),
+    todo,
+    ...withoutTodo.slice(position),
+  ];
+
+  return pageIsFull ? next.slice(0, limit) : next;
+}
+
+const sameOrder = (a: Todo[], b: Todo[]) =>
+  a.length === b.length && a.every((todo, index) => todo.id === b[index].id);
+
+const readCachedTodos = (variables: TodosQueryVariables) =>
+  getTodoViewCache()?.readQuery({ query: GET_TODOS, variables })?.todos.data ??
+  null;
+
+const writeCachedTodos = (variables: TodosQueryVariables, todos: Todo[]) => {
+  getTodoViewCache()?.updateQuery({ query: GET_TODOS, variables }, data =>
+    data ? { ...data, todos: { ...data.todos, data: todos } } : data
+  );
+};
+
+// The next read misses and fetches the list again
+const dropCachedTodos = (variables: TodosQueryVariables) => {
+  getTodoViewCache()?.evict({
+    id: 'ROOT_QUERY',
+    fieldName: 'todos',
+    args: variables,
+  });
+};
+
+const getViewTodos = ({ variables, handle }: TodoView) =>
+  handle ? handle.getTodos() : readCachedTodos(variables);
+
+const findTodo = (views: TodoView[], id: string) => {
+  for (const view of views) {
+    const todo = getViewTodos(view)?.find(candidate => candidate.id === id);
+    if (todo) {
+      return todo;
+    }
+  }
+  return undefined;
+};
+
+/** Lists a mounted view keeps in step itself; the cache holds the rest. */
+const getMountedFieldKeys = (views: TodoView[]) =>
+  new Set(
+    views.flatMap(({ variables, handle }) =>
+      handle ? [getTodosFieldKey(variables)] : []
+    )
+  );
+
+interface TodoTransition {
+  before?: Todo;
+  after?: Todo;
+}
+
+const countMatching = (
+  todo: Todo | undefined,
+  variables: TodosQueryVariables
+) => (todo && todoMatchesFilters(todo, variables.filters) ? 1 : 0);
+
+/**
+ * Moves each list's total by the todos that started or stopped matching
+ * it, whichever page they are on. Paged and infinite views of the same
+ * query share one cached total, so each is adjusted once.
+ */
+const adjustTotals = (views: TodoView[], transitions: TodoTransition[]) => {
+  const cache = getTodoViewCache();
+  const adjusted = new Set<string>();
+
+  views.forEach(({ variables }) => {
+    const fieldKey = getTodosFieldKey(variables);
+    const delta = transitions.reduce(
+      (sum, { before, after }) =>
+        sum +
+        countMatching(after, variables) -
+        countMatching(before, variables),
+      0
+    );
+    if (!cache || delta === 0 || adjusted.has(fieldKey)) {
+      return;
+    }
+    adjusted.add(fieldKey);
+
+    cache.modify<{ todos: TodosResponse }>({
+      id: 'ROOT_QUERY',
+      fields: {
+        todos: (existing, { storeFieldName, isReference }) => {
+          if (
+            storeFieldName !== fieldKey ||
+            isReference(existing) ||
+            isReference(existing.pagination)
+          ) {
+            return existing;
+          }
+          const { limit } = existing.pagination;
+          const total = Math.max(0, existing.pagination.total + delta);
+          return {
+            ...existing,
+            pagination: {
+              ...existing.pagination,
+              total,
+              totalPages: limit > 0 ? Math.ceil(total / limit) : 0,
+            },
+          };
+        },
+      },
+    });
+  });
+};
+
+export async function syncTodoChange(change: TodoChange) {
+  const updates: Promise<unknown>[] = [];
+  const views = getTodoViews();
+  const mountedFieldKeys = getMountedFieldKeys(views);
+
+  // A todo no list has loaded may still be counted on a later page
+  const id = change.type === 'upsert' ? change.todo.id : change.id;
+  const created = change.type === 'upsert' && change.created === true;
+  const before = findTodo(views, id);
+  const after = change.type === 'upsert' ? change.todo : undefined;
+  const transitions = before || created ? [{ before, after }] : [];
+
+  views.forEach(({ entityKey, variables, handle }) => {
+    if (!handle) {
+      markTodoViewStale(entityKey);
+      const cached = mountedFieldKeys.has(getTodosFieldKey(variables))
+        ? null
+        : readCachedTodos(variables);
+      if (cached && sortsBeforePage(cached, change, variables)) {
+        dropCachedTodos(variables);
+        return;
+      }
+      const next = cached && applyTodoChangeToList(cached, change, variables);
+      if (next) {
+        writeCachedTodos(variables, next);
+      }
+      return;
+    }
+
+    const current = handle.getTodos();
+    if (sortsBeforePage(current, change, variables, handle.infinite)) {
+      updates.push(handle.refresh(true));
+      return;
+    }
+    const next = applyTodoChangeToList(
+      current,
+      change,
+      variables,
+      handle.infinite
+    );
+    if (next === null) {
+      return;
+    }
+
+    // Prefer the targeted entity operations; only reorders need a replace
+    if (change.type === 'upsert' && sameOrder(current, next)) {
+      updates.push(handle.updateTodo(change.todo));
+    } else if (
+      next.length === current.length - 1 &&
+      sameOrder(
+        current.filter(todo => next.some(kept => kept.id === todo.id)),
+        next
+      )
+    ) {
+      const removed = current.find(
+        todo => !next.some(kept => kept.id === todo.id)
+      );
+      if (removed) {
+        updates.push(handle.removeTodo(removed.id));
+      }
+    } else {
+      updates.push(handle.replaceTodos(next));
+    }
+  });
+
+  await Promise.all(updates);
+  adjustTotals(views, transitions);
+}
+
+/** The todo as some list currently shows it, if any list does. */
+export const findTodoInViews = (id: string) => findTodo(getTodoViews(), id);
+
+export const upsertTodoInViews = (todo: Todo, created = false) =>
+  syncTodoChange({ type: 'upsert', todo, created });
+
+export const removeTodoFromViews = (id: string) =>
+  syncTodoChange({ type: 'remove', id });
+
+/** Where each todo sat in each mounted view, keyed by entity key then id. */
+export type TodoPositions = Map<string, Map<string, number>>;
+
+export function captureTodoPositions(ids: string[]): TodoPositions {
+  const positions: TodoPositions = new Map();
+
+  getTodoViews().forEach(({ entityKey, handle }) => {
+    if (!handle) {
+      return;
+    }
+    const viewPositions = new Map<string, number>();
+    handle.getTodos().forEach((todo, index) => {
+      if (ids.includes(todo.id)) {
+        viewPositions.set(todo.id, index);
+      }
+    });
+    positions.set(entityKey, viewPositions);
+  });
+
+  return positions;
+}
+
+/**
+ * Undoes a change by putting the original todos back at the index they had
+ * in each view. Views that did not show a todo before re-apply their filter
+ * to it, which drops rows the change had added. Other changes still in
+ * their undo window are applied again on top.
+ */
+export async function restoreTodoPositions(
+  positions: TodoPositions,
+  originals: Todo[]
+) {
+  const updates: Promise<unknown>[] = [];
+  const views = getTodoViews();
+  const mountedFieldKeys = getMountedFieldKeys(views);
+  const restoreIds = new Set(originals.map(todo => todo.id));
+  // Todos the change removed everywhere are simply missing now
+  const transitions = originals.map(todo => ({
+    before: findTodo(views, todo.id),
+    after: todo,
+  }));
+
+  views.forEach(({ entityKey, variables, handle }) => {
+    if (!handle) {
+      markTodoViewStale(entityKey);
+      const cached = mountedFieldKeys.has(getTodosFieldKey(variables))
+        ? null
+        : readCachedTodos(variables);
+      if (cached) {
+        writeCachedTodos(
+          variables,
+          originals.reduce(
+            (next, todo) =>
+              applyTodoChangeToList(
+                next,
+                { type: 'upsert', todo },
+                variables
+              ) ?? next,
+            cached.filter(todo => !restoreIds.has(todo.id))
+          )
+        );
+      }
+      return;
+    }
+
+    const viewPositions = positions.get(entityKey);
+    let next = handle.getTodos().filter(todo => !restoreIds.has(todo.id));
+
+    // Insert lowest index first so earlier rows do not shift later ones
+    const placed = originals
+      .filter(todo => viewPositions?.has(todo.id))
+      .sort(
+        (a, b) =>
+          (viewPositions?.get(a.id) ?? 0) - (viewPositions?.get(b.id) ?? 0)
+      );
+    placed.forEach(todo => {
+      const index = Math.min(viewPositions?.get(todo.id) ?? 0, next.length);
+      next = [...next.slice(0, index), todo, ...next.slice(index)];
+    });
+
+    originals
+      .filter(todo => !viewPositions?.has(todo.id))
+      .forEach(todo => {
+        next =
+          applyTodoChangeToList(
+            next,
+            { type: 'upsert', todo },
+            variables,
+            handle.infinite
+          ) ?? next;
+      });
+
+    updates.push(handle.replaceTodos(next));
+  });
+
+  await Promise.all(updates);
+  adjustTotals(views, transitions);
+  await reapplyUndoableActions();
+}
@@ -0,0 +1,385 @@
+/**
+ * @jest-environment jsdom
+ * @jest-environment-options {"customExportConditions": ["node", "require"]}
+ */
+import { readFileSync } from 'fs';
+import { ApolloClient, InMemoryCache } from '@apollo/client';
+import type { AddressInfo } from 'net';
+import { join } from 'path';
+import { buildSchema } from 'graphql';
+import { CloseCode, makeServer } from 'graphql-ws';
+import { WebSocketServer } from 'ws';
+import { TodoPriority, TodoSortField } from '../apollo/types';
+import type { Todo } from '../apollo/types';
+import type { TodosQueryVariables } from './hooks/useTodos';
+import type * as TodoEvents from './todoEvents';
+import type * as TodoViewRegistry from './todoViewRegistry';
+import type { TodoViewHandle } from './todoViewRegistry';
+
+const schema = buildSchema(
+  readFileSync(join(__dirname, '../apollo/schema.graphql'), 'utf8')
+);
+
+const makeTodo = (overrides: Partial<Todo>): Todo => ({
+  id: 'todo-1',
+  title: 'Write release notes',
+  description: null,
+  completed: false,
+  priority: TodoPriority.MEDIUM,
+  dueDate: null,
+  recurrence: null,
+  subtasks: [],
+  tags: [],
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const variablesFor = (completed: boolean): TodosQueryVariables => ({
+  filters: { completed },
+  pagination: {
+    page: 1,
+    limit: 10,
+    sortBy: TodoSortField.CREATED_AT,
+    sortOrder: 'desc',
+  },
+});
+
+/** A mounted list that keeps its rows in memory, as `useTodos` would. */
+const createView = (
+  entityKey: string,
+  variables: TodosQueryVariables,
+  initial: Todo[] = []
+) => {
+  let todos = initial;
+  const handle: TodoViewHandle = {
+    entityKey,
+    variables,
+    infinite: false,
+    refresh: jest.fn(() => Promise.resolve()),
+    getTodos: () => todos,
+    updateTodo: todo => {
+      todos = todos.map(existing =>
+        existing.id === todo.id ? todo : existing
+      );
+      return Promise.resolve();
+    },
+    removeTodo: id => {
+      todos = todos.filter(todo => todo.id !== id);
+      return Promise.resolve();
+    },
+    replaceTodos: next => {
+      todos = next;
+      return Promise.resolve();
+    },
+  };
+  return { handle, ids: () => todos.map(todo => todo.id) };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 4000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for the condition');
+    }
+    await new Promise(resolve => {
+      setTimeout(resolve, 10);
+    });
+  }
+};
+
+/** Loads fresh module state; the WebSocket URL is read at import time. */
+const loadModules = async (wsUrl: string) => {
+  jest.resetModules();
+  process.env.REACT_APP_GRAPHQL_WS_URL = wsUrl;
+  const events: typeof TodoEvents = await import('./todoEvents');
+  const registry: typeof TodoViewRegistry = await import('./todoViewRegistry');
+  return { events, registry };
+};
+
+afterEach(() => {
+  delete process.env.REACT_APP_GRAPHQL_WS_URL;
+  delete process.env.REACT_APP_MOCK_API;
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially with jitter up to a cap', async () => {
+    const { events } = await loadModules('');
+    const random = jest.spyOn(Math, 'random');
+
+    random.mockReturnValue(0);
+    expect(events.getRetryDelay(0)).toBe(500);
+    expect(events.getRetryDelay(3)).toBe(4000);
+    expect(events.getRetryDelay(20)).toBe(15000);
+
+    random.mockReturnValue(0.5);
+    expect(events.getRetryDelay(0)).toBe(750);
+    expect(events.getRetryDelay(20)).toBe(22500);
+  });
+});
+
+describe('todo subscriptions', () => {
+  type Field = 'todoCreated' | 'todoUpdated' | 'todoDeleted';
+
+  let server: WebSocketServer;
+  const subscribers = new Map<Field, Set<(payload: unknown) => void>>();
+
+  // Each subscription is an async iterator fed by `publish`. It stops
+  // listening as soon as the server returns it, even mid-wait.
+  const eventsOf = (field: Field) => () => {
+    const queue: unknown[] = [];
+    let wake: () => void = () => undefined;
+    const push = (payload: unknown) => {
+      queue.push(payload);
+      wake();
+    };
+    const listeners = subscribers.get(field) ?? new Set();
+    subscribers.set(field, listeners.add(push));
+
+    const iterator: AsyncIterableIterator<unknown> = {
+      [Symbol.asyncIterator]: () => iterator,
+      next: async () => {
+        if (queue.length === 0) {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+        return { value: queue.shift(), done: false };
+      },
+      return: () => {
+        listeners.delete(push);
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+    return iterator;
+  };
+
+  const publish = (field: Field, value: unknown) => {
+    subscribers.get(field)?.forEach(push => {
+      push({ [field]: value });
+    });
+  };
+
+  const subscriberCount = () =>
+    Array.from(subscribers.values()).reduce((sum, set) => sum + set.size, 0);
+
+  // A graphql-ws server on a random local port, wired to `ws` by hand
+  beforeEach(async () => {
+    subscribers.clear();
+    const graphqlServer = makeServer({
+      schema,
+      roots: {
+        subscription: {
+          todoCreated: eventsOf('todoCreated'),
+          todoUpdated: eventsOf('todoUpdated'),
+          todoDeleted: eventsOf('todoDeleted'),
+        },
+      },
+    });
+
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', socket => {
+      const closed = graphqlServer.opened(
+        {
+          protocol: socket.protocol,
+          send: data =>
+            new Promise((resolve, reject) => {
+              socket.send(data, error => {
+                if (error) {
+                  reject(error);
+                } else {
+                  resolve();
+                }
+              });
+            }),
+          close: (code, reason) => {
+            socket.close(code, reason);
+          },
+          onMessage: callback => {
+            socket.on('message', message => {
+              callback(String(message)).catch(() => {
+                socket.close(CloseCode.InternalServerError);
+              });
+            });
+          },
+        },
+        {}
+      );
+      socket.once('close', (code, reason) => {
+        void closed(code, String(reason));
+      });
+    });
+    await new Promise(resolve => {
+      server.once('listening', resolve);
+    });
+  });
+
+  afterEach(async () => {
+    server.clients.forEach(socket => {
+      socket.terminate();
+    });
+    await new Promise(resolve => {
+      server.close(resolve);
+    });
+  });
+
+  const connect = async () => {
+    const { port } = server.address() as AddressInfo;
+    return loadModules(`ws://localhost:${port}/graphql`);
+  };
+
+  it('merges created, updated and deleted todos into every view', async () => {
+    const { events, registry } = await connect();
+    const existing = makeTodo({ id: 'old', createdAt: '2024-02-01T00:00Z' });
+    const open = createView('todos:open', variablesFor(false), [existing]);
+    const done = createView('todos:done', variablesFor(true));
+    registry.registerTodoView(open.handle);
+    registry.registerTodoView(done.handle);
+    // A list that was open earlier and has since unmounted
+    registry.registerTodoView(
+      createView('todos:closed', variablesFor(false)).handle
+    )();
+
+    const disconnect = events.connectTodoEvents();
+    await waitFor(() => subscriberCount() === 3);
+    expect(events.getTodoEventsStatus()).toBe('connected');
+
+    const created = makeTodo({ id: 'new', createdAt: '2024-03-05T00:00Z' });
+    publish('todoCreated', created);
+    await waitFor(() => open.ids().length === 2);
+    expect(open.ids()).toEqual(['new', 'old']);
+    expect(done.ids()).toEqual([]);
+    expect(registry.consumeStaleTodoView('todos:closed')).toBe(true);
+
+    publish('todoUpdated', { ...created, completed: true });
+    await waitFor(() => done.ids().length === 1);
+    expect(open.ids()).toEqual(['old']);
+    expect(done.ids()).toEqual(['new']);
+
+    publish('todoDeleted', { id: 'new' });
+    await waitFor(() => done.ids().length === 0);
+    expect(open.ids()).toEqual(['old']);
+
+    disconnect();
+    expect(events.getTodoEventsStatus()).toBe('idle');
+    await waitFor(() => subscriberCount() === 0);
+  });
+
+  it('reconnects after a dropped connection and refetches the views', async () => {
+    const { events, registry } = await connect();
+    const view = createView('todos:open', variablesFor(false));
+    registry.registerTodoView(view.handle);
+
+    const statuses: string[] = [];
+    events.subscribeToTodoEventsStatus(() => {
+      statuses.push(events.getTodoEventsStatus());
+    });
+
+    const disconnect = events.connectTodoEvents();
+    await waitFor(() => subscriberCount() === 3);
+    expect(view.handle.refresh).not.toHaveBeenCalled();
+
+    server.clients.forEach(socket => {
+      socket.terminate();
+    });
+    await waitFor(() => events.getTodoEventsStatus() === 'reconnecting');
+    await waitFor(() => events.getTodoEventsStatus() === 'connected');
+
+    expect(statuses).toEqual([
+      'connecting',
+      'connected',
+      'reconnecting',
+      'connected',
+    ]);
+    // Changes made while disconnected were missed
+    expect(view.handle.refresh).toHaveBeenCalledWith(true);
+
+    await waitFor(() => subscriberCount() === 3);
+    publish('todoCreated', makeTodo({ id: 'after-reconnect' }));
+    await waitFor(() => view.ids().length === 1);
+
+    disconnect();
+  });
+});
+
+describe('todo polling', () => {
+  it('refreshes the views on an interval while visible and online', async () => {
+    jest.useFakeTimers();
+    const { events, registry } = await loadModules('');
+    const view = createView('todos:open', variablesFor(false));
+    registry.registerTodoView(view.handle);
+    const visibility = jest
+      .spyOn(document, 'visibilityState', 'get')
+      .mockReturnValue('visible');
+    const online = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+
+    const disconnect = events.connectTodoEvents();
+    expect(events.getTodoEventsStatus()).toBe('polling');
+
+    jest.advanceTimersByTime(30000);
+    expect(view.handle.refresh).toHaveBeenCalledTimes(1);
+    expect(view.handle.refresh).toHaveBeenCalledWith(true);
+
+    visibility.mockReturnValue('hidden');
+    jest.advanceTimersByTime(30000);
+    visibility.mockReturnValue('visible');
+    online.mockReturnValue(false);
+    jest.advanceTimersByTime(30000);
+    expect(view.handle.refresh).toHaveBeenCalledTimes(1);
+
+    disconnect();
+    online.mockReturnValue(true);
+    jest.advanceTimersByTime(30000);
+    expect(view.handle.refresh).toHaveBeenCalledTimes(1);
+    expect(events.getTodoEventsStatus()).toBe('idle');
+  });
+});
+
+describe('mock mode', () => {
+  it('subscribes to the changes the mock store makes', async () => {
+    process.env.REACT_APP_MOCK_API = 'true';
+    const { events, registry } = await loadModules('');
+    const { createMockLink } = await import('../mocks/mockLink');
+    const { createMockTodoStore } = await import('../mocks/mockTodoStore');
+
+    const store = createMockTodoStore({ count: 0 });
+    const client = new ApolloClient({
+      cache: new InMemoryCache(),
+      link: createMockLink(
+        { latencyMs: 0, errorRate: 0, seed: 1, failOperations: [] },
+        store
+      ),
+    });
+    const open = createView('todos:open', variablesFor(false));
+    registry.registerTodoView(open.handle);
+
+    const disconnect = events.connectTodoEvents(client);
+    expect(events.getTodoEventsStatus()).toBe('connected');
+    // The subscriptions start once the link has run them
+    await new Promise(resolve => {
+      setTimeout(resolve, 0);
+    });
+
+    // As another tab or user would
+    const created = store.create({ title: 'Call the bank' });
+    await waitFor(() => open.ids().length === 1);
+    expect(open.ids()).toEqual([created.id]);
+
+    store.setCompleted(created.id, true);
+    await waitFor(() => open.ids().length === 0);
+
+    store.create({ title: 'Book flights' });
+    await waitFor(() => open.ids().length === 1);
+    store.remove(open.ids()[0]);
+    await waitFor(() => open.ids().length === 0);
+
+    disconnect();
+    store.create({ title: 'After disconnecting' });
+    await new Promise(resolve => {
+      setTimeout(resolve, 20);
+    });
+    expect(open.ids()).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+import type { ApolloClient } from '@apollo/client';
+import { print } from 'graphql';
+import { createClient } from 'graphql-ws';
+import type { TypedDocumentNode } from '@graphql-typed-document-node/core';
+import { TODO_CREATED, TODO_DELETED, TODO_UPDATED } from '../apollo/operations';
+import { getMockApiConfig } from '../mocks/mockConfig';
+import { isOffline } from './offline/mutationOutbox';
+import { syncTodoChange } from './todoCacheSync';
+import type { TodoChange } from './todoCacheSync';
+import { refreshTodoViews } from './todoViewRegistry';
+import { reapplyUndoableActions } from './undoableActions';
+
+/**
+ * One shared channel that keeps every mounted todo list current with changes
+ * made by other users. It subscribes over graphql-ws when
+ * REACT_APP_GRAPHQL_WS_URL is set, to the mock backend's own events in mock
+ * mode, and polls the lists otherwise.
+ */
+export type TodoEventsStatus =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'polling';
+
+const MOCK_API = getMockApiConfig() !== null;
+const WS_URL = MOCK_API ? '' : (process.env.REACT_APP_GRAPHQL_WS_URL ?? '');
+const POLL_INTERVAL_MS =
+  Number(process.env.REACT_APP_TODO_POLL_INTERVAL_MS) || 30000;
+const MIN_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+let status: TodoEventsStatus = 'idle';
+let consumers = 0;
+let stopChannel: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+const setStatus = (nextStatus: TodoEventsStatus) => {
+  if (nextStatus === status) {
+    return;
+  }
+  status = nextStatus;
+  listeners.forEach(listener => {
+    listener();
+  });
+};
+
+/** Exponential backoff with jitter, capped so reconnects keep trying. */
+export const getRetryDelay = (retries: number) => {
+  const delay = Math.min(MIN_RETRY_DELAY_MS * 2 ** retries, MAX_RETRY_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const logRefreshError = (error: unknown) => {
+  // eslint-disable-next-line no-console
+  console.error('Error refreshing todos:', error);
+};
+
+const logSubscriptionError = (error: unknown) => {
+  // eslint-disable-next-line no-console
+  console.error('Todo subscription error:', error);
+};
+
+/** Subscribes to one topic and returns the unsubscribe. */
+type Listen = <TData>(
+  document: TypedDocumentNode<TData, Record<string, never>>,
+  onData: (data: TData) => void
+) => () => void;
+
+const applyChange = (change: TodoChange) => {
+  syncTodoChange(change).then(reapplyUndoableActions).catch(logRefreshError);
+};
+
+// The same three topics, whichever transport carries them
+const listenForChanges = (listen: Listen) => {
+  const unsubscribers = [
+    listen(TODO_CREATED, data => {
+      applyChange({ type: 'upsert', todo: data.todoCreated, created: true });
+    }),
+    listen(TODO_UPDATED, data => {
+      applyChange({ type: 'upsert', todo: data.todoUpdated });
+    }),
+    listen(TODO_DELETED, data => {
+      applyChange({ type: 'remove', id: data.todoDeleted.id });
+    }),
+  ];
+
+  return () => {
+    unsubscribers.forEach(unsubscribe => {
+      unsubscribe();
+    });
+  };
+};
+
+const startSubscriptions = () => {
+  let connectedBefore = false;
+
+  const client = createClient({
+    url: WS_URL,
+    retryAttempts: Infinity,
+    shouldRetry: () => true,
+    retryWait: retries =>
+      new Promise(resolve => {
+        setTimeout(resolve, getRetryDelay(retries));
+      }),
+    on: {
+      connecting: () => {
+        setStatus(connectedBefore ? 'reconnecting' : 'connecting');
+      },
+      connected: () => {
+        // Anything that changed while we were disconnected was missed
+        if (connectedBefore) {
+          refreshTodoViews().catch(logRefreshError);
+        }
+        connectedBefore = true;
+        setStatus('connected');
+      },
+      closed: () => {
+        if (consumers > 0) {
+          setStatus('reconnecting');
+        }
+      },
+    },
+  });
+
+  const stopListening = listenForChanges(
+    <TData>(
+      document: TypedDocumentNode<TData, Record<string, never>>,
+      onData: (data: TData) => void
+    ) =>
+      client.subscribe<TData>(
+        { query: print(document) },
+        {
+          next: ({ data }) => {
+            if (data) {
+              onData(data);
+            }
+          },
+          error: logSubscriptionError,
+          complete: () => undefined,
+        }
+      )
+  );
+
+  return () => {
+    stopListening();
+    void client.dispose();
+  };
+};
+
+// The mock link answers subscriptions in-process, so it never disconnects
+const startMockSubscriptions = (client: ApolloClient) => {
+  setStatus('connected');
+  return listenForChanges(
+    <TData>(
+      document: TypedDocumentNode<TData, Record<string, never>>,
+      onData: (data: TData) => void
+    ) => {
+      const subscription = client
+        .subscribe<TData>({ query: document })
+        .subscribe({
+          next: ({ data }) => {
+            if (data) {
+              onData(data);
+            }
+          },
+          error: logSubscriptionError,
+        });
+      return () => {
+        subscription.unsubscribe();
+      };
+    }
+  );
+};
+
+const startPolling = () => {
+  setStatus('polling');
+  const timer = setInterval(() => {
+    // Hidden tabs and offline clients would only waste requests
+    if (document.visibilityState === 'visible' && !isOffline()) {
+      refreshTodoViews().catch(logRefreshError);
+    }
+  }, POLL_INTERVAL_MS);
+
+  return () => {
+    clearInterval(timer);
+  };
+};
+
+export const subscribeToTodoEventsStatus = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getTodoEventsStatus = () => status;
+
+const startChannel = (client?: ApolloClient) => {
+  if (WS_URL.length > 0) {
+    return startSubscriptions();
+  }
+  if (MOCK_API && client) {
+    return startMockSubscriptions(client);
+  }
+  return startPolling();
+};
+
+/**
+ * Starts the channel for the first consumer and stops it after the last.
+ * In mock mode `client` carries the subscriptions.
+ */
+export function connectTodoEvents(client?: ApolloClient) {
+  consumers += 1;
+  if (consumers === 1) {
+    stopChannel = startChannel(client);
+  }
+
+  return () => {
+    consumers -= 1;
+    if (consumers === 0) {
+      stopChannel?.();
+      stopChannel = null;
+      setStatus('idle');
+    }
+  };
+}
@@ -0,0 +1,136 @@
+import type { Todo } from '../apollo/types';
+import { countCalendarTodos, todosToICalendar } from './todoICalendar';
+import type { ICalendarComponent } from './todoICalendar';
+
+/** `ics` holds calendar events, `icsTasks` the same due dates as tasks. */
+export type TodoExportFormat = 'csv' | 'json' | 'ics' | 'icsTasks';
+
+/** Column order of CSV exports; the import wizard recognizes the same names. */
+export const TODO_EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'dueDate',
+  'tags',
+  'recurrence',
+  'subtasks',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+type TodoExportColumn = (typeof TODO_EXPORT_COLUMNS)[number];
+
+// Checklist items are exported without their IDs; imports create new ones
+const toExportValue = (todo: Todo, column: TodoExportColumn) =>
+  column === 'subtasks'
+    ? todo.subtasks.map(({ title, completed }) => ({ title, completed }))
+    : (todo[column] ?? null);
+
+// Tags never contain spaces, so a space-separated list reads back as is
+const toCsvValue = (todo: Todo, column: TodoExportColumn) => {
+  if (column === 'tags') {
+    return todo.tags.join(' ');
+  }
+  if (column === 'subtasks') {
+    return JSON.stringify(toExportValue(todo, column));
+  }
+  return todo[column];
+};
+
+const toCsvCell = (value: unknown) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Spreadsheets run cells starting with these characters as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function todosToCsv(todos: Todo[]) {
+  const lines = [
+    TODO_EXPORT_COLUMNS.join(','),
+    ...todos.map(todo =>
+      TODO_EXPORT_COLUMNS.map(column =>
+        toCsvCell(toCsvValue(todo, column))
+      ).join(',')
+    ),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function todosToJson(todos: Todo[]) {
+  const rows = todos.map(todo =>
+    Object.fromEntries(
+      TODO_EXPORT_COLUMNS.map(column => [column, toExportValue(todo, column)])
+    )
+  );
+  return `${JSON.stringify(rows, null, 2)}\n`;
+}
+
+interface ExportFormatDefinition {
+  extension: string;
+  mimeType: string;
+  serialize: (todos: Todo[]) => string;
+}
+
+const toCalendar = (component: ICalendarComponent) => (todos: Todo[]) => {
+  if (countCalendarTodos(todos) === 0) {
+    throw new Error('None of these todos has a due date');
+  }
+  return todosToICalendar(todos, { component });
+};
+
+const EXPORT_FORMATS: Record<TodoExportFormat, ExportFormatDefinition> = {
+  csv: {
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8',
+    serialize: todosToCsv,
+  },
+  json: {
+    extension: 'json',
+    mimeType: 'application/json;charset=utf-8',
+    serialize: todosToJson,
+  },
+  ics: {
+    extension: 'ics',
+    mimeType: 'text/calendar;charset=utf-8',
+    serialize: toCalendar('VEVENT'),
+  },
+  icsTasks: {
+    extension: 'ics',
+    mimeType: 'text/calendar;charset=utf-8',
+    serialize: toCalendar('VTODO'),
+  },
+};
+
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+/** Offers `content` as a file download without a server round trip. */
+export function downloadTextFile(
+  fileName: string,
+  content: string,
+  mimeType: string
+) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Browsers may still be reading the file after click() returns
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+  }, DOWNLOAD_URL_LIFETIME_MS);
+}
+
+export function downloadTodos(
+  todos: Todo[],
+  format: TodoExportFormat,
+  baseName = `todos-${new Date().toISOString().slice(0, 10)}`
+) {
+  const { extension, mimeType, serialize } = EXPORT_FORMATS[format];
+  downloadTextFile(`${baseName}.${extension}`, serialize(todos), mimeType);
+}
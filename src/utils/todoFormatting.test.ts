@@ -0,0 +1,23 @@
+import { toDateTimeInputValue } from './todoFormatting';
+
+// config/jestGlobalSetup.js runs the tests in New York
+describe('toDateTimeInputValue', () => {
+  it('shows the due date in local time', () => {
+    expect(toDateTimeInputValue('2024-03-15T13:30:00.000Z')).toBe(
+      '2024-03-15T09:30'
+    );
+    expect(toDateTimeInputValue('2024-01-01T02:05:00.000Z')).toBe(
+      '2023-12-31T21:05'
+    );
+  });
+
+  it('round-trips through the input', () => {
+    const value = toDateTimeInputValue('2024-07-04T21:00:00.000Z');
+    expect(new Date(value).toISOString()).toBe('2024-07-04T21:00:00.000Z');
+  });
+
+  it('is empty without a due date', () => {
+    expect(toDateTimeInputValue(null)).toBe('');
+    expect(toDateTimeInputValue('')).toBe('');
+  });
+});
@@ -0,0 +1,55 @@
+import { TodoPriority } from '../apollo/types';
+import { toDayKey } from './calendarDates';
+
+/** Lowest first; the generated enum lists its values by name, not rank. */
+export const TODO_PRIORITIES = [
+  TodoPriority.LOW,
+  TodoPriority.MEDIUM,
+  TodoPriority.HIGH,
+  TodoPriority.URGENT,
+];
+
+export const getPriorityColor = (priority: TodoPriority) => {
+  switch (priority) {
+    case TodoPriority.URGENT:
+      return 'danger';
+    case TodoPriority.HIGH:
+      return 'important';
+    case TodoPriority.MEDIUM:
+      return 'warning';
+    case TodoPriority.LOW:
+      return 'success';
+    default:
+      return 'informative';
+  }
+};
+
+export const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export const formatOptionalDate = (dateString?: string | null) => {
+  if (!dateString || dateString.length === 0) {
+    return '-';
+  }
+  return formatDate(dateString);
+};
+
+/** Value for a `datetime-local` input, or an empty string when unset. */
+export const toDateTimeInputValue = (dateString?: string | null) => {
+  if (!dateString || dateString.length === 0) {
+    return '';
+  }
+  // The input shows local time; `toISOString` would show UTC
+  const date = new Date(dateString);
+  const time = [date.getHours(), date.getMinutes()]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+  return `${toDayKey(date)}T${time}`;
+};
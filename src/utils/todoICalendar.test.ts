@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import { TodoPriority } from '../apollo/types';
+import type { Todo } from '../apollo/types';
+import {
+  escapeICalendarText,
+  foldICalendarLine,
+  todosToICalendar,
+} from './todoICalendar';
+
+const makeTodo = (overrides: Partial<Todo>): Todo => ({
+  __typename: 'Todo',
+  id: 'todo-1',
+  title: 'Write release notes',
+  description: null,
+  completed: false,
+  priority: TodoPriority.HIGH,
+  dueDate: null,
+  recurrence: null,
+  subtasks: [],
+  tags: [],
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-02T10:00:00.000Z',
+  ...overrides,
+});
+
+const octets = (text: string) => new TextEncoder().encode(text).length;
+
+// The lines after the calendar's header
+const componentLines = (ics: string) => {
+  const lines = ics.split('\r\n');
+  return lines.slice(lines.indexOf('X-WR-CALNAME:Todos') + 1);
+};
+
+describe('escapeICalendarText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeICalendarText('a\\b; c, d\r\ne\nf\rg')).toBe(
+      'a\\\\b\\; c\\, d\\ne\\nf\\ng'
+    );
+  });
+});
+
+describe('foldICalendarLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = 'A'.repeat(75);
+    expect(foldICalendarLine(line)).toBe(line);
+  });
+
+  it('continues longer lines with a space, 75 octets each', () => {
+    expect(foldICalendarLine('A'.repeat(160))).toBe(
+      `${'A'.repeat(75)}\r\n ${'A'.repeat(74)}\r\n ${'A'.repeat(11)}`
+    );
+  });
+
+  it('never splits a multibyte character', () => {
+    // é is 2 octets and 🎉 is 4; neither fits into what is left of line one
+    expect(foldICalendarLine(`${'A'.repeat(74)}é`)).toBe(
+      `${'A'.repeat(74)}\r\n é`
+    );
+    expect(foldICalendarLine(`${'A'.repeat(73)}🎉`)).toBe(
+      `${'A'.repeat(73)}\r\n 🎉`
+    );
+
+    const line = `SUMMARY:${'é🎉'.repeat(40)}`;
+    const folded = foldICalendarLine(line);
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+    folded.split('\r\n').forEach(part => {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+    });
+  });
+});
+
+// Jest runs in America/New_York, so local midnight is 04:00Z in March
+describe('todosToICalendar', () => {
+  const now = new Date('2024-03-10T12:00:00.000Z');
+  const dateOnly = makeTodo({ dueDate: '2024-03-15T04:00:00.000Z' });
+  const timed = makeTodo({
+    id: 'todo-2',
+    title: 'Ship, then celebrate',
+    completed: true,
+    dueDate: '2024-03-15T13:30:00.000Z',
+  });
+
+  it('writes events, all-day for dates without a time', () => {
+    expect(
+      componentLines(todosToICalendar([dateOnly, timed], { now }))
+    ).toEqual([
+      'BEGIN:VEVENT',
+      'UID:todo-1@remote-1.todos',
+      'DTSTAMP:20240310T120000Z',
+      'CREATED:20240301T100000Z',
+      'LAST-MODIFIED:20240302T100000Z',
+      'PRIORITY:3',
+      'SUMMARY:Write release notes',
+      'DTSTART;VALUE=DATE:20240315',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:todo-2@remote-1.todos',
+      'DTSTAMP:20240310T120000Z',
+      'CREATED:20240301T100000Z',
+      'LAST-MODIFIED:20240302T100000Z',
+      'PRIORITY:3',
+      'SUMMARY:✓ Ship\\, then celebrate',
+      'DTSTART:20240315T133000Z',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('writes tasks with their status', () => {
+    expect(
+      componentLines(
+        todosToICalendar([dateOnly, timed, makeTodo({ id: 'undated' })], {
+          component: 'VTODO',
+          now,
+        })
+      )
+    ).toEqual([
+      'BEGIN:VTODO',
+      'UID:todo-1@remote-1.todos',
+      'DTSTAMP:20240310T120000Z',
+      'CREATED:20240301T100000Z',
+      'LAST-MODIFIED:20240302T100000Z',
+      'PRIORITY:3',
+      'SUMMARY:Write release notes',
+      'DUE;VALUE=DATE:20240315',
+      'STATUS:NEEDS-ACTION',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:todo-2@remote-1.todos',
+      'DTSTAMP:20240310T120000Z',
+      'CREATED:20240301T100000Z',
+      'LAST-MODIFIED:20240302T100000Z',
+      'PRIORITY:3',
+      'SUMMARY:Ship\\, then celebrate',
+      'DUE:20240315T133000Z',
+      'STATUS:COMPLETED',
+      'COMPLETED:20240302T100000Z',
+      'PERCENT-COMPLETE:100',
+      'END:VTODO',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import { TodoPriority } from '../apollo/types';
+import type { Todo } from '../apollo/types';
+import { toDayKey } from './calendarDates';
+
+/**
+ * RFC 5545 export of todo due dates. Todos become VEVENTs, which every
+ * calendar client shows, or VTODOs for clients with task lists (Apple
+ * Reminders, Thunderbird). Todos without a due date are left out.
+ */
+export type ICalendarComponent = 'VEVENT' | 'VTODO';
+
+export interface ICalendarOptions {
+  component?: ICalendarComponent;
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//OrbusInfinity//Remote 1 Todos//EN';
+const UID_DOMAIN = 'remote-1.todos';
+const MAX_LINE_OCTETS = 75;
+
+// 1 is the highest priority and 9 the lowest; 5 is "medium"
+const ICAL_PRIORITIES: Record<TodoPriority, number> = {
+  [TodoPriority.URGENT]: 1,
+  [TodoPriority.HIGH]: 3,
+  [TodoPriority.MEDIUM]: 5,
+  [TodoPriority.LOW]: 9,
+};
+
+const encoder = new TextEncoder();
+
+export const formatICalendarDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+export const escapeICalendarText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+/** Splits content lines longer than 75 octets, never inside a character. */
+export const foldICalendarLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * The value of DUE or DTSTART with its separator. A due date at local
+ * midnight has no time of day, like an imported date, and becomes an
+ * all-day entry on that date.
+ */
+const formatDue = (dueDate: string) => {
+  const date = new Date(dueDate);
+  const isDateOnly =
+    date.getHours() === 0 &&
+    date.getMinutes() === 0 &&
+    date.getSeconds() === 0 &&
+    date.getMilliseconds() === 0;
+  return isDateOnly
+    ? `;VALUE=DATE:${toDayKey(date).replace(/-/g, '')}`
+    : `:${formatICalendarDate(date)}`;
+};
+
+const toComponentLines = (
+  todo: Todo & { dueDate: string },
+  component: ICalendarComponent,
+  stamp: string
+) => {
+  const due = formatDue(todo.dueDate);
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${todo.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatICalendarDate(new Date(todo.createdAt))}`,
+    `LAST-MODIFIED:${formatICalendarDate(new Date(todo.updatedAt))}`,
+    `PRIORITY:${ICAL_PRIORITIES[todo.priority]}`,
+  ];
+
+  if (component === 'VTODO') {
+    lines.push(
+      `SUMMARY:${escapeICalendarText(todo.title)}`,
+      `DUE${due}`,
+      `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`
+    );
+    if (todo.completed) {
+      lines.push(
+        `COMPLETED:${formatICalendarDate(new Date(todo.updatedAt))}`,
+        'PERCENT-COMPLETE:100'
+      );
+    }
+  } else {
+    // Events have no "done" status, so completion shows in the title
+    const summary = todo.completed ? `✓ ${todo.title}` : todo.title;
+    lines.push(
+      `SUMMARY:${escapeICalendarText(summary)}`,
+      `DTSTART${due}`,
+      'TRANSP:TRANSPARENT'
+    );
+  }
+
+  if (todo.description) {
+    lines.push(`DESCRIPTION:${escapeICalendarText(todo.description)}`);
+  }
+  lines.push(`END:${component}`);
+
+  return lines;
+};
+
+const hasDueDate = (todo: Todo): todo is Todo & { dueDate: string } =>
+  Boolean(todo.dueDate);
+
+export const countCalendarTodos = (todos: Todo[]) =>
+  todos.filter(hasDueDate).length;
+
+export function todosToICalendar(
+  todos: Todo[],
+  { component = 'VEVENT', now = new Date() }: ICalendarOptions = {}
+) {
+  const stamp = formatICalendarDate(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Todos',
+    ...todos
+      .filter(hasDueDate)
+      .flatMap(todo => toComponentLines(todo, component, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldICalendarLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { TodoPriority } from '../apollo/types';
+import type { Todo } from '../apollo/types';
+import { todosToCsv, todosToJson } from './todoExport';
+import {
+  buildTodoImportRows,
+  guessColumnMapping,
+  parseTodoFile,
+} from './todoImport';
+
+const importDueDates = (...dates: string[]) =>
+  buildTodoImportRows(
+    parseTodoFile(
+      ['title,due', ...dates.map(date => `Task,${date}`)].join('\n'),
+      'todos.csv'
+    ),
+    {
+      title: 'title',
+      description: null,
+      priority: null,
+      dueDate: 'due',
+      tags: null,
+      recurrence: null,
+      subtasks: null,
+    }
+  );
+
+// Jest runs in America/New_York (UTC-4 in summer, UTC-5 in winter)
+describe('buildTodoImportRows', () => {
+  it('reads dates without a time as local midnight', () => {
+    expect(
+      importDueDates('2024-03-15', '2024/07/04', '2024-12', '2025').map(
+        row => row.input?.dueDate
+      )
+    ).toEqual([
+      '2024-03-15T04:00:00.000Z',
+      '2024-07-04T04:00:00.000Z',
+      '2024-12-01T05:00:00.000Z',
+      '2025-01-01T05:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the time and offset of full timestamps', () => {
+    expect(
+      importDueDates(
+        '2024-03-15T09:30:00Z',
+        '2024-03-15T09:30',
+        '2024-03-15T09:30:00+02:00'
+      ).map(row => row.input?.dueDate)
+    ).toEqual([
+      '2024-03-15T09:30:00.000Z',
+      '2024-03-15T13:30:00.000Z',
+      '2024-03-15T07:30:00.000Z',
+    ]);
+  });
+
+  it('rejects days that do not exist', () => {
+    const [row] = importDueDates('2024-02-30');
+    expect(row.input).toBeNull();
+    expect(row.errors).toEqual(['Due date "2024-02-30" is not a valid date']);
+  });
+});
+
+describe('export and import', () => {
+  const todo: Todo = {
+    __typename: 'Todo',
+    id: 'todo-1',
+    title: '=Plan, "launch"',
+    description: 'Line one\nline two',
+    completed: false,
+    priority: TodoPriority.HIGH,
+    dueDate: '2024-03-15T13:30:00.000Z',
+    recurrence: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH',
+    subtasks: [
+      {
+        __typename: 'Subtask',
+        id: 'sub-1',
+        title: 'Draft, review',
+        completed: true,
+      },
+      { __typename: 'Subtask', id: 'sub-2', title: 'Ship', completed: false },
+    ],
+    tags: ['launch', 'q1-goals'],
+    createdAt: '2024-03-01T10:00:00.000Z',
+    updatedAt: '2024-03-01T10:00:00.000Z',
+  };
+
+  it.each([
+    ['todos.csv', todosToCsv],
+    ['todos.json', todosToJson],
+  ])('brings back every field from %s', (fileName, serialize) => {
+    const parsed = parseTodoFile(serialize([todo]), fileName);
+    const [row] = buildTodoImportRows(
+      parsed,
+      guessColumnMapping(parsed.columns)
+    );
+
+    expect(row.errors).toEqual([]);
+    expect(row.input).toEqual({
+      title: todo.title,
+      description: todo.description,
+      priority: todo.priority,
+      dueDate: todo.dueDate,
+      tags: todo.tags,
+      recurrence: todo.recurrence,
+      subtasks: [
+        { title: 'Draft, review', completed: true },
+        { title: 'Ship', completed: false },
+      ],
+    });
+  });
+
+  it('rejects checklists that are not a list of items', () => {
+    const parsed = parseTodoFile('title,checklist\nTask,Buy milk', 'todos.csv');
+    const [row] = buildTodoImportRows(
+      parsed,
+      guessColumnMapping(parsed.columns)
+    );
+    expect(row.errors).toEqual([
+      'Checklist is not a JSON list of items with a title',
+    ]);
+  });
+});
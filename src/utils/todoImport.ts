@@ -0,0 +1,312 @@
+import type {
+  CreateTodoInput,
+  SubtaskInput,
+  TodoPriority,
+} from '../apollo/types';
+import { validateTodoInput } from './todoMutationErrors';
+import { TODO_PRIORITIES } from './todoFormatting';
+import { normalizeTags } from './todoTags';
+
+export type TodoImportField =
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'dueDate'
+  | 'tags'
+  | 'recurrence'
+  | 'subtasks';
+
+export const TODO_IMPORT_FIELDS: TodoImportField[] = [
+  'title',
+  'description',
+  'priority',
+  'dueDate',
+  'tags',
+  'recurrence',
+  'subtasks',
+];
+
+/** Source column for each field, or null to leave the field empty. */
+export type TodoColumnMapping = Record<TodoImportField, string | null>;
+
+export interface ParsedTodoFile {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface TodoImportRow {
+  /** 1-based row number in the file, not counting the CSV header. */
+  row: number;
+  /** The mapped cells as they appear in the file. */
+  values: Record<TodoImportField, string>;
+  input: CreateTodoInput | null;
+  errors: string[];
+}
+
+const COLUMN_ALIASES: Record<TodoImportField, string[]> = {
+  title: ['title', 'name', 'task', 'summary', 'subject'],
+  description: ['description', 'details', 'notes', 'body'],
+  priority: ['priority', 'importance'],
+  dueDate: ['duedate', 'due', 'deadline', 'duedatetime', 'dueon'],
+  tags: ['tags', 'tag', 'labels', 'categories'],
+  recurrence: ['recurrence', 'repeat', 'repeats', 'rrule'],
+  subtasks: ['subtasks', 'checklist', 'checklistitems'],
+};
+
+const PRIORITIES: string[] = TODO_PRIORITIES;
+
+// `2024-03-15`, `2024/03/15`, `2024-03` or `2024`: no time of day
+const DATE_ONLY = /^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/;
+
+/**
+ * Reads a due date cell. Dates without a time are midnight where the user
+ * is; `new Date` would read the ISO forms as midnight UTC, which is the
+ * previous day west of Greenwich.
+ */
+const parseDueDate = (value: string) => {
+  const dateOnly = DATE_ONLY.exec(value);
+  if (!dateOnly) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  const [, year, month = '1', day = '1'] = dateOnly;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  // `new Date` would roll 2024-02-30 over into March
+  return date.getMonth() === Number(month) - 1 && date.getDate() === Number(day)
+    ? date
+    : null;
+};
+
+const isSubtask = (item: unknown): item is SubtaskInput =>
+  typeof item === 'object' &&
+  item !== null &&
+  typeof (item as SubtaskInput).title === 'string';
+
+/** Reads a checklist cell, exported as `[{"title":"…","completed":false}]`. */
+const parseSubtasks = (value: string): SubtaskInput[] | null => {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.every(isSubtask)
+      ? parsed.map(({ title, completed }) => ({
+          title,
+          completed: completed === true,
+        }))
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/** RFC 4180 CSV: quoted cells may contain commas, quotes and line breaks. */
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(value => value.length > 0)) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  // Strip the byte order mark spreadsheet apps put in front of UTF-8 files
+  const source = text.replace(/^\uFEFF/, '');
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') {
+        index += 1;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('The CSV file ends inside a quoted value');
+  }
+  endRow();
+
+  return rows;
+}
+
+// Undo the formula escaping applied by todosToCsv
+const unescapeCell = (value: string) =>
+  /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+
+const parseCsvFile = (text: string): ParsedTodoFile => {
+  const [header = [], ...records] = parseCsv(text);
+  const columns = header.map(column => column.trim());
+  return {
+    columns,
+    rows: records.map(record =>
+      Object.fromEntries(
+        columns.map((column, index) => [
+          column,
+          unescapeCell(record[index] ?? ''),
+        ])
+      )
+    ),
+  };
+};
+
+// Tag lists read like the CSV export; other structures stay JSON
+const toCellText = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.join(' ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const parseJsonFile = (text: string): ParsedTodoFile => {
+  const parsed: unknown = JSON.parse(text);
+  if (
+    !Array.isArray(parsed) ||
+    parsed.some(item => typeof item !== 'object' || item === null)
+  ) {
+    throw new Error('The JSON file must contain an array of objects');
+  }
+
+  const records = parsed as Record<string, unknown>[];
+  const columns = [...new Set(records.flatMap(record => Object.keys(record)))];
+  return {
+    columns,
+    rows: records.map(record =>
+      Object.fromEntries(
+        columns.map(column => [column, toCellText(record[column])])
+      )
+    ),
+  };
+};
+
+/** Reads a CSV or JSON file, picking the format from the name or content. */
+export function parseTodoFile(text: string, fileName = ''): ParsedTodoFile {
+  const isJson =
+    fileName.toLowerCase().endsWith('.json') ||
+    (!fileName.toLowerCase().endsWith('.csv') && /^\s*\[/.test(text));
+  const parsed = isJson ? parseJsonFile(text) : parseCsvFile(text);
+
+  if (parsed.columns.length === 0 || parsed.rows.length === 0) {
+    throw new Error('The file contains no todos');
+  }
+  return parsed;
+}
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z]/g, '');
+
+export function guessColumnMapping(columns: string[]): TodoColumnMapping {
+  const find = (field: TodoImportField) =>
+    columns.find(column =>
+      COLUMN_ALIASES[field].includes(normalizeName(column))
+    ) ?? null;
+
+  return {
+    title: find('title'),
+    description: find('description'),
+    priority: find('priority'),
+    dueDate: find('dueDate'),
+    tags: find('tags'),
+    recurrence: find('recurrence'),
+    subtasks: find('subtasks'),
+  };
+}
+
+const toImportRow = (
+  record: Record<string, string>,
+  mapping: TodoColumnMapping,
+  row: number
+): TodoImportRow => {
+  const values = Object.fromEntries(
+    TODO_IMPORT_FIELDS.map(field => {
+      const column = mapping[field];
+      return [field, column === null ? '' : (record[column] ?? '').trim()];
+    })
+  ) as Record<TodoImportField, string>;
+  const read = (field: TodoImportField) => values[field];
+
+  const errors: string[] = [];
+  const input: CreateTodoInput = { title: read('title') };
+
+  const description = read('description');
+  if (description.length > 0) {
+    input.description = description;
+  }
+
+  const priority = read('priority').toUpperCase();
+  if (PRIORITIES.includes(priority)) {
+    input.priority = priority as TodoPriority;
+  } else if (priority.length > 0) {
+    errors.push(
+      `Priority "${read('priority')}" is not one of ${PRIORITIES.join(', ')}`
+    );
+  }
+
+  const dueDate = read('dueDate');
+  if (dueDate.length > 0) {
+    const parsedDate = parseDueDate(dueDate);
+    if (!parsedDate) {
+      errors.push(`Due date "${dueDate}" is not a valid date`);
+    } else {
+      input.dueDate = parsedDate.toISOString();
+    }
+  }
+
+  // Spaces or commas between tags, as in the export or most other tools
+  const tags = normalizeTags(read('tags').split(/[\s,]+/));
+  if (tags.length > 0) {
+    input.tags = tags;
+  }
+
+  const recurrence = read('recurrence');
+  if (recurrence.length > 0) {
+    input.recurrence = recurrence;
+  }
+
+  const subtasks = read('subtasks');
+  if (subtasks.length > 0) {
+    const parsedSubtasks = parseSubtasks(subtasks);
+    if (!parsedSubtasks) {
+      errors.push('Checklist is not a JSON list of items with a title');
+    } else if (parsedSubtasks.length > 0) {
+      input.subtasks = parsedSubtasks;
+    }
+  }
+
+  errors.unshift(...validateTodoInput(input));
+  return { row, values, input: errors.length === 0 ? input : null, errors };
+};
+
+/** Maps and validates every record; rows with errors have no `input`. */
+export function buildTodoImportRows(
+  parsed: ParsedTodoFile,
+  mapping: TodoColumnMapping
+) {
+  return parsed.rows.map((record, index) =>
+    toImportRow(record, mapping, index + 1)
+  );
+}
@@ -0,0 +1,128 @@
+import { getMarkdownExcerpt, getSafeHref, parseMarkdown } from './todoMarkdown';
+import type { MarkdownBlock, MarkdownInline } from './todoMarkdown';
+
+const inlineNodes = (nodes: MarkdownInline[]): MarkdownInline[] =>
+  nodes.flatMap(node => [
+    node,
+    ...('children' in node ? inlineNodes(node.children) : []),
+  ]);
+
+// Every inline node in the tree, however deeply nested
+const allInline = (blocks: MarkdownBlock[]): MarkdownInline[] =>
+  blocks.flatMap(block => {
+    if (block.type === 'quote') {
+      return allInline(block.children);
+    }
+    if (block.type === 'list') {
+      return block.items.flatMap(item => allInline(item.children));
+    }
+    return 'children' in block ? inlineNodes(block.children) : [];
+  });
+
+const linksIn = (source: string) =>
+  allInline(parseMarkdown(source)).flatMap(node =>
+    node.type === 'link' ? [node.href] : []
+  );
+
+const depthOf = (blocks: MarkdownBlock[]): number =>
+  Math.max(
+    0,
+    ...blocks.map(block => {
+      if (block.type === 'quote') {
+        return 1 + depthOf(block.children);
+      }
+      if (block.type === 'list') {
+        return 1 + Math.max(...block.items.map(item => depthOf(item.children)));
+      }
+      return 0;
+    })
+  );
+
+describe('getSafeHref', () => {
+  it('allows http(s) and mailto links only', () => {
+    expect(getSafeHref('https://example.com/a')).toBe('https://example.com/a');
+    expect(getSafeHref('mailto:team@example.com')).toBe(
+      'mailto:team@example.com'
+    );
+    // eslint-disable-next-line no-script-url
+    expect(getSafeHref('javascript:alert(1)')).toBeNull();
+    expect(getSafeHref(' JavaScript:alert(1)')).toBeNull();
+    expect(getSafeHref('data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(getSafeHref('vbscript:msgbox')).toBeNull();
+    expect(getSafeHref('/relative/path')).toBeNull();
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('drops javascript: and data: links but keeps their text', () => {
+    const source =
+      '[click](javascript:alert(1)) [open](data:text/html;base64,PHNjcmlwdD4=) <javascript:alert(1)>';
+    expect(linksIn(source)).toEqual([]);
+    expect(getMarkdownExcerpt(source)).toBe('click open <javascript:alert(1)>');
+  });
+
+  it('keeps safe links, including parentheses in the URL', () => {
+    expect(
+      linksIn(
+        '[wiki](https://en.wikipedia.org/wiki/Foo_(bar)) and https://example.com.'
+      )
+    ).toEqual([
+      'https://en.wikipedia.org/wiki/Foo_(bar)',
+      'https://example.com/',
+    ]);
+  });
+
+  it('shows raw HTML as text', () => {
+    const source = '<script>alert(1)</script>\n<img src=x onerror=alert(1)>';
+    expect(parseMarkdown(source)).toEqual([
+      {
+        key: expect.any(Number),
+        type: 'paragraph',
+        children: [
+          {
+            key: expect.any(Number),
+            type: 'text',
+            text: '<script>alert(1)</script>',
+          },
+          { key: expect.any(Number), type: 'break' },
+          {
+            key: expect.any(Number),
+            type: 'text',
+            text: '<img src=x onerror=alert(1)>',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('turns images into links so nothing loads', () => {
+    const nodes = allInline(
+      parseMarkdown(
+        '![chart](https://example.com/chart.png) ![x](javascript:alert(1))'
+      )
+    );
+    expect(nodes.map(node => node.type)).not.toContain('image');
+    expect(
+      nodes.flatMap(node => (node.type === 'link' ? [node.href] : []))
+    ).toEqual(['https://example.com/chart.png']);
+  });
+
+  it('survives deep nesting and keeps the rest as text', () => {
+    const quotes = parseMarkdown(`${'>'.repeat(5000)} deep`);
+    expect(depthOf(quotes)).toBeLessThanOrEqual(17);
+    expect(getMarkdownExcerpt('>'.repeat(5000), 5000)).toMatch(/^>+$/);
+
+    const lists = parseMarkdown(`${'- '.repeat(5000)}deep`);
+    expect(depthOf(lists)).toBeLessThanOrEqual(17);
+    expect(getMarkdownExcerpt(`${'- '.repeat(5000)}deep`, 20000)).toMatch(
+      /deep$/
+    );
+
+    expect(() =>
+      parseMarkdown(`${'['.repeat(5000)}x${'](https://a.b)'.repeat(5000)}`)
+    ).not.toThrow();
+    expect(() =>
+      parseMarkdown(`${'*a '.repeat(5000)}${' a*'.repeat(5000)}`)
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,484 @@
+/**
+ * A small Markdown reader for todo descriptions. It produces a tree that
+ * components render as React elements, so raw HTML in a description is only
+ * ever shown as text and nothing is injected into the host page.
+ */
+
+export type MarkdownInline = { key: number } & (
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'break' }
+  | {
+      type: 'strong' | 'emphasis' | 'strikethrough';
+      children: MarkdownInline[];
+    }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+);
+
+export interface MarkdownListItem {
+  key: number;
+  /** `null` for plain items, a boolean for `- [ ]` task items. */
+  checked: boolean | null;
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock = { key: number } & (
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'rule' }
+);
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w#+-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?: *\1){2,} *$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?: +|$)(.*)$/;
+const TASK = /^\[([ xX])\](?: +|$)/;
+const PUNCTUATION = /[!-/:-@[-`{-~]/;
+const BARE_URL = /^https?:\/\/[^\s<]+/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/;
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Quotes, lists, links and emphasis nest by recursion. Deeper levels stay
+// plain text, so a description like 5,000 `>` cannot overflow the stack.
+const MAX_NESTING = 16;
+
+/**
+ * The URL to link to, or null for anything but absolute http(s) and mailto
+ * links, so `javascript:` and similar URLs are never rendered.
+ */
+export const getSafeHref = (url: string) => {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const isBlank = (line: string) => line.trim().length === 0;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  RULE.test(line) ||
+  QUOTE.test(line) ||
+  LIST_ITEM.test(line);
+
+const isOrderedMarker = (marker: string) => /\d/.test(marker);
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  let nextKey = 0;
+
+  const parseInline = (text: string, depth = 0): MarkdownInline[] => {
+    if (depth > MAX_NESTING) {
+      return text.length > 0 ? [{ key: nextKey++, type: 'text', text }] : [];
+    }
+    const nodes: MarkdownInline[] = [];
+    let buffer = '';
+    let i = 0;
+
+    const flush = () => {
+      if (buffer.length > 0) {
+        nodes.push({ key: nextKey++, type: 'text', text: buffer });
+        buffer = '';
+      }
+    };
+    const push = (node: MarkdownInline) => {
+      flush();
+      nodes.push(node);
+    };
+
+    // `[label](url)` starting at `start`; the end index and parts, or null
+    const readLink = (start: number) => {
+      let brackets = 0;
+      let close = -1;
+      for (let j = start; j < text.length; j++) {
+        if (text[j] === '\\') {
+          j++;
+        } else if (text[j] === '[') {
+          brackets++;
+        } else if (text[j] === ']' && --brackets === 0) {
+          close = j;
+          break;
+        }
+      }
+      if (close === -1 || text[close + 1] !== '(') {
+        return null;
+      }
+      // URLs may contain balanced parentheses
+      let parens = 1;
+      let end = close + 2;
+      for (; end < text.length; end++) {
+        if (text[end] === '(') {
+          parens++;
+        } else if (text[end] === ')' && --parens === 0) {
+          break;
+        }
+      }
+      if (end === text.length) {
+        return null;
+      }
+      // Titles (`[a](url "title")`) are accepted and ignored
+      const [url = ''] = text
+        .slice(close + 2, end)
+        .trim()
+        .split(/\s+/);
+      return {
+        end: end + 1,
+        label: text.slice(start + 1, close),
+        href: getSafeHref(url.replace(/^<|>$/g, '')),
+      };
+    };
+
+    while (i < text.length) {
+      const char = text[i];
+      const rest = text.slice(i);
+
+      if (char === '\\' && PUNCTUATION.test(text[i + 1] ?? '')) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+
+      if (char === '\n') {
+        push({ key: nextKey++, type: 'break' });
+        i++;
+        continue;
+      }
+
+      if (char === '`') {
+        const [run] = /^`+/.exec(rest) ?? ['`'];
+        const close = text.indexOf(run, i + run.length);
+        if (close === -1) {
+          buffer += run;
+          i += run.length;
+          continue;
+        }
+        const code = text.slice(i + run.length, close);
+        push({
+          key: nextKey++,
+          type: 'code',
+          text: /^ .* $/.test(code) ? code.slice(1, -1) : code,
+        });
+        i = close + run.length;
+        continue;
+      }
+
+      // Images become links to the image, so descriptions never load
+      // anything by themselves
+      const linkStart = char === '!' && text[i + 1] === '[' ? i + 1 : i;
+      if (text[linkStart] === '[') {
+        const link = readLink(linkStart);
+        if (link) {
+          const children = parseInline(
+            link.label || (link.href ?? ''),
+            depth + 1
+          );
+          if (link.href) {
+            push({ key: nextKey++, type: 'link', href: link.href, children });
+          } else {
+            flush();
+            nodes.push(...children);
+          }
+          i = link.end;
+          continue;
+        }
+      }
+
+      const autolink = AUTOLINK.exec(rest);
+      const bareUrl = /[\w/]/.test(text[i - 1] ?? '')
+        ? null
+        : BARE_URL.exec(rest);
+      if (autolink ?? bareUrl) {
+        const url = autolink
+          ? autolink[1]
+          : (bareUrl?.[0] ?? '').replace(/[.,;:!?)]+$/, '');
+        const href = getSafeHref(url);
+        if (href) {
+          push({
+            key: nextKey++,
+            type: 'link',
+            href,
+            children: [{ key: nextKey++, type: 'text', text: url }],
+          });
+          i += autolink ? autolink[0].length : url.length;
+          continue;
+        }
+      }
+
+      if (char === '*' || char === '_' || char === '~') {
+        const double = text[i + 1] === char;
+        const delimiter = double ? char + char : char;
+        let close = text.indexOf(delimiter, i + delimiter.length);
+        // `***both***` closes the strong part on the last two stars
+        while (close !== -1 && double && text[close + 2] === char) {
+          close++;
+        }
+        const inner =
+          close === -1 ? '' : text.slice(i + delimiter.length, close);
+        const intraword =
+          char === '_' &&
+          (/\w/.test(text[i - 1] ?? '') ||
+            /\w/.test(text[close + delimiter.length] ?? ''));
+        if (
+          (double || char !== '~') &&
+          inner.trim().length > 0 &&
+          inner.trim() === inner &&
+          !intraword
+        ) {
+          const types = {
+            '*': double ? 'strong' : 'emphasis',
+            _: double ? 'strong' : 'emphasis',
+            '~': 'strikethrough',
+          } as const;
+          push({
+            key: nextKey++,
+            type: types[char],
+            children: parseInline(inner, depth + 1),
+          });
+          i = close + delimiter.length;
+          continue;
+        }
+        buffer += delimiter;
+        i += delimiter.length;
+        continue;
+      }
+
+      buffer += char;
+      i++;
+    }
+
+    flush();
+    return nodes;
+  };
+
+  const parseBlocks = (lines: string[], depth = 0): MarkdownBlock[] => {
+    if (depth > MAX_NESTING) {
+      const text = lines
+        .filter(line => !isBlank(line))
+        .map(line => line.trim())
+        .join('\n');
+      return text.length > 0
+        ? [{ key: nextKey++, type: 'paragraph', children: parseInline(text) }]
+        : [];
+    }
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (isBlank(line)) {
+        i++;
+        continue;
+      }
+
+      const fence = FENCE.exec(line);
+      if (fence) {
+        const [, marker, language] = fence;
+        const closing = new RegExp(
+          `^ {0,3}${marker[0]}{${marker.length},}\\s*$`
+        );
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !closing.test(lines[i])) {
+          code.push(lines[i]);
+          i++;
+        }
+        blocks.push({
+          key: nextKey++,
+          type: 'code',
+          language,
+          text: code.join('\n'),
+        });
+        i++;
+        continue;
+      }
+
+      const heading = HEADING.exec(line);
+      if (heading) {
+        blocks.push({
+          key: nextKey++,
+          type: 'heading',
+          level: heading[1].length,
+          children: parseInline(heading[2]),
+        });
+        i++;
+        continue;
+      }
+
+      if (RULE.test(line)) {
+        blocks.push({ key: nextKey++, type: 'rule' });
+        i++;
+        continue;
+      }
+
+      if (QUOTE.test(line)) {
+        const quoted: string[] = [];
+        while (i < lines.length && QUOTE.test(lines[i])) {
+          quoted.push(lines[i].replace(QUOTE, ''));
+          i++;
+        }
+        blocks.push({
+          key: nextKey++,
+          type: 'quote',
+          children: parseBlocks(quoted, depth + 1),
+        });
+        continue;
+      }
+
+      const listItem = LIST_ITEM.exec(line);
+      if (listItem) {
+        const [, indent, marker] = listItem;
+        const ordered = isOrderedMarker(marker);
+        const items: MarkdownListItem[] = [];
+
+        const sibling = (candidate: string | undefined) => {
+          const match =
+            candidate === undefined ? null : LIST_ITEM.exec(candidate);
+          return (
+            match !== null &&
+            match[1].length === indent.length &&
+            isOrderedMarker(match[2]) === ordered
+          );
+        };
+        const nextFilled = (from: number) => {
+          let next = from;
+          while (next < lines.length && isBlank(lines[next])) {
+            next++;
+          }
+          return next;
+        };
+
+        while (i < lines.length) {
+          if (isBlank(lines[i])) {
+            const next = nextFilled(i);
+            if (!sibling(lines[next])) {
+              break;
+            }
+            i = next;
+          }
+          const item = LIST_ITEM.exec(lines[i]);
+          if (!item || !sibling(lines[i])) {
+            break;
+          }
+
+          const contentIndent = lines[i].length - item[3].length;
+          const itemLines = [item[3]];
+          i++;
+          while (i < lines.length) {
+            const current = lines[i];
+            if (isBlank(current)) {
+              const next = nextFilled(i);
+              if (
+                next >= lines.length ||
+                indentOf(lines[next]) <= indent.length
+              ) {
+                break;
+              }
+              itemLines.push('');
+              i++;
+            } else if (indentOf(current) > indent.length) {
+              itemLines.push(
+                current.slice(Math.min(indentOf(current), contentIndent))
+              );
+              i++;
+            } else if (!startsBlock(current)) {
+              // A lazy continuation of the item's paragraph
+              itemLines.push(current.trim());
+              i++;
+            } else {
+              break;
+            }
+          }
+
+          const task = TASK.exec(itemLines[0]);
+          if (task) {
+            itemLines[0] = itemLines[0].slice(task[0].length);
+          }
+          items.push({
+            key: nextKey++,
+            checked: task ? task[1] !== ' ' : null,
+            children: parseBlocks(itemLines, depth + 1),
+          });
+        }
+
+        blocks.push({
+          key: nextKey++,
+          type: 'list',
+          ordered,
+          start: ordered ? parseInt(marker, 10) : 1,
+          items,
+        });
+        continue;
+      }
+
+      const paragraph: string[] = [];
+      while (
+        i < lines.length &&
+        !isBlank(lines[i]) &&
+        (paragraph.length === 0 || !startsBlock(lines[i]))
+      ) {
+        paragraph.push(lines[i].trim());
+        i++;
+      }
+      // Single line breaks are kept, as in comments on most code hosts
+      blocks.push({
+        key: nextKey++,
+        type: 'paragraph',
+        children: parseInline(paragraph.join('\n')),
+      });
+    }
+
+    return blocks;
+  };
+
+  return parseBlocks(
+    source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')
+  );
+}
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'break') {
+        return ' ';
+      }
+      return 'children' in node ? inlineText(node.children) : node.text;
+    })
+    .join('');
+
+const blockText = (blocks: MarkdownBlock[]): string[] =>
+  blocks.flatMap(block => {
+    if (block.type === 'rule') {
+      return [];
+    }
+    if (block.type === 'code') {
+      return [block.text];
+    }
+    if (block.type === 'quote') {
+      return blockText(block.children);
+    }
+    if (block.type === 'list') {
+      return block.items.flatMap(item => blockText(item.children));
+    }
+    return [inlineText(block.children)];
+  });
+
+/** The description as one line of plain text, shortened with an ellipsis. */
+export const getMarkdownExcerpt = (source: string, maxLength = 120) => {
+  const text = blockText(parseMarkdown(source))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength - 1).trimEnd()}…`
+    : text;
+};
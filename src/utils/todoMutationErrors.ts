@@ -0,0 +1,91 @@
+import type { CreateTodoInput, UpdateTodoInput } from '../apollo/types';
+import { isNetworkError } from './offline/mutationOutbox';
+import { getRecurrenceRuleProblem } from './todoRecurrence';
+
+/**
+ * - `validation`: the input was rejected, by us or by the server
+ * - `graphql`: the server ran the operation and returned an error
+ * - `network`: the request never got an answer
+ */
+export type TodoMutationErrorKind = 'validation' | 'graphql' | 'network';
+
+export interface TodoMutationError {
+  kind: TodoMutationErrorKind;
+  message: string;
+  /** One entry per problem, for showing next to the form. */
+  details: string[];
+}
+
+const VALIDATION_CODES = ['BAD_USER_INPUT', 'GRAPHQL_VALIDATION_FAILED'];
+
+interface GraphQLErrorLike {
+  message: string;
+  extensions?: { code?: unknown };
+}
+
+export function validateTodoInput(input: CreateTodoInput | UpdateTodoInput) {
+  const problems: string[] = [];
+
+  if (input.title?.trim().length === 0) {
+    problems.push('Title is required');
+  }
+  if (
+    typeof input.dueDate === 'string' &&
+    Number.isNaN(new Date(input.dueDate).getTime())
+  ) {
+    problems.push('Due date is not a valid date');
+  }
+  const recurrenceProblem = input.recurrence
+    ? getRecurrenceRuleProblem(input.recurrence)
+    : null;
+  if (recurrenceProblem) {
+    problems.push(recurrenceProblem);
+  }
+  if (input.subtasks?.some(subtask => subtask.title.trim().length === 0)) {
+    problems.push('Checklist items need a title');
+  }
+
+  return problems;
+}
+
+export const createValidationError = (
+  details: string[]
+): TodoMutationError => ({
+  kind: 'validation',
+  message: details.join(' '),
+  details,
+});
+
+export function normalizeTodoMutationError(error: unknown): TodoMutationError {
+  if (isNetworkError(error)) {
+    return {
+      kind: 'network',
+      message: 'Could not reach the server',
+      details: [],
+    };
+  }
+
+  const graphQLErrors =
+    (error as { graphQLErrors?: readonly GraphQLErrorLike[] }).graphQLErrors ??
+    [];
+  const messages = graphQLErrors.map(graphQLError => graphQLError.message);
+
+  if (
+    graphQLErrors.some(graphQLError =>
+      VALIDATION_CODES.includes(String(graphQLError.extensions?.code))
+    )
+  ) {
+    return createValidationError(messages);
+  }
+
+  const message =
+    messages.length > 0
+      ? messages.join(' ')
+      : ((error as Error | undefined)?.message ?? 'Unknown error');
+
+  return {
+    kind: 'graphql',
+    message: message || 'Unknown error',
+    details: messages,
+  };
+}
@@ -0,0 +1,31 @@
+import type { ApolloClient } from '@apollo/client';
+import { CREATE_TODO, UPDATE_TODO } from '../apollo/operations';
+import type { Todo } from '../apollo/types';
+import { getNextOccurrenceInput } from './todoRecurrence';
+
+/**
+ * Creates the next occurrence of a todo the server has marked completed and
+ * moves the rule over to it. A completed todo that still has a rule has not
+ * been continued yet; once the rule is gone, reopening and completing it
+ * again does not repeat it. Resolves to both server copies, or null when
+ * the todo does not repeat (anymore).
+ */
+export async function continueRecurringTodo(client: ApolloClient, todo: Todo) {
+  const input = todo.completed ? getNextOccurrenceInput(todo) : null;
+  if (!input) {
+    return null;
+  }
+
+  const { data: created } = await client.mutate({
+    mutation: CREATE_TODO,
+    variables: { input },
+  });
+  const { data: updated } = await client.mutate({
+    mutation: UPDATE_TODO,
+    variables: { id: todo.id, input: { recurrence: null } },
+  });
+  if (!created || !updated) {
+    throw new Error('The server returned no data');
+  }
+  return { next: created.createTodo, completed: updated.updateTodo };
+}
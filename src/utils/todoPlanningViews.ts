@@ -0,0 +1,10 @@
+/**
+ * Shared by the calendar and the board, which load all matching todos at
+ * once and reschedule or regroup them by drag and drop.
+ */
+
+// Pages load one after another until every matching todo is in
+export const PLANNING_VIEW_PAGE_SIZE = 100;
+
+/** `DataTransfer` type that carries the dragged todo's ID. */
+export const TODO_DRAG_TYPE = 'application/x-todo-id';
@@ -0,0 +1,128 @@
+import { TodoPriority } from '../apollo/types';
+import { parseQuickAdd } from './todoQuickAdd';
+import type { QuickAddOptions } from './todoQuickAdd';
+
+// Dates resolve in local time; config/jestGlobalSetup.js runs the tests in
+// New York. "Now" is Wednesday, March 13th 2024, 10:00
+const NOW = new Date(2024, 2, 13, 10, 0);
+
+const parse = (text: string, options: QuickAddOptions = {}) =>
+  parseQuickAdd(text, { now: NOW, locale: 'en-US', ...options });
+
+const dueOf = (text: string, options?: QuickAddOptions) =>
+  parse(text, options).dueDate;
+
+describe('parseQuickAdd', () => {
+  it('reads the title, due date and priority', () => {
+    expect(parse('Send invoice to ACME tomorrow 5pm !urgent')).toEqual({
+      title: 'Send invoice to ACME',
+      dueDate: new Date(2024, 2, 14, 17, 0),
+      priority: TodoPriority.URGENT,
+      tags: [],
+    });
+  });
+
+  it('reads tags and leaves text without phrases alone', () => {
+    expect(parse('Plan sprint #Work #work #team-a')).toMatchObject({
+      title: 'Plan sprint',
+      tags: ['work', 'team-a'],
+    });
+    expect(parse('Buy 2 apples and read Monday.com docs!')).toEqual({
+      title: 'Buy 2 apples and read Monday.com docs!',
+      dueDate: null,
+      priority: null,
+      tags: [],
+    });
+  });
+
+  it('keeps dismissed fields in the title', () => {
+    expect(
+      parse('Pay rent tomorrow !high', { ignore: ['dueDate'] })
+    ).toMatchObject({
+      title: 'Pay rent tomorrow',
+      dueDate: null,
+      priority: TodoPriority.HIGH,
+    });
+  });
+
+  it('keeps a dismissed tag in the title, other tags still read', () => {
+    expect(parse('Fix login #123 #auth', { ignore: ['#123'] })).toMatchObject({
+      title: 'Fix login #123',
+      tags: ['auth'],
+    });
+    expect(
+      parse('Fix login #123 #Auth #auth', { ignore: ['#auth'] })
+    ).toMatchObject({ title: 'Fix login #Auth #auth', tags: ['123'] });
+  });
+});
+
+describe('parseQuickAdd relative dates', () => {
+  it('resolves days from today at the end of the working day', () => {
+    expect(dueOf('Water plants today')).toEqual(new Date(2024, 2, 13, 17));
+    expect(dueOf('Call mom tonight')).toEqual(new Date(2024, 2, 13, 20));
+    expect(dueOf('Renew pass the day after tomorrow')).toEqual(
+      new Date(2024, 2, 15, 17)
+    );
+    expect(dueOf('Reply in 3 days')).toEqual(new Date(2024, 2, 16, 17));
+    expect(dueOf('Review in a week')).toEqual(new Date(2024, 2, 20, 17));
+  });
+
+  it('uses the coming weekday, a week ahead for today', () => {
+    expect(dueOf('Demo on Friday')).toEqual(new Date(2024, 2, 15, 17));
+    expect(dueOf('Standup wednesday 9am')).toEqual(new Date(2024, 2, 20, 9));
+    expect(dueOf('Plan next week')).toEqual(new Date(2024, 2, 18, 17));
+    expect(dueOf('Budget next month')).toEqual(new Date(2024, 3, 1, 17));
+  });
+
+  it('clamps months to their last day', () => {
+    expect(
+      dueOf('Invoice in 1 month', { now: new Date(2024, 0, 31, 10) })
+    ).toEqual(new Date(2024, 1, 29, 17));
+  });
+
+  it('keeps the time of day across a DST change', () => {
+    // The clocks spring forward on March 10th 2024
+    expect(
+      dueOf('Brunch tomorrow 9am', { now: new Date(2024, 2, 9, 10) })
+    ).toEqual(new Date(2024, 2, 10, 9, 0));
+  });
+});
+
+describe('parseQuickAdd absolute dates and times', () => {
+  it('reads month names and ISO dates', () => {
+    expect(dueOf('Taxes by April 15th')).toEqual(new Date(2024, 3, 15, 17));
+    expect(dueOf('Party 2 Nov 2024 at 7:30pm')).toEqual(
+      new Date(2024, 10, 2, 19, 30)
+    );
+    expect(dueOf('Report 2024-04-02 09:30')).toEqual(
+      new Date(2024, 3, 2, 9, 30)
+    );
+  });
+
+  it('moves dates that already passed this year to the next one', () => {
+    expect(dueOf('Dentist on March 5')).toEqual(new Date(2025, 2, 5, 17));
+  });
+
+  it('follows the locale for numeric dates and names', () => {
+    expect(dueOf('Trip 4/5')).toEqual(new Date(2024, 3, 5, 17));
+    expect(dueOf('Trip 4/5', { locale: 'en-GB' })).toEqual(
+      new Date(2024, 4, 4, 17)
+    );
+    expect(parse('Trip 31/4', { locale: 'en-GB' })).toMatchObject({
+      title: 'Trip 31/4',
+      dueDate: null,
+    });
+    expect(dueOf('Zahnarzt am 20. März', { locale: 'de-DE' })).toEqual(
+      new Date(2024, 2, 20, 17)
+    );
+    expect(dueOf('Einkaufen freitag', { locale: 'de-DE' })).toEqual(
+      new Date(2024, 2, 15, 17)
+    );
+  });
+
+  it('uses the next time the clock shows a time given on its own', () => {
+    expect(dueOf('Lunch at noon')).toEqual(new Date(2024, 2, 13, 12));
+    expect(dueOf('Call back at 9:30')).toEqual(new Date(2024, 2, 14, 9, 30));
+    expect(dueOf('Deploy 17:00')).toEqual(new Date(2024, 2, 13, 17));
+  });
+});
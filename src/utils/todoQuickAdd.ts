@@ -0,0 +1,381 @@
+/**
+ * Reads a todo out of one line of text, e.g.
+ * `Send invoice to ACME tomorrow 5pm !urgent #billing`. Dates resolve in the
+ * user's time zone; numeric dates follow the locale's day/month order and
+ * month and weekday names are read in the locale's language or in English.
+ */
+import { TodoPriority } from '../apollo/types';
+import { addDays, startOfDay, startOfWeek } from './calendarDates';
+import { normalizeTag } from './todoTags';
+
+export type QuickAddField = 'dueDate' | 'priority' | 'tags';
+
+/** A field, or a single tag as `#tag`. */
+export type QuickAddIgnore = QuickAddField | `#${string}`;
+
+export interface QuickAddOptions {
+  now?: Date;
+  /** Defaults to the browser's locale. */
+  locale?: string;
+  /** What to leave in the title, e.g. after the user dismissed it. */
+  ignore?: QuickAddIgnore[];
+}
+
+export interface QuickAddResult {
+  title: string;
+  dueDate: Date | null;
+  priority: TodoPriority | null;
+  tags: string[];
+}
+
+/** Due dates without a time are due at the end of the working day. */
+const DEFAULT_DUE_HOUR = 17;
+const TONIGHT_HOUR = 20;
+
+const PRIORITY_TOKENS: Record<string, TodoPriority> = {
+  low: TodoPriority.LOW,
+  med: TodoPriority.MEDIUM,
+  medium: TodoPriority.MEDIUM,
+  high: TodoPriority.HIGH,
+  urgent: TodoPriority.URGENT,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+type DateUnit = 'day' | 'week' | 'month' | 'year';
+
+// Phrases have to stand on their own, so `Monday.com` or `#a#b` do not match
+const START = '(^|\\s)';
+const END = '(?=$|\\s|[,.!?;](?:\\s|$))';
+// `on`, `by` and `due` before a date belong to the date, not the title
+const DATE_PREFIX = '(?:(?:on|by|due)\\s+)?';
+
+interface DatePart {
+  date: Date;
+  /** `tonight` brings its own time. */
+  hour?: number;
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const namePattern = (names: Map<string, number>) =>
+  [...names.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+
+/** Lowercase month (or weekday) names in the locale and in English. */
+const getNames = (
+  locale: string,
+  count: number,
+  field: 'month' | 'weekday',
+  widths: ('long' | 'short')[],
+  dateOf: (index: number) => Date
+) => {
+  const names = new Map<string, number>();
+  for (const language of [locale, 'en']) {
+    for (const width of widths) {
+      const format = new Intl.DateTimeFormat(language, { [field]: width });
+      for (let index = 0; index < count; index++) {
+        const name = format
+          .format(dateOf(index))
+          .toLocaleLowerCase(language)
+          .replace(/\.$/, '');
+        names.set(name, index);
+      }
+    }
+  }
+  return names;
+};
+
+/** Whether the locale writes the day before the month, as in `31/12`. */
+const dayComesFirst = (locale: string) => {
+  const parts = new Intl.DateTimeFormat(locale).formatToParts(
+    new Date(2000, 11, 31)
+  );
+  const order = parts.map(part => part.type);
+  return order.indexOf('day') < order.indexOf('month');
+};
+
+/** A local date, or null when the day does not exist in that month. */
+const makeDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month, day);
+  return date.getMonth() === ((month % 12) + 12) % 12 ? date : null;
+};
+
+const addUnits = (today: Date, amount: number, unit: DateUnit) => {
+  if (unit === 'day' || unit === 'week') {
+    return addDays(today, unit === 'week' ? amount * 7 : amount);
+  }
+  const months = unit === 'year' ? amount * 12 : amount;
+  const target = new Date(today.getFullYear(), today.getMonth() + months, 1);
+  // The 31st plus a month is the last day of a shorter month
+  const lastDay = new Date(
+    target.getFullYear(),
+    target.getMonth() + 1,
+    0
+  ).getDate();
+  target.setDate(Math.min(today.getDate(), lastDay));
+  return target;
+};
+
+/** Dates without a year that already passed mean next year. */
+const upcoming = (month: number, day: number, today: Date) => {
+  const date = makeDate(today.getFullYear(), month, day);
+  if (date && date < today) {
+    return makeDate(today.getFullYear() + 1, month, day);
+  }
+  return date;
+};
+
+const toFullYear = (year: string) =>
+  year.length === 2 ? 2000 + Number(year) : Number(year);
+
+/** Turns `5pm`, `5:30 pm`, `17:00`, `noon` and `midnight` into a time. */
+const readTime = (match: RegExpExecArray) => {
+  const [, , word, hours, minutes, meridiem] = match;
+  if (word) {
+    return { hours: word.toLowerCase() === 'noon' ? 12 : 0, minutes: 0 };
+  }
+  let hour = Number(hours);
+  const minute = minutes ? Number(minutes) : 0;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  } else if (!minutes || hour > 23) {
+    return null;
+  }
+  return minute < 60 ? { hours: hour, minutes: minute } : null;
+};
+
+const TIME = new RegExp(
+  `${START}(?:at\\s+)?(?:(noon|midnight)|(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?)${END}`,
+  'i'
+);
+
+export function parseQuickAdd(
+  text: string,
+  {
+    now = new Date(),
+    locale = navigator.language,
+    ignore = [],
+  }: QuickAddOptions = {}
+): QuickAddResult {
+  let rest = ` ${text} `;
+  const today = startOfDay(now);
+
+  // Removes the first match `read` accepts and returns what it read
+  const take = <T>(
+    pattern: RegExp,
+    read: (match: RegExpExecArray) => T | null
+  ): T | null => {
+    const global = new RegExp(pattern.source, `${pattern.flags}g`);
+    for (const match of rest.matchAll(global)) {
+      const value = read(match);
+      if (value !== null) {
+        // Keeps the whitespace before the phrase
+        const start = match.index + match[1].length;
+        const end = match.index + match[0].length;
+        rest = `${rest.slice(0, start)} ${rest.slice(end)}`;
+        return value;
+      }
+    }
+    return null;
+  };
+
+  let priority: TodoPriority | null = null;
+  if (!ignore.includes('priority')) {
+    priority = take(
+      new RegExp(
+        `${START}!(${Object.keys(PRIORITY_TOKENS).join('|')})${END}`,
+        'i'
+      ),
+      match => PRIORITY_TOKENS[match[2].toLowerCase()]
+    );
+  }
+
+  const tags: string[] = [];
+  if (!ignore.includes('tags')) {
+    let tag: string | null;
+    do {
+      tag = take(
+        new RegExp(`${START}#([\\p{L}\\p{N}_-]+)${END}`, 'u'),
+        match => {
+          const name = normalizeTag(match[2]);
+          return ignore.includes(`#${name}`) ? null : name;
+        }
+      );
+      if (tag && !tags.includes(tag)) {
+        tags.push(tag);
+      }
+    } while (tag);
+  }
+
+  let dueDate: Date | null = null;
+  if (!ignore.includes('dueDate')) {
+    const months = getNames(
+      locale,
+      12,
+      'month',
+      ['long', 'short'],
+      index => new Date(2000, index, 1)
+    );
+    // Short weekday names are too often words (`sat`, `sun`), so only the
+    // long ones count. January 2nd 2000 was a Sunday, index 0 of `getDay`
+    const weekdays = getNames(
+      locale,
+      7,
+      'weekday',
+      ['long'],
+      index => new Date(2000, 0, 2 + index)
+    );
+    const monthPattern = namePattern(months);
+    const dayFirst = dayComesFirst(locale);
+
+    const datePatterns: [
+      RegExp,
+      (match: RegExpExecArray) => DatePart | null,
+    ][] = [
+      [
+        /(\d{4})-(\d{2})-(\d{2})/,
+        ([, , year, month, day]) => {
+          const date = makeDate(Number(year), Number(month) - 1, Number(day));
+          return date && { date };
+        },
+      ],
+      [
+        /(\d{1,2})[/.](\d{1,2})(?:[/.](\d{4}|\d{2}))?/,
+        ([, , first, second, year]) => {
+          const [day, month] = dayFirst ? [first, second] : [second, first];
+          const date = year
+            ? makeDate(toFullYear(year), Number(month) - 1, Number(day))
+            : upcoming(Number(month) - 1, Number(day), today);
+          return date && { date };
+        },
+      ],
+      [
+        /(?:the\s+)?day\s+after\s+tomorrow/,
+        () => ({ date: addDays(today, 2) }),
+      ],
+      [
+        /(today|tonight|tomorrow|tmrw)/,
+        ([, , word]) => {
+          const lower = word.toLowerCase();
+          if (lower === 'tonight') {
+            return { date: today, hour: TONIGHT_HOUR };
+          }
+          return { date: lower === 'today' ? today : addDays(today, 1) };
+        },
+      ],
+      [
+        new RegExp(
+          `in\\s+(\\d+|${Object.keys(NUMBER_WORDS).join('|')})\\s+(day|week|month|year)s?`
+        ),
+        ([, , amount, unit]) => ({
+          date: addUnits(
+            today,
+            NUMBER_WORDS[amount.toLowerCase()] ?? Number(amount),
+            unit.toLowerCase() as DateUnit
+          ),
+        }),
+      ],
+      [
+        /next\s+(week|month)/,
+        ([, , unit]) => ({
+          date:
+            unit.toLowerCase() === 'week'
+              ? addDays(startOfWeek(today), 7)
+              : new Date(today.getFullYear(), today.getMonth() + 1, 1),
+        }),
+      ],
+      [
+        new RegExp(`(?:next\\s+)?(${namePattern(weekdays)})`),
+        ([, , name]) => {
+          const weekday = weekdays.get(name.toLowerCase()) ?? 0;
+          // Always the coming one, a week ahead when it is today
+          return {
+            date: addDays(today, ((weekday - today.getDay() + 6) % 7) + 1),
+          };
+        },
+      ],
+      [
+        new RegExp(
+          `(${monthPattern})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`
+        ),
+        ([, , name, day, year]) => {
+          const month = months.get(name.toLowerCase()) ?? 0;
+          const date = year
+            ? makeDate(Number(year), month, Number(day))
+            : upcoming(month, Number(day), today);
+          return date && { date };
+        },
+      ],
+      [
+        new RegExp(
+          `(\\d{1,2})(?:st|nd|rd|th)?\\.?\\s+(?:of\\s+)?(${monthPattern})\\.?(?:\\s+(\\d{4}))?`
+        ),
+        ([, , day, name, year]) => {
+          const month = months.get(name.toLowerCase()) ?? 0;
+          const date = year
+            ? makeDate(Number(year), month, Number(day))
+            : upcoming(month, Number(day), today);
+          return date && { date };
+        },
+      ],
+    ];
+
+    let datePart: DatePart | null = null;
+    for (const [pattern, read] of datePatterns) {
+      datePart = take(
+        new RegExp(`${START}${DATE_PREFIX}${pattern.source}${END}`, 'iu'),
+        read
+      );
+      if (datePart) {
+        break;
+      }
+    }
+    const time = take(TIME, readTime);
+
+    if (datePart) {
+      dueDate = new Date(datePart.date);
+      dueDate.setHours(
+        time?.hours ?? datePart.hour ?? DEFAULT_DUE_HOUR,
+        time?.minutes ?? 0
+      );
+    } else if (time) {
+      // A time on its own is the next time the clock shows it
+      dueDate = new Date(today);
+      dueDate.setHours(time.hours, time.minutes);
+      if (dueDate <= now) {
+        dueDate = addDays(today, 1);
+        dueDate.setHours(time.hours, time.minutes);
+      }
+    }
+  }
+
+  return {
+    title: rest
+      .replace(/\s+/g, ' ')
+      .replace(/ ([,.!?;])/g, '$1')
+      .trim(),
+    dueDate,
+    priority,
+    tags,
+  };
+}
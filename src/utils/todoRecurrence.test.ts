@@ -0,0 +1,241 @@
+import { TodoPriority } from '../apollo/types';
+import type { Todo } from '../apollo/types';
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getNextOccurrenceInput,
+  getRecurrenceRuleProblem,
+  parseRecurrenceRule,
+} from './todoRecurrence';
+
+// Occurrences are computed in local time. config/jestGlobalSetup.js runs
+// the tests in New York, where the clocks change on 2024-03-10 and 2024-11-03
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const next = (rule: string, after: Date) =>
+  getNextOccurrence(parseRecurrenceRule(rule), after);
+
+const makeTodo = (overrides: Partial<Todo>): Todo => ({
+  id: 'todo-1',
+  title: 'Weekly report',
+  description: 'Send it to the team',
+  completed: true,
+  priority: TodoPriority.HIGH,
+  dueDate: null,
+  recurrence: null,
+  subtasks: [],
+  tags: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('parseRecurrenceRule', () => {
+  it('reads the supported parts and formats them back', () => {
+    const rule = parseRecurrenceRule(
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO'
+    );
+
+    expect(rule).toEqual({
+      frequency: 'WEEKLY',
+      interval: 2,
+      weekdays: ['TH', 'MO'],
+    });
+    expect(formatRecurrenceRule(rule)).toBe(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'
+    );
+  });
+
+  it('reports rules outside the supported subset', () => {
+    expect(getRecurrenceRuleProblem('FREQ=MONTHLY;BYMONTHDAY=-1')).toBeNull();
+    expect(getRecurrenceRuleProblem('FREQ=HOURLY')).toMatch(/FREQ must be/);
+    expect(getRecurrenceRuleProblem('FREQ=DAILY;COUNT=3')).toMatch(
+      /COUNT is not supported/
+    );
+    expect(getRecurrenceRuleProblem('FREQ=DAILY;INTERVAL=0')).toMatch(
+      /INTERVAL/
+    );
+    expect(getRecurrenceRuleProblem('FREQ=DAILY;BYDAY=MO')).toMatch(/BYDAY/);
+    expect(getRecurrenceRuleProblem('FREQ=MONTHLY;BYMONTHDAY=32')).toMatch(
+      /BYMONTHDAY/
+    );
+  });
+
+  it('describes rules for people', () => {
+    expect(describeRecurrence('FREQ=DAILY')).toBe('Daily');
+    expect(describeRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO')).toBe(
+      'Every 2 weeks on Mon, Thu'
+    );
+    expect(describeRecurrence('FREQ=MONTHLY;BYMONTHDAY=-1')).toBe(
+      'Monthly on the last day'
+    );
+  });
+});
+
+describe('getNextOccurrence across DST changes', () => {
+  it('keeps the time of day when the clocks spring forward', () => {
+    const after = new Date(2024, 2, 9, 9, 0);
+    const occurrence = next('FREQ=DAILY', after);
+
+    expect(occurrence).toEqual(new Date(2024, 2, 10, 9, 0));
+    // That day is only 23 hours long
+    expect(occurrence!.getTime() - after.getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it('keeps the time of day when the clocks fall back', () => {
+    const after = new Date(2024, 10, 1, 9, 0);
+    const occurrence = next('FREQ=WEEKLY;BYDAY=FR', after);
+
+    expect(occurrence).toEqual(new Date(2024, 10, 8, 9, 0));
+    expect(occurrence!.getTime() - after.getTime()).toBe(
+      7 * 24 * HOUR_MS + HOUR_MS
+    );
+  });
+
+  it('keeps the time of day for monthly rules spanning a change', () => {
+    expect(next('FREQ=MONTHLY', new Date(2024, 1, 20, 18, 30))).toEqual(
+      new Date(2024, 2, 20, 18, 30)
+    );
+    expect(next('FREQ=MONTHLY', new Date(2024, 9, 15, 8, 0))).toEqual(
+      new Date(2024, 10, 15, 8, 0)
+    );
+  });
+});
+
+describe('getNextOccurrence at the end of a month', () => {
+  it('falls back to the last day of shorter months', () => {
+    const rule = 'FREQ=MONTHLY;BYMONTHDAY=31';
+
+    const february = next(rule, new Date(2024, 0, 31, 9, 0));
+    expect(february).toEqual(new Date(2024, 1, 29, 9, 0));
+    expect(next(rule, february!)).toEqual(new Date(2024, 2, 31, 9, 0));
+    expect(next(rule, new Date(2023, 0, 31, 9, 0))).toEqual(
+      new Date(2023, 1, 28, 9, 0)
+    );
+    expect(next(rule, new Date(2024, 2, 31, 9, 0))).toEqual(
+      new Date(2024, 3, 30, 9, 0)
+    );
+  });
+
+  it('uses the last day of every month for BYMONTHDAY=-1', () => {
+    const rule = 'FREQ=MONTHLY;BYMONTHDAY=-1';
+
+    expect(next(rule, new Date(2024, 3, 30, 9, 0))).toEqual(
+      new Date(2024, 4, 31, 9, 0)
+    );
+    expect(next(rule, new Date(2025, 0, 31, 9, 0))).toEqual(
+      new Date(2025, 1, 28, 9, 0)
+    );
+  });
+
+  it('can land later in the same month', () => {
+    expect(
+      next('FREQ=MONTHLY;BYMONTHDAY=15', new Date(2024, 0, 10, 9, 0))
+    ).toEqual(new Date(2024, 0, 15, 9, 0));
+  });
+
+  it('moves February 29th to the 28th in other years', () => {
+    expect(next('FREQ=YEARLY', new Date(2024, 1, 29, 9, 0))).toEqual(
+      new Date(2025, 1, 28, 9, 0)
+    );
+  });
+
+  it('crosses the end of the year', () => {
+    expect(next('FREQ=DAILY', new Date(2024, 11, 31, 9, 0))).toEqual(
+      new Date(2025, 0, 1, 9, 0)
+    );
+    expect(
+      next('FREQ=WEEKLY;BYDAY=MO,TH', new Date(2024, 11, 27, 9, 0))
+    ).toEqual(new Date(2024, 11, 30, 9, 0));
+  });
+});
+
+describe('getNextOccurrence for weekly rules', () => {
+  it('only uses every INTERVAL-th week', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH';
+
+    // Monday, January 1st 2024
+    const thursday = next(rule, new Date(2024, 0, 1, 9, 0));
+    expect(thursday).toEqual(new Date(2024, 0, 4, 9, 0));
+    expect(next(rule, thursday!)).toEqual(new Date(2024, 0, 15, 9, 0));
+  });
+
+  it('stops after UNTIL', () => {
+    const rule = 'FREQ=WEEKLY;UNTIL=20240110';
+
+    expect(next(rule, new Date(2024, 0, 1, 9, 0))).toEqual(
+      new Date(2024, 0, 8, 9, 0)
+    );
+    expect(next(rule, new Date(2024, 0, 8, 9, 0))).toBeNull();
+  });
+});
+
+describe('getNextOccurrenceInput', () => {
+  it('copies the todo with the next due date and a fresh checklist', () => {
+    const todo = makeTodo({
+      dueDate: new Date(2024, 0, 5, 9, 0).toISOString(),
+      recurrence: 'FREQ=WEEKLY;BYDAY=FR',
+      subtasks: [
+        { id: 'subtask-1', title: 'Collect numbers', completed: true },
+      ],
+    });
+
+    expect(getNextOccurrenceInput(todo, new Date(2024, 0, 5, 12, 0))).toEqual({
+      title: 'Weekly report',
+      description: 'Send it to the team',
+      priority: TodoPriority.HIGH,
+      dueDate: new Date(2024, 0, 12, 9, 0).toISOString(),
+      recurrence: 'FREQ=WEEKLY;BYDAY=FR',
+      subtasks: [{ title: 'Collect numbers', completed: false }],
+      tags: [],
+    });
+  });
+
+  it('pins monthly rules to the due day so they stay at the month end', () => {
+    const todo = makeTodo({
+      dueDate: new Date(2024, 0, 31, 9, 0).toISOString(),
+      recurrence: 'FREQ=MONTHLY',
+    });
+
+    const february = getNextOccurrenceInput(todo, new Date(2024, 0, 31, 10));
+    expect(february).toMatchObject({
+      dueDate: new Date(2024, 1, 29, 9, 0).toISOString(),
+      recurrence: 'FREQ=MONTHLY;BYMONTHDAY=31',
+    });
+
+    const march = getNextOccurrenceInput(
+      makeTodo({
+        dueDate: february?.dueDate,
+        recurrence: february?.recurrence,
+      }),
+      new Date(2024, 1, 29, 10)
+    );
+    expect(march?.dueDate).toBe(new Date(2024, 2, 31, 9, 0).toISOString());
+  });
+
+  it('skips occurrences missed while the todo was overdue', () => {
+    const todo = makeTodo({
+      dueDate: new Date(2024, 0, 1, 9, 0).toISOString(),
+      recurrence: 'FREQ=DAILY',
+    });
+
+    expect(
+      getNextOccurrenceInput(todo, new Date(2024, 0, 10, 12, 0))?.dueDate
+    ).toBe(new Date(2024, 0, 11, 9, 0).toISOString());
+  });
+
+  it('returns null for todos that do not repeat (anymore)', () => {
+    expect(getNextOccurrenceInput(makeTodo({}))).toBeNull();
+    expect(
+      getNextOccurrenceInput(
+        makeTodo({
+          dueDate: new Date(2024, 0, 8, 9, 0).toISOString(),
+          recurrence: 'FREQ=WEEKLY;UNTIL=20240110',
+        }),
+        new Date(2024, 0, 8, 10, 0)
+      )
+    ).toBeNull();
+  });
+});
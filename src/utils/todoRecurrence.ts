@@ -0,0 +1,359 @@
+import type { CreateTodoInput, Todo } from '../apollo/types';
+
+/**
+ * The RRULE subset (RFC 5545) todos can repeat by: FREQ, INTERVAL, BYDAY
+ * for weekly rules, BYMONTHDAY for monthly rules and UNTIL. Occurrences
+ * keep the local time of day of the due date, across DST changes too.
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  /** Weekly rules only; empty repeats on the due date's weekday. */
+  weekdays: RecurrenceWeekday[];
+  /** Monthly rules only; -1 is the last day of the month. */
+  monthDay?: number;
+  until?: Date;
+}
+
+/** In calendar order, starting on Monday like RRULE's default WKST. */
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = [
+  'MO',
+  'TU',
+  'WE',
+  'TH',
+  'FR',
+  'SA',
+  'SU',
+];
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+];
+
+const WEEKDAY_NAMES: Record<RecurrenceWeekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, [string, string]> = {
+  DAILY: ['Daily', 'days'],
+  WEEKLY: ['Weekly', 'weeks'],
+  MONTHLY: ['Monthly', 'months'],
+  YEARLY: ['Yearly', 'years'],
+};
+
+// Guards the search loops against rules that can never match
+const MAX_ITERATIONS = 1000;
+
+const weekdayOf = (date: Date) =>
+  RECURRENCE_WEEKDAYS[(date.getDay() + 6) % RECURRENCE_WEEKDAYS.length];
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(year, month + 1, 0).getDate();
+
+/** Days since the epoch of the local calendar date, unaffected by DST. */
+const dayNumber = (date: Date) =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000;
+
+interface LocalShift {
+  days?: number;
+  months?: number;
+  years?: number;
+  /** Day of the target month; -1 is its last day. */
+  day?: number;
+}
+
+/** `base` moved by whole days, months or years at the same local time. */
+const shiftLocal = (
+  base: Date,
+  { days = 0, months = 0, years = 0, day }: LocalShift
+) => {
+  const year = base.getFullYear() + years;
+  const month = base.getMonth() + months;
+  // Month arithmetic lands on the requested day, clamped to the month
+  const targetDay =
+    day === undefined
+      ? base.getDate() + days
+      : Math.min(
+          day === -1 ? Number.MAX_SAFE_INTEGER : day,
+          daysInMonth(year, month)
+        );
+  return new Date(
+    year,
+    month,
+    targetDay,
+    base.getHours(),
+    base.getMinutes(),
+    base.getSeconds()
+  );
+};
+
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value
+  );
+  if (!match) {
+    throw new Error(`UNTIL "${value}" is not a valid date`);
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    // A date without a time includes the whole day
+    hours ? Number(hours) : 23,
+    minutes ? Number(minutes) : 59,
+    seconds ? Number(seconds) : 59,
+  ] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+const formatUntil = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+/** Parses a rule like `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH`. */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  text
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(part => part.length > 0)
+    .forEach(part => {
+      const [key, value = ''] = part.split('=');
+      parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+    });
+
+  const frequency = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!frequency || !FREQUENCIES.includes(frequency)) {
+    throw new Error('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  const rule: RecurrenceRule = { frequency, interval: 1, weekdays: [] };
+
+  parts.forEach((value, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          throw new Error('INTERVAL must be a positive number');
+        }
+        break;
+      case 'BYDAY':
+        if (frequency !== 'WEEKLY') {
+          throw new Error('BYDAY is only supported weekly');
+        }
+        rule.weekdays = value.split(',').map(day => {
+          if (!RECURRENCE_WEEKDAYS.includes(day as RecurrenceWeekday)) {
+            throw new Error(`BYDAY "${day}" is not a weekday`);
+          }
+          return day as RecurrenceWeekday;
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (frequency !== 'MONTHLY') {
+          throw new Error('BYMONTHDAY is only supported monthly');
+        }
+        rule.monthDay = Number(value);
+        if (
+          !Number.isInteger(rule.monthDay) ||
+          !(rule.monthDay === -1 || (rule.monthDay >= 1 && rule.monthDay <= 31))
+        ) {
+          throw new Error('BYMONTHDAY must be 1 to 31 or -1');
+        }
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      default:
+        throw new Error(`${key} is not supported`);
+    }
+  });
+
+  return rule;
+}
+
+/** The problem with `text` as a rule, or null when it can be used. */
+export function getRecurrenceRuleProblem(text: string) {
+  try {
+    parseRecurrenceRule(text);
+    return null;
+  } catch (error) {
+    return `Recurrence rule is not valid: ${(error as Error).message}`;
+  }
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.frequency === 'WEEKLY' && rule.weekdays.length > 0) {
+    const days = RECURRENCE_WEEKDAYS.filter(day => rule.weekdays.includes(day));
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (rule.frequency === 'MONTHLY' && rule.monthDay !== undefined) {
+    parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  }
+  return parts.join(';');
+}
+
+/** A short label like "Every 2 weeks on Mon, Thu". */
+export function describeRecurrenceRule(rule: RecurrenceRule) {
+  const [single, plural] = FREQUENCY_UNITS[rule.frequency];
+  let text = rule.interval === 1 ? single : `Every ${rule.interval} ${plural}`;
+
+  if (rule.frequency === 'WEEKLY' && rule.weekdays.length > 0) {
+    text += ` on ${RECURRENCE_WEEKDAYS.filter(day =>
+      rule.weekdays.includes(day)
+    )
+      .map(day => WEEKDAY_NAMES[day])
+      .join(', ')}`;
+  }
+  if (rule.frequency === 'MONTHLY' && rule.monthDay !== undefined) {
+    text +=
+      rule.monthDay === -1 ? ' on the last day' : ` on day ${rule.monthDay}`;
+  }
+  if (rule.until) {
+    text += ` until ${rule.until.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })}`;
+  }
+  return text;
+}
+
+/** Label for a stored rule; falls back to the raw text if it is invalid. */
+export function describeRecurrence(text: string) {
+  try {
+    return describeRecurrenceRule(parseRecurrenceRule(text));
+  } catch {
+    return text;
+  }
+}
+
+const nextWeekly = (rule: RecurrenceRule, after: Date) => {
+  if (rule.weekdays.length === 0) {
+    return shiftLocal(after, { days: 7 * rule.interval });
+  }
+  // Weeks are counted from the Monday of the week `after` falls in
+  const weekStart =
+    dayNumber(after) - RECURRENCE_WEEKDAYS.indexOf(weekdayOf(after));
+  for (let offset = 1; offset < MAX_ITERATIONS; offset += 1) {
+    const candidate = shiftLocal(after, { days: offset });
+    const week = Math.floor((dayNumber(candidate) - weekStart) / 7);
+    if (
+      week % rule.interval === 0 &&
+      rule.weekdays.includes(weekdayOf(candidate))
+    ) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+const nextMonthly = (rule: RecurrenceRule, after: Date) => {
+  const day = rule.monthDay ?? after.getDate();
+  // With BYMONTHDAY the next occurrence can still be in the same month
+  for (let months = 0; months < MAX_ITERATIONS; months += rule.interval) {
+    const candidate = shiftLocal(after, { months, day });
+    if (candidate.getTime() > after.getTime()) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * The first occurrence after `after`, or null once the rule has ended.
+ * Days that do not exist in a month (the 31st, February 29th) fall back to
+ * its last day rather than being skipped as RFC 5545 would.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: Date) {
+  const next: Record<RecurrenceFrequency, () => Date | null> = {
+    DAILY: () => shiftLocal(after, { days: rule.interval }),
+    WEEKLY: () => nextWeekly(rule, after),
+    MONTHLY: () => nextMonthly(rule, after),
+    YEARLY: () =>
+      shiftLocal(after, { years: rule.interval, day: after.getDate() }),
+  };
+  const occurrence = next[rule.frequency]();
+  if (!occurrence || (rule.until && occurrence > rule.until)) {
+    return null;
+  }
+  return occurrence;
+}
+
+/**
+ * The todo to create once a recurring todo is completed, or null when it
+ * does not repeat (anymore). Occurrences missed while the todo was overdue
+ * are skipped, so the next one is always in the future.
+ */
+export function getNextOccurrenceInput(
+  todo: Todo,
+  now = new Date()
+): CreateTodoInput | null {
+  if (!todo.recurrence) {
+    return null;
+  }
+
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(todo.recurrence);
+  } catch {
+    return null;
+  }
+
+  const dueDate = todo.dueDate ? new Date(todo.dueDate) : now;
+  // Without BYMONTHDAY, a todo due on the 31st would move to the 28th after
+  // February and stay there; pinning the day keeps it at the month end
+  if (rule.frequency === 'MONTHLY' && rule.monthDay === undefined) {
+    rule = { ...rule, monthDay: dueDate.getDate() };
+  }
+
+  let occurrence = getNextOccurrence(rule, dueDate);
+  for (
+    let step = 0;
+    occurrence &&
+    occurrence.getTime() <= now.getTime() &&
+    step < MAX_ITERATIONS;
+    step += 1
+  ) {
+    occurrence = getNextOccurrence(rule, occurrence);
+  }
+  if (!occurrence) {
+    return null;
+  }
+
+  return {
+    title: todo.title,
+    description: todo.description,
+    priority: todo.priority,
+    dueDate: occurrence.toISOString(),
+    recurrence: formatRecurrenceRule(rule),
+    // The checklist starts over for every occurrence
+    subtasks: todo.subtasks.map(({ title }) => ({ title, completed: false })),
+    tags: todo.tags,
+  };
+}
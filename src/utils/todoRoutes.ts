@@ -0,0 +1,14 @@
+/**
+ * Route paths shared with the host shell and other remotes, so deep links
+ * to a todo do not have to hard-code this remote's URL layout.
+ */
+export const TODO_LIST_PATH = '/';
+
+export const TODO_DETAIL_PATH = '/todos/:id';
+
+export const TODO_CALENDAR_PATH = '/calendar';
+
+export const TODO_BOARD_PATH = '/board';
+
+export const getTodoDetailPath = (id: string) =>
+  `/todos/${encodeURIComponent(id)}`;
@@ -0,0 +1,51 @@
+import type { Subtask, SubtaskInput } from '../apollo/types';
+
+/** A checklist row in a form; `id` is missing until the item is saved. */
+export interface ChecklistItem {
+  key: string;
+  id?: string;
+  title: string;
+  completed: boolean;
+}
+
+let nextItemKey = 1;
+
+export const createChecklistItem = (title: string): ChecklistItem => ({
+  key: `new-${nextItemKey++}`,
+  title,
+  completed: false,
+});
+
+export const toChecklistItems = (subtasks: Subtask[]): ChecklistItem[] =>
+  subtasks.map(({ id, title, completed }) => ({
+    key: id,
+    id,
+    title,
+    completed,
+  }));
+
+export const toSubtaskInputs = (items: ChecklistItem[]): SubtaskInput[] =>
+  items.map(({ id, title, completed }) => ({
+    ...(id ? { id } : {}),
+    title: title.trim(),
+    completed,
+  }));
+
+/** Whether the form's checklist differs from the saved one. */
+export const checklistChanged = (subtasks: Subtask[], items: ChecklistItem[]) =>
+  subtasks.length !== items.length ||
+  items.some(
+    (item, index) =>
+      item.id !== subtasks[index].id ||
+      item.title.trim() !== subtasks[index].title ||
+      item.completed !== subtasks[index].completed
+  );
+
+export const getSubtaskProgress = (subtasks: Pick<Subtask, 'completed'>[]) => ({
+  done: subtasks.filter(subtask => subtask.completed).length,
+  total: subtasks.length,
+});
+
+/** True for a non-empty checklist with every item ticked off. */
+export const allSubtasksDone = (subtasks: Pick<Subtask, 'completed'>[]) =>
+  subtasks.length > 0 && subtasks.every(subtask => subtask.completed);
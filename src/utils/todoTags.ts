@@ -0,0 +1,52 @@
+import { TagMatch } from '../apollo/types';
+
+const MAX_TAG_LENGTH = 32;
+
+// Text and background pairs that stay readable; a tag always gets the same one
+const TAG_COLORS = [
+  { color: '#1e40af', backgroundColor: '#dbeafe' },
+  { color: '#166534', backgroundColor: '#dcfce7' },
+  { color: '#9a3412', backgroundColor: '#ffedd5' },
+  { color: '#6b21a8', backgroundColor: '#f3e8ff' },
+  { color: '#9f1239', backgroundColor: '#ffe4e6' },
+  { color: '#115e59', backgroundColor: '#ccfbf1' },
+  { color: '#854d0e', backgroundColor: '#fef9c3' },
+  { color: '#3730a3', backgroundColor: '#e0e7ff' },
+];
+
+/** Tags are stored lowercase and short, with dashes instead of spaces. */
+export const normalizeTag = (text: string) =>
+  text.trim().toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH);
+
+/** Normalized, without blanks and duplicates, sorted like the API does. */
+export const normalizeTags = (tags: string[]) =>
+  [...new Set(tags.map(normalizeTag))]
+    .filter(tag => tag.length > 0)
+    .sort((a, b) => a.localeCompare(b));
+
+/** Whether a picked selection differs from the saved tags. */
+export const tagsChanged = (saved: string[], tags: string[]) =>
+  saved.length !== tags.length ||
+  tags.some((tag, index) => tag !== saved[index]);
+
+export const getTagColors = (tag: string) => {
+  let hash = 0;
+  for (const char of tag) {
+    hash = (hash * 31 + (char.codePointAt(0) ?? 0)) % 2147483647;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+};
+
+/** Mirrors the API's `tags`/`tagMatch` filter. */
+export const tagsMatch = (
+  todoTags: string[],
+  filterTags: string[],
+  match: TagMatch = TagMatch.ANY
+) => {
+  if (filterTags.length === 0) {
+    return true;
+  }
+  return match === TagMatch.ALL
+    ? filterTags.every(tag => todoTags.includes(tag))
+    : filterTags.some(tag => todoTags.includes(tag));
+};
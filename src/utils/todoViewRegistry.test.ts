@@ -0,0 +1,104 @@
+import { InMemoryCache } from '@apollo/client';
+import { GET_TODOS } from '../apollo/operations';
+import { TodoSortField } from '../apollo/types';
+import type { TodosQueryVariables } from './hooks/useTodos';
+import {
+  consumeStaleTodoView,
+  getTodoViews,
+  refreshTodoViews,
+  registerTodoView,
+  setTodoViewCache,
+} from './todoViewRegistry';
+import type { TodoViewHandle } from './todoViewRegistry';
+
+const variablesFor = (completed: boolean): TodosQueryVariables => ({
+  filters: { completed },
+  pagination: {
+    page: 1,
+    limit: 10,
+    sortBy: TodoSortField.CREATED_AT,
+    sortOrder: 'desc',
+  },
+});
+
+const writeList = (cache: InMemoryCache, variables: TodosQueryVariables) => {
+  cache.writeQuery({
+    query: GET_TODOS,
+    variables,
+    data: {
+      todos: {
+        __typename: 'TodosResponse',
+        data: [],
+        pagination: {
+          __typename: 'PaginationInfo',
+          page: 1,
+          limit: 10,
+          total: 0,
+          totalPages: 0,
+        },
+      },
+    },
+  });
+};
+
+const createHandle = (
+  entityKey: string,
+  variables: TodosQueryVariables
+): TodoViewHandle => ({
+  entityKey,
+  variables,
+  infinite: false,
+  refresh: jest.fn(() => Promise.resolve()),
+  getTodos: () => [],
+  updateTodo: () => Promise.resolve(),
+  removeTodo: () => Promise.resolve(),
+  replaceTodos: () => Promise.resolve(),
+});
+
+describe('refreshTodoViews', () => {
+  it('refetches mounted lists and drops every other cached list', async () => {
+    const cache = new InMemoryCache();
+    setTodoViewCache(cache);
+    // Restored from storage; no view has asked for these yet
+    writeList(cache, variablesFor(false));
+    writeList(cache, variablesFor(true));
+
+    const open = createHandle('todos:open', variablesFor(false));
+    registerTodoView(open);
+    registerTodoView(createHandle('todos:closed', variablesFor(true)))();
+
+    expect(getTodoViews().map(view => view.entityKey)).toEqual([
+      'todos:open',
+      'todos:closed',
+    ]);
+
+    await refreshTodoViews();
+
+    expect(open.refresh).toHaveBeenCalledWith(true);
+    expect(consumeStaleTodoView('todos:closed')).toBe(true);
+    const read = (variables: TodosQueryVariables) =>
+      cache.readQuery({ query: GET_TODOS, variables });
+    expect(read(variablesFor(false))).not.toBeNull();
+    expect(read(variablesFor(true))).toBeNull();
+  });
+
+  it('finds lists that are only in the cache', async () => {
+    const cache = new InMemoryCache();
+    setTodoViewCache(cache);
+    const variables: TodosQueryVariables = {
+      ...variablesFor(false),
+      filters: { completed: false, tags: ['release'] },
+    };
+    writeList(cache, variables);
+
+    // The key a mounted list with these filters would use
+    const entityKey =
+      'todos:{"filters":{"completed":false,"tags":["release"]},' +
+      '"pagination":{"page":1,"limit":10,"sortBy":"CREATED_AT","sortOrder":"desc"}}';
+    expect(getTodoViews()).toContainEqual({ entityKey, variables });
+
+    await refreshTodoViews();
+    expect(cache.readQuery({ query: GET_TODOS, variables })).toBeNull();
+    expect(consumeStaleTodoView(entityKey)).toBe(true);
+  });
+});
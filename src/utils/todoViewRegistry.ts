@@ -0,0 +1,215 @@
+import type { ApolloCache, NormalizedCacheObject } from '@apollo/client';
+import type { Todo, TodoFilterInput } from '../apollo/types';
+import type { TodosQueryVariables } from './hooks/useTodos';
+
+/**
+ * Every `useTodos` instance registers its entity key here so that code which
+ * affects all todo lists (force sync, cross-view updates) can reach them.
+ * Keys stay known after their view unmounts; those are marked stale and
+ * refreshed the next time a view with that key mounts. Lists that only live
+ * in the Apollo cache, e.g. restored from storage and not mounted since the
+ * page loaded, are found through the cache itself.
+ */
+export interface TodoViewHandle {
+  entityKey: string;
+  variables: TodosQueryVariables;
+  infinite: boolean;
+  refresh: (avoidCache?: boolean) => Promise<unknown>;
+  getTodos: () => Todo[];
+  updateTodo: (todo: Todo) => Promise<unknown>;
+  removeTodo: (id: string) => Promise<unknown>;
+  replaceTodos: (todos: Todo[]) => Promise<unknown>;
+}
+
+interface TodoViewEntry {
+  variables: TodosQueryVariables;
+  handles: Set<TodoViewHandle>;
+}
+
+export interface TodoView {
+  entityKey: string;
+  variables: TodosQueryVariables;
+  /** The mounted view for this key, if any. */
+  handle?: TodoViewHandle;
+}
+
+const views = new Map<string, TodoViewEntry>();
+// Keyed apart from the views, so cache-only lists can be marked too
+const staleKeys = new Set<string>();
+let cache: ApolloCache<object> | null = null;
+
+const TODOS_FIELD = /^todos\((.*)\)$/;
+
+// Apollo names cached fields after their arguments with sorted keys
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const fields = Object.entries(value)
+      .filter(([, fieldValue]) => fieldValue !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(
+        ([key, fieldValue]) =>
+          `${JSON.stringify(key)}:${canonicalJson(fieldValue)}`
+      );
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export function getTodosEntityKey(
+  variables: TodosQueryVariables,
+  infinite = false
+) {
+  return `todos:${infinite ? 'infinite:' : ''}${JSON.stringify(variables)}`;
+}
+
+/**
+ * Puts cached arguments, which Apollo stores with sorted keys, back in the
+ * order `buildTodosVariables` uses, so they give the same entity key.
+ */
+function orderTodosVariables({
+  filters,
+  pagination,
+}: TodosQueryVariables): TodosQueryVariables {
+  const { page, limit, sortBy, sortOrder } = pagination;
+  const ordered: TodosQueryVariables = {
+    pagination: { page, limit, sortBy, sortOrder },
+  };
+  if (!filters) {
+    return ordered;
+  }
+  const { completed, priority, search, tags, tagMatch } = filters;
+  const filterInput: TodoFilterInput = {
+    completed,
+    priority,
+    search,
+    tags,
+    tagMatch,
+  };
+  return { filters: filterInput, ...ordered };
+}
+
+/** Identifies the cached `todos` field a list's variables read from. */
+export const getTodosFieldKey = (variables: TodosQueryVariables) =>
+  `todos(${canonicalJson(variables)})`;
+
+/** The cache that holds the lists; `useTodos` attaches it on mount. */
+export function setTodoViewCache(nextCache: ApolloCache<object>) {
+  cache = nextCache;
+}
+
+export const getTodoViewCache = () => cache;
+
+interface CachedTodosList {
+  variables: TodosQueryVariables;
+  rowCount: number;
+}
+
+/** Every `todos` list in the cache, mounted or not. */
+function getCachedTodosLists(): CachedTodosList[] {
+  const extracted = cache?.extract() as NormalizedCacheObject | undefined;
+  const root = extracted?.ROOT_QUERY ?? {};
+  return Object.entries(root).flatMap(([field, value]) => {
+    const match = TODOS_FIELD.exec(field);
+    if (!match) {
+      return [];
+    }
+    const rows = (value as { data?: unknown } | undefined)?.data;
+    try {
+      return [
+        {
+          variables: JSON.parse(match[1]) as TodosQueryVariables,
+          rowCount: Array.isArray(rows) ? rows.length : 0,
+        },
+      ];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function registerTodoView(handle: TodoViewHandle) {
+  let entry = views.get(handle.entityKey);
+  if (!entry) {
+    entry = { variables: handle.variables, handles: new Set() };
+    views.set(handle.entityKey, entry);
+  }
+  entry.handles.add(handle);
+
+  return () => {
+    entry.handles.delete(handle);
+  };
+}
+
+export function getTodoViewKeys() {
+  return Array.from(views.keys());
+}
+
+/** Registered views, then cached lists no view has registered. */
+export function getTodoViews(): TodoView[] {
+  const registered = Array.from(views.entries()).map(
+    ([entityKey, entry]): TodoView => {
+      const handles = Array.from(entry.handles);
+      return {
+        entityKey,
+        variables: entry.variables,
+        handle: handles.length > 0 ? handles[0] : undefined,
+      };
+    }
+  );
+
+  const known = new Set(
+    registered.map(({ variables }) => getTodosFieldKey(variables))
+  );
+  // Paged and infinite lists share a field; only appended pages overflow it
+  const cachedOnly = getCachedTodosLists()
+    .filter(({ variables }) => !known.has(getTodosFieldKey(variables)))
+    .map(({ variables, rowCount }): TodoView => {
+      const { limit } = variables.pagination;
+      const infinite = typeof limit === 'number' && rowCount > limit;
+      return {
+        entityKey: getTodosEntityKey(orderTodosVariables(variables), infinite),
+        variables,
+      };
+    });
+
+  return [...registered, ...cachedOnly];
+}
+
+export function markTodoViewStale(entityKey: string) {
+  staleKeys.add(entityKey);
+}
+
+/** Returns true once for a view that missed an update while unmounted. */
+export function consumeStaleTodoView(entityKey: string) {
+  return staleKeys.delete(entityKey);
+}
+
+/**
+ * Refetches every mounted list. Lists that are not mounted are dropped from
+ * the cache, so they load from the server once shown again instead of
+ * starting out with what was cached (or persisted) before.
+ */
+export async function refreshTodoViews() {
+  const refreshes: Promise<unknown>[] = [];
+  const mounted = new Set<string>();
+
+  getTodoViews().forEach(({ variables, handle }) => {
+    if (handle) {
+      mounted.add(getTodosFieldKey(variables));
+      refreshes.push(handle.refresh(true));
+    }
+  });
+  getTodoViews().forEach(({ entityKey, variables, handle }) => {
+    if (handle || mounted.has(getTodosFieldKey(variables))) {
+      return;
+    }
+    markTodoViewStale(entityKey);
+    cache?.evict({ id: 'ROOT_QUERY', fieldName: 'todos', args: variables });
+  });
+  cache?.gc();
+
+  await Promise.all(refreshes);
+}
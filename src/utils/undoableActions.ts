@@ -0,0 +1,145 @@
+/**
+ * Destructive todo changes are applied to the lists right away but only sent
+ * to the server once their undo window closes. Until then the change can be
+ * reverted locally without any request.
+ */
+export const UNDO_WINDOW_MS = 6000;
+
+export interface UndoableActionOptions {
+  /** Identifies the action, so a repeated toggle can cancel the first one. */
+  key: string;
+  message: string;
+  /** Sends the change to the server once the undo window has passed. */
+  commit: () => Promise<void>;
+  /** Puts the lists back the way they were before the change. */
+  undo: () => Promise<void>;
+  /**
+   * Applies the change to the lists again after they were replaced, e.g.
+   * by a refetch that still has the server's version.
+   */
+  reapply: () => Promise<unknown>;
+  /**
+   * Called instead of `commit` when the page goes away mid-window; must
+   * save the change synchronously (e.g. to the offline outbox).
+   */
+  persist: () => void;
+}
+
+export interface UndoableAction {
+  id: string;
+  key: string;
+  message: string;
+  expiresAt: number;
+}
+
+interface ScheduledAction extends UndoableAction {
+  options: UndoableActionOptions;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let scheduled: ScheduledAction[] = [];
+let snapshot: UndoableAction[] = [];
+const listeners = new Set<() => void>();
+let nextId = 0;
+
+const setScheduled = (nextScheduled: ScheduledAction[]) => {
+  scheduled = nextScheduled;
+  snapshot = scheduled.map(({ id, key, message, expiresAt }) => ({
+    id,
+    key,
+    message,
+    expiresAt,
+  }));
+  listeners.forEach(listener => {
+    listener();
+  });
+};
+
+const take = (id: string) => {
+  const action = scheduled.find(current => current.id === id);
+  if (action) {
+    clearTimeout(action.timer);
+    setScheduled(scheduled.filter(current => current.id !== id));
+  }
+  return action;
+};
+
+export const subscribeToUndoableActions = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getUndoableActions = () => snapshot;
+
+export const findUndoableAction = (key: string) =>
+  snapshot.find(action => action.key === key);
+
+export function scheduleUndoableAction(
+  options: UndoableActionOptions,
+  delayMs = UNDO_WINDOW_MS
+) {
+  nextId += 1;
+  const id = `undo-${nextId}`;
+
+  const timer = setTimeout(() => {
+    void commitUndoableAction(id);
+  }, delayMs);
+
+  setScheduled([
+    ...scheduled,
+    {
+      id,
+      key: options.key,
+      message: options.message,
+      expiresAt: Date.now() + delayMs,
+      options,
+      timer,
+    },
+  ]);
+  return id;
+}
+
+/** Ends the undo window early and sends the change. */
+export async function commitUndoableAction(id: string) {
+  const action = take(id);
+  if (!action) {
+    return;
+  }
+  try {
+    await action.options.commit();
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('Error committing change:', error);
+  }
+}
+
+export async function undoUndoableAction(id: string) {
+  const action = take(id);
+  if (!action) {
+    return false;
+  }
+  await action.options.undo();
+  return true;
+}
+
+/**
+ * Re-applies every change still inside its undo window, oldest first. Call
+ * after lists were replaced so rows a pending change hides stay hidden.
+ */
+export async function reapplyUndoableActions() {
+  for (const action of scheduled) {
+    await action.options.reapply();
+  }
+}
+
+/** Hands every change still inside its undo window to `persist`. */
+export function persistUndoableActions() {
+  const pending = scheduled;
+  setScheduled([]);
+  pending.forEach(action => {
+    clearTimeout(action.timer);
+    action.options.persist();
+  });
+}